@@ -0,0 +1,29 @@
+// Level analyzer CLI - `npm run analyze` checks the built-in chapters, or pass level JSON files:
+// `npm run analyze -- path/to/level.json`. Exits non-zero when any level has errors.
+
+import { readFileSync } from 'node:fs';
+import { allLevels } from '../src/levels';
+import { parseLevel } from '../src/levels/loader';
+import { analyzeLevel, formatReport } from '../src/levels/analyzer';
+
+const paths = process.argv.slice(2);
+let hasErrors = false;
+
+const targets =
+  paths.length > 0
+    ? paths.map((path) => ({ path, read: () => parseLevel(readFileSync(path, 'utf8')) }))
+    : allLevels.map((level) => ({ path: level.id, read: () => level }));
+
+for (const { path, read } of targets) {
+  try {
+    const report = analyzeLevel(read());
+    console.log(formatReport(report));
+    hasErrors ||= report.issues.some((issue) => issue.severity === 'error');
+  } catch (error) {
+    console.log(`${path}\n  ${(error as Error).message}`);
+    hasErrors = true;
+  }
+  console.log();
+}
+
+process.exit(hasErrors ? 1 : 0);
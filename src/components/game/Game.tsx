@@ -1,64 +1,171 @@
-// Main Game component
+// Main game component
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { GameCanvas } from './GameCanvas';
 import { GameUI } from '../ui/GameUI';
+import { ReplayControls } from '../ui/ReplayControls';
+import { ControlsMenu } from '../ui/ControlsMenu';
+import { LevelEditor } from '../ui/LevelEditor';
+import { TouchControls } from '../ui/TouchControls';
 import { useInput } from '../../hooks/useInput';
+import { useGamepad } from '../../hooks/useGamepad';
 import { useGameLoop } from '../../hooks/useGameLoop';
 import { useAudio } from '../../hooks/useAudio';
-import { GameState, Player, LevelData, Vector2D } from '../../types/game';
-import { PLAYER_WIDTH, PLAYER_HEIGHT, CANVAS_WIDTH, CANVAS_HEIGHT } from '../../game/constants';
-import { updatePlayerPhysics, updatePushablePhysics, updateMovingPlatforms, updateRopePhysics, updateIdleRopePhysics, checkRopeGrab } from '../../game/physics';
-import { ROPE_GRAB_DISTANCE } from '../../game/constants';
-import { checkHazardCollision, rectIntersect, clamp } from '../../utils/collision';
-import { levels } from '../../levels';
-
-const createInitialPlayer = (startPosition: Vector2D): Player => ({
-  position: { ...startPosition },
-  velocity: { x: 0, y: 0 },
-  width: PLAYER_WIDTH,
-  height: PLAYER_HEIGHT,
-  isGrounded: false,
-  isJumping: false,
-  isDead: false,
-  isGrabbing: false,
-  isOnRope: false,
-  attachedRopeId: null,
-  ropeGrabCooldown: 0,
-  facingRight: true,
-  animationState: 'idle',
-});
-
-const createInitialGameState = (levelIndex: number): GameState => {
-  const levelData = levels[levelIndex];
-  return {
-    isPlaying: false,
-    isPaused: false,
-    currentLevel: levelIndex,
-    player: createInitialPlayer(levelData.playerStart),
-    camera: {
-      x: levelData.playerStart.x,
-      y: levelData.playerStart.y,
-      zoom: 1,
-      shake: 0,
-    },
-    lastCheckpoint: null,
-    deathCount: 0,
-    levelData,
-  };
-};
+import {
+  ChapterMeta,
+  EditorSession,
+  ExitZone,
+  GameState,
+  InputBindings,
+  InputCommand,
+  InputState,
+  LevelData,
+  ReplayData,
+  SaveFile,
+  SaveSlot,
+  TouchSettings,
+  WorldStepResult,
+} from '../../types/game';
+import {
+  createInitialGameState,
+  respawnPlayer,
+  startAtCheckpoint,
+  stepWorld,
+  interpolateState,
+} from '../../game/simulation';
+import {
+  createReplay,
+  createReplayStartState,
+  applyReplayFrame,
+  seekReplay,
+  encodeInput,
+  serializeReplay,
+  parseReplay,
+  REPLAY_RESTART_BIT,
+  REPLAY_KILL_BIT,
+} from '../../game/replay';
+import { createSeed } from '../../game/random';
+import { createBlankLevel, createEditorSession } from '../../game/editor';
+import {
+  loadSaveFile,
+  writeSaveFile,
+  createSaveSlot,
+  recordLevelStart,
+  recordCheckpoint,
+  recordLevelComplete,
+  recordPlaySession,
+} from '../../game/save';
+import { loadBindings, writeBindings } from '../../game/bindings';
+import { downloadTextFile } from '../../utils/file';
+import { EMPTY_INPUT, mergeInputStates } from '../../utils/gamepad';
+import { isTouchDevice, loadTouchSettings, shouldShowTouchControls, writeTouchSettings } from '../../utils/touch';
+import { allLevels, getNextLevel, levels, readLevelFile } from '../../levels';
+import { LEVEL_EXIT_DELAY, TITLE_CARD_DURATION } from '../../game/constants';
+
+// Replay being played back in place of live input
+interface ReplayPlayback {
+  data: ReplayData;
+  startState: GameState;
+  keyframes: GameState[];
+  frame: number;
+  // Live session to return to when the replay is closed
+  liveState: GameState;
+}
+
+interface ReplayView {
+  levelId: string;
+  frame: number;
+  frameCount: number;
+  isPlaying: boolean;
+}
 
 export const Game: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(() => createInitialGameState(0));
+  const [gameState, setGameState] = useState<GameState>(() =>
+    createInitialGameState(levels[0], 0, createSeed())
+  );
+  // Authoritative simulation state lives in refs; React only receives render snapshots
+  const worldRef = useRef<GameState>(gameState);
+  const prevWorldRef = useRef<GameState>(gameState);
+  const levelCompleteRef = useRef(false);
+  // Every fixed step of the current level attempt is recorded for bug repros
+  const recordingRef = useRef<ReplayData | null>(null);
+  // Debug kill requested with K, applied (and recorded) on the next step
+  const debugKillRef = useRef(false);
+  // Level loaded from a player's file, played outside the chapters and save progress
+  const customLevelRef = useRef<LevelData | null>(null);
+  // Level editor, kept open underneath while its level is being play-tested
+  const [editorSession, setEditorSession] = useState<EditorSession | null>(null);
+  const [isPlayTesting, setIsPlayTesting] = useState(false);
+  const isEditing = editorSession !== null && !isPlayTesting;
+  const replayRef = useRef<ReplayPlayback | null>(null);
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
   const [showStartScreen, setShowStartScreen] = useState(true);
-  const input = useInput();
-  const levelDataRef = useRef<LevelData>(levels[0]);
+  const [showCredits, setShowCredits] = useState(false);
+  // Chapter title card over the opening of a level
+  const [titleCard, setTitleCard] = useState<ChapterMeta | null>(null);
+  // Saved progress; deaths and play time are batched per session and flushed on events
+  const [saveFile, setSaveFile] = useState<SaveFile>(loadSaveFile);
+  const saveFileRef = useRef<SaveFile>(saveFile);
+  const sessionRef = useRef({ deaths: 0, playTime: 0 });
+  // Player's key/button bindings, editable from the Controls screen
+  const [bindings, setBindings] = useState<InputBindings>(loadBindings);
+  const [showControls, setShowControls] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  // Gamepad pause/restart presses are routed to the same handler as the keyboard
+  const commandRef = useRef<(command: InputCommand) => void>(() => {});
+  const onGamepadCommand = useCallback((command: InputCommand) => commandRef.current(command), []);
+  const keyboardInput = useInput(bindings.keys);
+  const gamepad = useGamepad(bindings.buttons, onGamepadCommand);
+  // On-screen controls appear on touch devices (or as chosen on the Controls screen)
+  const [touchSettings, setTouchSettings] = useState<TouchSettings>(loadTouchSettings);
+  const [hasTouch, setHasTouch] = useState(isTouchDevice);
+  const [touchInput, setTouchInput] = useState<InputState>(EMPTY_INPUT);
+  const input = useMemo(
+    () => mergeInputStates(keyboardInput, gamepad.input, touchInput),
+    [keyboardInput, gamepad.input, touchInput]
+  );
+  const inputRef = useRef<InputState>(input);
+
+  useEffect(() => {
+    inputRef.current = input;
+  }, [input]);
+
+  const { rumble } = gamepad;
+
+  // Hybrid laptops may not report touch support up front; the first touch reveals it
+  useEffect(() => {
+    if (hasTouch) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') setHasTouch(true);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [hasTouch]);
 
   // Audio system
-  const { playDeathSound, playJumpSound, playLandSound, playCheckpointSound } = useAudio(
-    gameState.isPlaying && !showStartScreen,
-    0.4
-  );
+  const {
+    playDeathSound,
+    playJumpSound,
+    playLandSound,
+    playCheckpointSound,
+    playTickSound,
+    playMusicCue,
+    playAmbienceSwell,
+  } = useAudio(gameState.isPlaying && !showStartScreen, 0.4);
+
+  // A chapter opens with its ambience swelling in and its music cue under the title card
+  useEffect(() => {
+    if (!titleCard) return;
+    if (titleCard.ambience) playAmbienceSwell(titleCard.ambience);
+    if (titleCard.musicCue) playMusicCue(titleCard.musicCue);
+    const timer = setTimeout(() => setTitleCard(null), TITLE_CARD_DURATION);
+    return () => clearTimeout(timer);
+  }, [titleCard, playAmbienceSwell, playMusicCue]);
+
+  // The last chapter's done - the credits roll to a resolving cue
+  useEffect(() => {
+    if (showCredits) playMusicCue('resolve');
+  }, [showCredits, playMusicCue]);
 
   // Track previous state for sound triggers
   const prevStateRef = useRef<{ wasGrounded: boolean; wasDead: boolean; wasJumping: boolean }>({
@@ -67,13 +174,6 @@ export const Game: React.FC = () => {
     wasJumping: false,
   });
 
-  // Keep level data ref updated
-  useEffect(() => {
-    if (gameState.levelData) {
-      levelDataRef.current = gameState.levelData;
-    }
-  }, [gameState.levelData]);
-
   // Sound effect triggers
   useEffect(() => {
     const prev = prevStateRef.current;
@@ -82,6 +182,7 @@ export const Game: React.FC = () => {
     // Death sound
     if (player.isDead && !prev.wasDead) {
       playDeathSound();
+      rumble(1, 400);
     }
 
     // Jump sound
@@ -92,6 +193,7 @@ export const Game: React.FC = () => {
     // Land sound
     if (player.isGrounded && !prev.wasGrounded && !player.isDead) {
       playLandSound();
+      rumble(0.2, 80);
     }
 
     // Update previous state
@@ -100,275 +202,518 @@ export const Game: React.FC = () => {
       wasDead: player.isDead,
       wasJumping: player.isJumping,
     };
-  }, [gameState.player, playDeathSound, playJumpSound, playLandSound]);
+  }, [gameState.player, playDeathSound, playJumpSound, playLandSound, rumble]);
+
+  // Replace the world outright (no interpolation across the cut) and publish it
+  const setWorld = useCallback((update: (prev: GameState) => GameState) => {
+    const next = update(worldRef.current);
+    worldRef.current = next;
+    prevWorldRef.current = next;
+    setGameState(next);
+  }, []);
 
-  const startGame = useCallback(() => {
+  const startRecording = useCallback((state: GameState, checkpointId?: string, snapshot?: LevelData) => {
+    recordingRef.current = state.levelData
+      ? createReplay(state.levelData.id, state.rngState, checkpointId, snapshot)
+      : null;
+  }, []);
+
+  const writeSave = useCallback((file: SaveFile) => {
+    saveFileRef.current = file;
+    writeSaveFile(file);
+    setSaveFile(file);
+  }, []);
+
+  const updateActiveSlot = useCallback(
+    (update: (slot: SaveSlot) => SaveSlot) => {
+      const file = saveFileRef.current;
+      const slot = update(file.slots[file.activeSlot] ?? createSaveSlot());
+      writeSave({ ...file, slots: file.slots.map((s, i) => (i === file.activeSlot ? slot : s)) });
+    },
+    [writeSave]
+  );
+
+  const flushSession = useCallback(() => {
+    const { deaths, playTime } = sessionRef.current;
+    if (deaths === 0 && playTime === 0) return;
+    sessionRef.current = { deaths: 0, playTime: 0 };
+    updateActiveSlot((slot) => recordPlaySession(slot, deaths, playTime));
+  }, [updateActiveSlot]);
+
+  // Keep play time when the tab is closed or hidden
+  useEffect(() => {
+    const handleHide = () => flushSession();
+    window.addEventListener('pagehide', handleHide);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', handleHide);
+      document.removeEventListener('visibilitychange', handleHide);
+    };
+  }, [flushSession]);
+
+  const startLevel = useCallback(
+    (levelIndex: number, checkpointId?: string, snapshot?: LevelData) => {
+      const level = allLevels[levelIndex];
+      const initial = { ...createInitialGameState(level, levelIndex, createSeed()), isPlaying: true };
+      const state = checkpointId ? startAtCheckpoint(initial, checkpointId, snapshot) : initial;
+
+      levelCompleteRef.current = false;
+      setShowStartScreen(false);
+      setTitleCard(level.chapter ?? null);
+      setWorld(() => state);
+      startRecording(state, checkpointId, snapshot);
+      updateActiveSlot((slot) => recordLevelStart(slot, level.id, checkpointId));
+    },
+    [setWorld, startRecording, updateActiveSlot]
+  );
+
+  // Custom levels use level index -1 and leave the save slot alone
+  const startCustomLevel = useCallback(
+    (level: LevelData) => {
+      customLevelRef.current = level;
+      const state = { ...createInitialGameState(level, -1, createSeed()), isPlaying: true };
+
+      levelCompleteRef.current = false;
+      setShowStartScreen(false);
+      setTitleCard(level.chapter ?? null);
+      setWorld(() => state);
+      startRecording(state);
+    },
+    [setWorld, startRecording]
+  );
+
+  const loadLevelFile = useCallback(
+    async (file: File) => {
+      try {
+        startCustomLevel(await readLevelFile(file));
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [startCustomLevel]
+  );
+
+  // Level files can be dropped anywhere on the page (the editor opens them itself)
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => e.preventDefault();
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (file && !replayRef.current && !isEditing) loadLevelFile(file);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [loadLevelFile, isEditing]);
+
+  const openEditor = useCallback(() => {
+    setEditorSession(createEditorSession(createBlankLevel()));
     setShowStartScreen(false);
-    setGameState((prev) => ({
-      ...prev,
-      isPlaying: true,
-    }));
   }, []);
 
+  const exitEditor = useCallback(() => {
+    setEditorSession(null);
+    setShowStartScreen(true);
+  }, []);
+
+  const playTestLevel = useCallback(
+    (level: LevelData) => {
+      setIsPlayTesting(true);
+      startCustomLevel(level);
+    },
+    [startCustomLevel]
+  );
+
+  const returnToEditor = useCallback(() => {
+    levelCompleteRef.current = false;
+    setIsPlayTesting(false);
+    setWorld(() => createInitialGameState(levels[0], 0, createSeed()));
+    recordingRef.current = null;
+  }, [setWorld]);
+
+  // New Game starts the active slot over - ask first unless it's empty
+  const startGame = useCallback(() => {
+    const { slots, activeSlot } = saveFileRef.current;
+    const slot = slots[activeSlot];
+    if (slot && !window.confirm(`Start a new game in Slot ${activeSlot + 1}? Its progress, deaths and play time will be lost.`)) {
+      return;
+    }
+    updateActiveSlot(() => createSaveSlot());
+    startLevel(0);
+  }, [startLevel, updateActiveSlot]);
+
+  const continueGame = useCallback(() => {
+    const slot = saveFileRef.current.slots[saveFileRef.current.activeSlot];
+    const levelIndex = allLevels.findIndex((level) => level.id === slot?.currentLevelId);
+    if (!slot || levelIndex === -1) return;
+    const level = allLevels[levelIndex];
+    const checkpointId = slot.checkpoints[level.id];
+    if (!level.checkpoints.some((cp) => cp.id === checkpointId)) {
+      startLevel(levelIndex);
+      return;
+    }
+    startLevel(levelIndex, checkpointId, slot.checkpointSnapshots?.[level.id]);
+  }, [startLevel]);
+
+  const selectSaveSlot = useCallback(
+    (index: number) => {
+      writeSave({ ...saveFileRef.current, activeSlot: index });
+    },
+    [writeSave]
+  );
+
   const restartLevel = useCallback(() => {
-    const levelData = levels[gameState.currentLevel];
-    const respawnPoint = gameState.lastCheckpoint || levelData.playerStart;
+    recordingRef.current?.frames.push(REPLAY_RESTART_BIT);
+    setWorld(respawnPlayer);
+  }, [setWorld]);
+
+  // Leave the level through `exit` - on to where it leads, or the credits after the last chapter
+  const nextLevel = useCallback((exit: ExitZone) => {
+    levelCompleteRef.current = false;
+    if (worldRef.current.currentLevel === -1 && isPlayTesting) {
+      returnToEditor();
+      return;
+    }
+    if (worldRef.current.currentLevel === -1) {
+      // Custom level finished - back to the menu
+      setShowStartScreen(true);
+      setWorld(() => createInitialGameState(levels[0], 0, createSeed()));
+      recordingRef.current = null;
+      return;
+    }
 
-    setGameState((prev) => ({
-      ...prev,
-      player: createInitialPlayer(respawnPoint),
-      camera: {
-        x: respawnPoint.x,
-        y: respawnPoint.y,
-        zoom: 1,
-        shake: 0,
-      },
-      isPaused: false,
-    }));
-  }, [gameState.currentLevel, gameState.lastCheckpoint]);
-
-  const nextLevel = useCallback(() => {
-    const nextLevelIndex = gameState.currentLevel + 1;
-    if (nextLevelIndex < levels.length) {
-      setGameState(createInitialGameState(nextLevelIndex));
-      setGameState((prev) => ({
-        ...prev,
-        isPlaying: true,
-      }));
+    const completed = allLevels[worldRef.current.currentLevel];
+    const next = getNextLevel(completed, exit);
+    flushSession();
+    updateActiveSlot((slot) => recordLevelComplete(slot, completed.id, next?.id ?? null));
+
+    if (next) {
+      startLevel(allLevels.indexOf(next));
     } else {
-      // Game complete
-      setShowStartScreen(true);
-      setGameState(createInitialGameState(0));
+      // Game complete - the last frame holds under the credits until they're closed
+      setShowCredits(true);
+      recordingRef.current = null;
     }
-  }, [gameState.currentLevel]);
+  }, [setWorld, startLevel, flushSession, updateActiveSlot, isPlayTesting, returnToEditor]);
+
+  const closeCredits = useCallback(() => {
+    setShowCredits(false);
+    setShowStartScreen(true);
+    setWorld(() => createInitialGameState(levels[0], 0, createSeed()));
+  }, [setWorld]);
 
   const togglePause = useCallback(() => {
-    setGameState((prev) => ({
+    flushSession();
+    setWorld((prev) => ({
       ...prev,
       isPaused: !prev.isPaused,
     }));
+  }, [setWorld, flushSession]);
+
+  const saveReplay = useCallback(() => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadTextFile(`replay-${recording.levelId}-${timestamp}.json`, serializeReplay(recording));
   }, []);
 
-  // Handle escape key for pause
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Escape' && gameState.isPlaying) {
+  const publishReplayView = useCallback((isPlaying: boolean) => {
+    const replay = replayRef.current;
+    setReplayView(
+      replay && {
+        levelId: replay.data.levelId,
+        frame: replay.frame,
+        frameCount: replay.data.frames.length,
+        isPlaying,
+      }
+    );
+  }, []);
+
+  const loadReplay = useCallback(
+    async (file: File) => {
+      let data: ReplayData;
+      try {
+        data = parseReplay(await file.text());
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      const levelIndex = allLevels.findIndex((level) => level.id === data.levelId);
+      const customLevel = customLevelRef.current?.id === data.levelId ? customLevelRef.current : null;
+      if (levelIndex === -1 && !customLevel) {
+        window.alert(`Replay is for unknown level "${data.levelId}"`);
+        return;
+      }
+
+      const startState = customLevel
+        ? createReplayStartState(data, customLevel, -1)
+        : createReplayStartState(data, allLevels[levelIndex], levelIndex);
+      replayRef.current = {
+        data,
+        startState,
+        keyframes: [],
+        frame: 0,
+        liveState: replayRef.current?.liveState ?? worldRef.current,
+      };
+      setWorld(() => startState);
+      publishReplayView(true);
+    },
+    [setWorld, publishReplayView]
+  );
+
+  const exitReplay = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    replayRef.current = null;
+    setWorld(() => replay.liveState);
+    publishReplayView(false);
+  }, [setWorld, publishReplayView]);
+
+  const toggleReplayPlay = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    // Playing from the end starts over
+    if (!replayView?.isPlaying && replay.frame >= replay.data.frames.length) {
+      replay.frame = 0;
+      setWorld(() => replay.startState);
+    }
+    publishReplayView(!replayView?.isPlaying);
+  }, [replayView, setWorld, publishReplayView]);
+
+  const stepReplayFrame = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay || replay.frame >= replay.data.frames.length) return;
+    const { state } = applyReplayFrame(worldRef.current, replay.data.frames[replay.frame]);
+    replay.frame += 1;
+    setWorld(() => state);
+    publishReplayView(false);
+  }, [setWorld, publishReplayView]);
+
+  const seekReplayFrame = useCallback(
+    (frame: number) => {
+      const replay = replayRef.current;
+      if (!replay) return;
+      const state = seekReplay(replay.data, replay.startState, frame, replay.keyframes);
+      replay.frame = Math.min(frame, replay.data.frames.length);
+      setWorld(() => state);
+      publishReplayView(replayView?.isPlaying ?? false);
+    },
+    [replayView, setWorld, publishReplayView]
+  );
+
+  const changeBindings = useCallback((next: InputBindings) => {
+    writeBindings(next);
+    setBindings(next);
+  }, []);
+
+  const changeTouchSettings = useCallback((next: TouchSettings) => {
+    writeTouchSettings(next);
+    setTouchSettings(next);
+  }, []);
+
+  // Pause and restart, from whichever key or button is bound to them
+  const handleCommand = useCallback(
+    (command: InputCommand) => {
+      // The Controls screen captures presses itself
+      if (showControls) return;
+      if (showCredits) {
+        if (command === 'pause') closeCredits();
+        return;
+      }
+      if (replayRef.current) {
+        if (command === 'pause') exitReplay();
+        return;
+      }
+      if (command === 'pause' && gameState.isPlaying) {
         togglePause();
       }
-      if (e.code === 'KeyR' && gameState.player.isDead) {
+      if (command === 'restart' && gameState.player.isDead) {
         restartLevel();
       }
-      // Debug: Kill player with K key to test ragdoll
+    },
+    [
+      showControls,
+      showCredits,
+      gameState.isPlaying,
+      gameState.player.isDead,
+      togglePause,
+      restartLevel,
+      exitReplay,
+      closeCredits,
+    ]
+  );
+
+  useEffect(() => {
+    commandRef.current = handleCommand;
+  }, [handleCommand]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (bindings.keys.pause.includes(e.code)) handleCommand('pause');
+      if (bindings.keys.restart.includes(e.code)) handleCommand('restart');
+      // Debug: Toggle the overlay (platform paths) with the ` key
+      if (e.code === 'Backquote') setShowDebug((show) => !show);
+      if (showControls || replayRef.current) return;
+      // Debug: Kill player with K key to test ragdoll - on the next step, so it's recorded and counted
       if (e.code === 'KeyK' && gameState.isPlaying && !gameState.player.isDead) {
-        setGameState((prev) => ({
-          ...prev,
-          player: { ...prev.player, isDead: true, animationState: 'dying' },
-          deathCount: prev.deathCount + 1,
-          camera: { ...prev.camera, shake: 1 },
-        }));
+        debugKillRef.current = true;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState.isPlaying, gameState.player.isDead, togglePause, restartLevel]);
+  }, [bindings, showControls, gameState.isPlaying, gameState.player.isDead, handleCommand]);
 
-  // Main game update loop
+  // Advance the simulation by one fixed step
   const gameUpdate = useCallback(
-    (deltaTime: number) => {
-      if (!gameState.isPlaying || gameState.isPaused || !gameState.levelData) return;
-
-      setGameState((prev) => {
-        if (!prev.levelData) return prev;
-
-        let newState = { ...prev };
-        let levelData = { ...prev.levelData };
-
-        // Don't update if dead (wait for restart)
-        if (prev.player.isDead) {
-          return prev;
-        }
-
-        // Update moving platforms
-        levelData.platforms = updateMovingPlatforms(levelData.platforms, deltaTime);
-
-        // Update pushable objects
-        levelData.pushableObjects = updatePushablePhysics(
-          levelData.pushableObjects,
-          prev.player,
-          levelData.platforms,
-          input,
-          deltaTime
-        );
-
-        // Check for rope grab/release and update rope physics
-        let ropeResult = checkRopeGrab(prev.player, levelData.ropes, input, ROPE_GRAB_DISTANCE);
-        let currentPlayer = ropeResult.player;
-        levelData.ropes = ropeResult.ropes;
-
-        // Update rope physics if player is on a rope
-        if (currentPlayer.isOnRope && currentPlayer.attachedRopeId) {
-          const attachedRope = levelData.ropes.find((r) => r.id === currentPlayer.attachedRopeId);
-          if (attachedRope) {
-            const ropePhysicsResult = updateRopePhysics(attachedRope, currentPlayer, input, deltaTime);
-            currentPlayer = ropePhysicsResult.player;
-            levelData.ropes = levelData.ropes.map((r) =>
-              r.id === attachedRope.id ? ropePhysicsResult.rope : r
-            );
-          }
+    (fixedDt: number) => {
+      const replay = replayRef.current;
+      let result: WorldStepResult;
+
+      if (replay) {
+        // Replay playback: recorded inputs drive the world, live input is ignored
+        if (replay.frame >= replay.data.frames.length) {
+          publishReplayView(false);
+          return;
         }
+        result = applyReplayFrame(worldRef.current, replay.data.frames[replay.frame]);
+        replay.frame += 1;
+      } else if (debugKillRef.current) {
+        debugKillRef.current = false;
+        recordingRef.current?.frames.push(REPLAY_KILL_BIT);
+        result = applyReplayFrame(worldRef.current, REPLAY_KILL_BIT);
+      } else {
+        recordingRef.current?.frames.push(encodeInput(inputRef.current));
+        result = stepWorld(worldRef.current, inputRef.current, fixedDt);
+      }
 
-        // Update idle ropes (swing back to natural position when player not attached)
-        levelData.ropes = levelData.ropes.map((r) =>
-          r.id !== currentPlayer.attachedRopeId ? updateIdleRopePhysics(r, deltaTime) : r
-        );
-
-        // Update player physics (skipped if on rope)
-        const newPlayer = updatePlayerPhysics(currentPlayer, input, levelData, deltaTime);
-
-        // Check hazard collisions
-        for (const hazard of levelData.hazards) {
-          if (checkHazardCollision(newPlayer, hazard)) {
-            // Player dies
-            newPlayer.isDead = true;
-            newPlayer.animationState = 'dying';
-            newState.deathCount += 1;
-            newState.camera.shake = 1;
-            break;
+      const { state, events } = result;
+      // Custom levels and editor play-tests don't count towards the save's totals
+      const isSaved = !replay && state.currentLevel !== -1;
+      if (isSaved) sessionRef.current.playTime += fixedDt;
+      prevWorldRef.current = worldRef.current;
+      worldRef.current = state;
+
+      for (const event of events) {
+        if (event.type === 'checkpoint') {
+          playCheckpointSound();
+          if (isSaved && state.levelData) {
+            const levelId = state.levelData.id;
+            const snapshot = state.checkpointSnapshot ?? undefined;
+            flushSession();
+            updateActiveSlot((slot) => recordCheckpoint(slot, levelId, event.checkpointId, snapshot));
           }
+        } else if (event.type === 'death' && isSaved) {
+          sessionRef.current.deaths += 1;
+          flushSession();
+        } else if (event.type === 'switchTick') {
+          playTickSound(event.timeRemaining < 1000);
+        } else if (event.type === 'levelComplete' && !replay && !levelCompleteRef.current) {
+          // Level complete - let the player walk into the light briefly
+          levelCompleteRef.current = true;
+          setTimeout(() => nextLevel(event.exit), LEVEL_EXIT_DELAY);
         }
+      }
+    },
+    [nextLevel, playCheckpointSound, playTickSound, publishReplayView, flushSession, updateActiveSlot]
+  );
 
-        // Check checkpoint collisions
-        let checkpointActivated = false;
-        levelData.checkpoints = levelData.checkpoints.map((cp) => {
-          if (!cp.isActivated) {
-            const playerRect = {
-              x: newPlayer.position.x,
-              y: newPlayer.position.y,
-              width: newPlayer.width,
-              height: newPlayer.height,
-            };
-            const cpRect = { x: cp.x, y: cp.y, width: cp.width, height: cp.height };
-
-            if (rectIntersect(playerRect, cpRect)) {
-              newState.lastCheckpoint = { x: cp.x, y: cp.y + cp.height - newPlayer.height };
-              checkpointActivated = true;
-              return { ...cp, isActivated: true };
-            }
-          }
-          return cp;
-        });
-
-        // Play checkpoint sound outside of state update
-        if (checkpointActivated) {
-          setTimeout(() => playCheckpointSound(), 0);
-        }
-
-        // Check switch interactions
-        levelData.switches = levelData.switches.map((sw) => {
-          const playerRect = {
-            x: newPlayer.position.x,
-            y: newPlayer.position.y,
-            width: newPlayer.width,
-            height: newPlayer.height,
-          };
-          const swRect = { x: sw.x, y: sw.y, width: sw.width, height: sw.height };
-
-          if (sw.type === 'pressurePlate') {
-            // Check if player or pushable is on it
-            let isPressed = rectIntersect(playerRect, swRect);
-
-            if (!isPressed) {
-              for (const pushable of levelData.pushableObjects) {
-                const pushRect = {
-                  x: pushable.x,
-                  y: pushable.y,
-                  width: pushable.width,
-                  height: pushable.height,
-                };
-                if (rectIntersect(pushRect, swRect)) {
-                  isPressed = true;
-                  break;
-                }
-              }
-            }
-
-            if (isPressed !== sw.isActivated) {
-              // Toggle connected hazards
-              levelData.hazards = levelData.hazards.map((h) => {
-                if (sw.targetIds.includes(h.id)) {
-                  return { ...h, isActive: !isPressed };
-                }
-                return h;
-              });
-            }
-
-            return { ...sw, isActivated: isPressed };
-          } else if (rectIntersect(playerRect, swRect) && input.action && !sw.isActivated) {
-            // Lever or button
-            levelData.hazards = levelData.hazards.map((h) => {
-              if (sw.targetIds.includes(h.id)) {
-                return { ...h, isActive: false };
-              }
-              return h;
-            });
-            return { ...sw, isActivated: true };
-          }
+  // Publish an interpolated snapshot for the renderer
+  const gameRender = useCallback((alpha: number) => {
+    setGameState(interpolateState(prevWorldRef.current, worldRef.current, alpha));
+    const replay = replayRef.current;
+    if (replay) {
+      setReplayView((view) => (view && view.frame !== replay.frame ? { ...view, frame: replay.frame } : view));
+    }
+  }, []);
 
-          return sw;
-        });
+  useGameLoop(
+    gameUpdate,
+    gameState.isPlaying && !gameState.isPaused && !showCredits && (!replayView || replayView.isPlaying),
+    gameRender
+  );
 
-        // Check exit zone
-        const playerRect = {
-          x: newPlayer.position.x,
-          y: newPlayer.position.y,
-          width: newPlayer.width,
-          height: newPlayer.height,
-        };
+  if (replayView && gameState.levelData) {
+    return (
+      <>
+        <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
+        <ReplayControls
+          levelId={replayView.levelId}
+          frame={replayView.frame}
+          frameCount={replayView.frameCount}
+          isPlaying={replayView.isPlaying}
+          onTogglePlay={toggleReplayPlay}
+          onStepFrame={stepReplayFrame}
+          onSeek={seekReplayFrame}
+          onExit={exitReplay}
+        />
+      </>
+    );
+  }
 
-        if (rectIntersect(playerRect, levelData.exitZone)) {
-          // Level complete - will trigger next level
-          setTimeout(() => nextLevel(), 500);
-        }
+  if (editorSession && !isPlayTesting) {
+    return (
+      <LevelEditor
+        session={editorSession}
+        onChange={setEditorSession}
+        levels={allLevels}
+        onPlay={playTestLevel}
+        onExit={exitEditor}
+      />
+    );
+  }
 
-        // Update camera to follow player
-        const targetCameraX = newPlayer.position.x + newPlayer.width / 2;
-        const targetCameraY = newPlayer.position.y + newPlayer.height / 2;
-
-        // Smooth camera follow
-        const cameraSpeed = 0.08;
-        const newCameraX = prev.camera.x + (targetCameraX - prev.camera.x) * cameraSpeed;
-        const newCameraY = prev.camera.y + (targetCameraY - prev.camera.y) * cameraSpeed;
-
-        // Clamp camera to level bounds
-        const halfWidth = CANVAS_WIDTH / 2 / prev.camera.zoom;
-        const halfHeight = CANVAS_HEIGHT / 2 / prev.camera.zoom;
-
-        const camera = {
-          x: clamp(newCameraX, halfWidth, levelData.width - halfWidth),
-          y: clamp(newCameraY, halfHeight, levelData.height - halfHeight),
-          zoom: prev.camera.zoom,
-          shake: prev.camera.shake * 0.9, // Decay shake
-        };
-
-        return {
-          ...newState,
-          player: newPlayer,
-          camera,
-          levelData,
-        };
-      });
-    },
-    [gameState.isPlaying, gameState.isPaused, gameState.levelData, input, nextLevel, playCheckpointSound]
-  );
+  if (showControls) {
+    return (
+      <>
+        {!showStartScreen && gameState.levelData && (
+          <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
+        )}
+        <ControlsMenu
+          bindings={bindings}
+          onChange={changeBindings}
+          touchSettings={touchSettings}
+          onTouchSettingsChange={changeTouchSettings}
+          onBack={() => setShowControls(false)}
+        />
+      </>
+    );
+  }
 
-  useGameLoop(gameUpdate, gameState.isPlaying && !gameState.isPaused);
+  if (showCredits) {
+    return (
+      <>
+        {gameState.levelData && (
+          <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
+        )}
+        <GameUI
+          type="credits"
+          onFinish={closeCredits}
+          saveSlot={saveFile.slots[saveFile.activeSlot]}
+          deathCount={gameState.deathCount}
+        />
+      </>
+    );
+  }
 
   if (showStartScreen) {
     return (
       <GameUI
         type="start"
         onStart={startGame}
+        onContinue={continueGame}
+        onSelectChapter={startLevel}
+        onLoadLevel={loadLevelFile}
+        onOpenEditor={openEditor}
+        onSelectSlot={selectSaveSlot}
+        saveFile={saveFile}
+        chapters={levels.map((level) => ({ id: level.id, name: level.name }))}
+        onOpenControls={() => setShowControls(true)}
+        bindings={bindings}
         deathCount={gameState.deathCount}
       />
     );
@@ -378,12 +723,16 @@ export const Game: React.FC = () => {
     return (
       <>
         {gameState.levelData && (
-          <GameCanvas gameState={gameState} levelData={gameState.levelData} />
+          <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
         )}
         <GameUI
           type="pause"
           onResume={togglePause}
           onRestart={restartLevel}
+          onSaveReplay={saveReplay}
+          onLoadReplay={loadReplay}
+          onOpenControls={() => setShowControls(true)}
+          bindings={bindings}
           deathCount={gameState.deathCount}
         />
       </>
@@ -394,11 +743,12 @@ export const Game: React.FC = () => {
     return (
       <>
         {gameState.levelData && (
-          <GameCanvas gameState={gameState} levelData={gameState.levelData} />
+          <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
         )}
         <GameUI
           type="death"
           onRestart={restartLevel}
+          bindings={bindings}
           deathCount={gameState.deathCount}
         />
       </>
@@ -408,14 +758,23 @@ export const Game: React.FC = () => {
   return (
     <>
       {gameState.levelData && (
-        <GameCanvas gameState={gameState} levelData={gameState.levelData} />
+        <GameCanvas gameState={gameState} levelData={gameState.levelData} showDebug={showDebug} />
       )}
       <GameUI
         type="hud"
         deathCount={gameState.deathCount}
-        currentLevel={gameState.currentLevel + 1}
+        currentLevel={gameState.currentLevel < levels.length ? gameState.currentLevel + 1 : 0}
         levelName={gameState.levelData?.name || ''}
+        titleCard={titleCard}
       />
+      {isPlayTesting && (
+        <button className="replay-button editor-return" onClick={returnToEditor}>
+          Back to Editor
+        </button>
+      )}
+      {shouldShowTouchControls(touchSettings, hasTouch) && (
+        <TouchControls settings={touchSettings} onInputChange={setTouchInput} onPause={togglePause} />
+      )}
     </>
   );
 };
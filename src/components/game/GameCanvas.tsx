@@ -2,18 +2,30 @@
 // Skeletal animation player renderer
 
 import React, { useRef, useEffect, useCallback } from 'react';
-import { GameState, LevelData, Camera } from '../../types/game';
+import { GameState, LevelData, Camera, Vector2D } from '../../types/game';
 import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS } from '../../game/constants';
 import { renderPlayer } from './renderers/PlayerRenderer';
 import { renderLevel } from './renderers/LevelRenderer';
 import { renderEffects } from './renderers/EffectsRenderer';
+import { renderDebugOverlay } from './renderers/DebugRenderer';
+import { EditorOverlay, renderEditorOverlay } from './renderers/EditorRenderer';
 
 interface GameCanvasProps {
   gameState: GameState;
   levelData: LevelData;
+  showDebug?: boolean;
+  editorOverlay?: EditorOverlay;
+  // Pointer presses, drags and releases over the canvas, with the world point under the pointer
+  onPointer?: (event: React.PointerEvent<HTMLCanvasElement>, world: Vector2D) => void;
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, levelData }) => {
+export const GameCanvas: React.FC<GameCanvasProps> = ({
+  gameState,
+  levelData,
+  showDebug = false,
+  editorOverlay,
+  onPointer,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
@@ -36,8 +48,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, levelData })
     if (!mainCtx) return;
 
     // Apply camera shake
-    const shakeX = gameState.camera.shake * (Math.random() - 0.5) * 10;
-    const shakeY = gameState.camera.shake * (Math.random() - 0.5) * 10;
+    const shakeX = gameState.camera.shakeOffset?.x ?? 0;
+    const shakeY = gameState.camera.shakeOffset?.y ?? 0;
 
     // Clear canvas with background color
     ctx.fillStyle = COLORS.background;
@@ -65,26 +77,53 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, levelData })
     // Render foreground vegetation (in front of player)
     renderForeground(ctx, gameState.camera, levelData);
 
+    if (showDebug) renderDebugOverlay(ctx, levelData);
+
     // Restore context
     ctx.restore();
 
     // Render post-processing effects (film grain, vignette)
     renderEffects(ctx, gameState, levelData);
 
+    // Editor markings sit above the effects so they stay readable
+    if (editorOverlay) {
+      ctx.save();
+      ctx.translate(-gameState.camera.x + CANVAS_WIDTH / 2, -gameState.camera.y + CANVAS_HEIGHT / 2);
+      ctx.scale(gameState.camera.zoom, gameState.camera.zoom);
+      renderEditorOverlay(ctx, levelData, editorOverlay);
+      ctx.restore();
+    }
+
     // Draw to main canvas
     mainCtx.drawImage(offscreenCanvas, 0, 0);
-  }, [gameState, levelData]);
+  }, [gameState, levelData, showDebug, editorOverlay]);
 
   // Render on every state change
   useEffect(() => {
     render();
   }, [render]);
 
+  // The canvas is scaled to fit the page, so map back through its on-screen size and the camera
+  const handlePointer = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onPointer) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { camera } = gameState;
+    const screenX = ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH;
+    const screenY = ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT;
+    onPointer(event, {
+      x: (screenX + camera.x - CANVAS_WIDTH / 2) / camera.zoom,
+      y: (screenY + camera.y - CANVAS_HEIGHT / 2) / camera.zoom,
+    });
+  };
+
   return (
     <canvas
       ref={canvasRef}
       width={CANVAS_WIDTH}
       height={CANVAS_HEIGHT}
+      onPointerDown={onPointer && handlePointer}
+      onPointerMove={onPointer && handlePointer}
+      onPointerUp={onPointer && handlePointer}
       style={{
         display: 'block',
         margin: '0 auto',
@@ -0,0 +1,46 @@
+// Debug overlay - moving platform routes drawn over the level
+
+import { LevelData, Platform } from '../../../types/game';
+import { getPathPoints } from '../../../game/platformPaths';
+
+const PATH_COLOR = 'rgba(120, 200, 255, 0.8)';
+
+export function renderDebugOverlay(ctx: CanvasRenderingContext2D, levelData: LevelData): void {
+  levelData.platforms.forEach((platform) => {
+    if (platform.path) renderPlatformPath(ctx, platform);
+  });
+}
+
+// Route through each waypoint (platform center), with pauses ringed and the platform outlined
+export function renderPlatformPath(ctx: CanvasRenderingContext2D, platform: Platform): void {
+  const points = getPathPoints(platform);
+  if (points.length < 2) return;
+
+  ctx.save();
+  ctx.strokeStyle = PATH_COLOR;
+  ctx.fillStyle = PATH_COLOR;
+  ctx.lineWidth = 1.5;
+
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  platform.path!.waypoints.forEach((waypoint, index) => {
+    const { x, y } = points[index];
+    ctx.beginPath();
+    ctx.arc(x, y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    if (waypoint.pause) {
+      ctx.beginPath();
+      ctx.arc(x, y, 8, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.fillText(String(index), x + 6, y - 6);
+  });
+
+  ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
+  ctx.restore();
+}
@@ -0,0 +1,147 @@
+// Level editor overlay - grid, entity outlines, switch wiring, segment boundaries and the selection with its resize handle
+
+import { EditorSelection, ExitZone, LevelData, Rectangle, Vector2D } from '../../../types/game';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, EDITOR_HANDLE_SIZE } from '../../../game/constants';
+import { getAllSelections, getEntityBounds } from '../../../game/editor';
+import { renderPlatformPath } from './DebugRenderer';
+
+const GRID_COLOR = 'rgba(255, 255, 255, 0.06)';
+const OUTLINE_COLOR = 'rgba(160, 160, 170, 0.5)';
+const WIRE_COLOR = 'rgba(230, 190, 90, 0.35)';
+const ACTIVE_WIRE_COLOR = 'rgba(255, 210, 100, 0.95)';
+const SELECTION_COLOR = 'rgba(120, 200, 255, 0.95)';
+const PLAY_FROM_COLOR = 'rgba(140, 230, 140, 0.9)';
+const SEGMENT_COLOR = 'rgba(180, 140, 220, 0.5)';
+
+export interface EditorOverlay {
+  selection: EditorSelection | null;
+  camera: Vector2D;
+  grid: number;
+  playFrom: Vector2D | null;
+  isWiring: boolean; // Clicking entities wires them to the selected switch
+}
+
+export function renderEditorOverlay(ctx: CanvasRenderingContext2D, level: LevelData, overlay: EditorOverlay): void {
+  ctx.save();
+
+  if (overlay.grid >= 10) renderGrid(ctx, overlay.camera, overlay.grid);
+
+  ctx.strokeStyle = OUTLINE_COLOR;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(0, 0, level.width, level.height);
+
+  // Outline everything so invisible entities (exit, player start) can be found and picked
+  ctx.lineWidth = 1;
+  ctx.font = '11px monospace';
+  ctx.fillStyle = OUTLINE_COLOR;
+  for (const selection of getAllSelections(level)) {
+    const bounds = getEntityBounds(level, selection)!;
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    if (selection.kind === 'exitZone') renderExitLabel(ctx, level.exitZone, 'EXIT');
+  }
+  for (const exit of level.exits ?? []) {
+    renderExitLabel(ctx, exit, exit.isSecret ? 'SECRET' : 'EXIT');
+  }
+  level.platforms.forEach((platform) => {
+    if (platform.path) renderPlatformPath(ctx, platform);
+  });
+
+  // Switch wiring - the selected switch's wires stand out
+  for (const sw of level.switches) {
+    const isSelected = overlay.selection?.kind === 'switches' && overlay.selection.id === sw.id;
+    for (const targetId of sw.targetIds) {
+      const target = getAllSelections(level).find((selection) => selection.id === targetId);
+      const bounds = target && getEntityBounds(level, target);
+      if (bounds) renderWire(ctx, getCenter(sw), getCenter(bounds), isSelected);
+    }
+  }
+
+  if (level.segments) renderSegments(ctx, level);
+
+  if (overlay.playFrom) {
+    const { x, y } = overlay.playFrom;
+    ctx.strokeStyle = PLAY_FROM_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x - 8, y);
+    ctx.lineTo(x + 8, y);
+    ctx.moveTo(x, y - 8);
+    ctx.lineTo(x, y + 8);
+    ctx.stroke();
+  }
+
+  const selected = overlay.selection && getEntityBounds(level, overlay.selection);
+  if (selected) {
+    ctx.strokeStyle = overlay.isWiring ? ACTIVE_WIRE_COLOR : SELECTION_COLOR;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(overlay.isWiring ? [6, 4] : []);
+    ctx.strokeRect(selected.x - 2, selected.y - 2, selected.width + 4, selected.height + 4);
+    ctx.setLineDash([]);
+    if (overlay.selection!.kind !== 'playerStart') {
+      const half = EDITOR_HANDLE_SIZE / 2;
+      ctx.fillRect(selected.x + selected.width - half, selected.y + selected.height - half, half * 2, half * 2);
+    }
+  }
+
+  ctx.restore();
+}
+
+// Grid lines across the visible part of the world
+function renderGrid(ctx: CanvasRenderingContext2D, camera: Vector2D, grid: number): void {
+  const left = Math.floor((camera.x - CANVAS_WIDTH / 2) / grid) * grid;
+  const top = Math.floor((camera.y - CANVAS_HEIGHT / 2) / grid) * grid;
+  const right = camera.x + CANVAS_WIDTH / 2;
+  const bottom = camera.y + CANVAS_HEIGHT / 2;
+
+  ctx.strokeStyle = GRID_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = left; x <= right; x += grid) {
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, bottom);
+  }
+  for (let y = top; y <= bottom; y += grid) {
+    ctx.moveTo(left, y);
+    ctx.lineTo(right, y);
+  }
+  ctx.stroke();
+}
+
+// A sagging cable from a switch to what it drives, with a dot at the target end
+function renderWire(ctx: CanvasRenderingContext2D, from: Vector2D, to: Vector2D, isActive: boolean): void {
+  ctx.strokeStyle = isActive ? ACTIVE_WIRE_COLOR : WIRE_COLOR;
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.lineWidth = isActive ? 2 : 1;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.quadraticCurveTo((from.x + to.x) / 2, Math.max(from.y, to.y) + 40, to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(to.x, to.y, 3, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// Streaming segment boundaries, dashed down the level's full height, with each segment's name
+function renderSegments(ctx: CanvasRenderingContext2D, level: LevelData): void {
+  ctx.strokeStyle = SEGMENT_COLOR;
+  ctx.fillStyle = SEGMENT_COLOR;
+  ctx.setLineDash([12, 8]);
+  for (const segment of level.segments ?? []) {
+    ctx.beginPath();
+    ctx.moveTo(segment.x, 0);
+    ctx.lineTo(segment.x, level.height);
+    ctx.stroke();
+    ctx.fillText(segment.id, segment.x + 6, 14);
+  }
+  ctx.setLineDash([]);
+}
+
+// Exit name, and where it leads when that isn't just the next chapter
+function renderExitLabel(ctx: CanvasRenderingContext2D, exit: ExitZone, name: string): void {
+  ctx.fillText(exit.nextLevelId ? `${name} → ${exit.nextLevelId}` : name, exit.x + 4, exit.y + 14);
+}
+
+function getCenter(rect: Rectangle): Vector2D {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
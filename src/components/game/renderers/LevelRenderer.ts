@@ -8,9 +8,15 @@ import {
   Switch,
   Checkpoint,
   GameState,
+  Light,
+  Door,
+  Rope,
 } from '../../../types/game';
-import { COLORS } from '../../../game/constants';
+import { COLORS, SWITCH_TICK_INTERVAL } from '../../../game/constants';
 import { renderWater } from './WaterRenderer';
+import { getHazardRect } from '../../../game/hazards';
+import { getSwitchDuration, getSwitchMode } from '../../../game/switches';
+import { getRopePoints } from '../../../game/ropes';
 
 export function renderLevel(
   ctx: CanvasRenderingContext2D,
@@ -21,6 +27,7 @@ export function renderLevel(
   levelData.platforms.forEach((platform) => {
     renderPlatform(ctx, platform);
   });
+  updateAndRenderDebris(ctx);
 
   // Render hazards
   levelData.hazards.forEach((hazard) => {
@@ -32,6 +39,11 @@ export function renderLevel(
     renderPushableObject(ctx, obj);
   });
 
+  // Render doors and gates
+  levelData.doors?.forEach((door) => {
+    renderDoor(ctx, door);
+  });
+
   // Render switches
   levelData.switches.forEach((sw) => {
     renderSwitch(ctx, sw);
@@ -45,10 +57,17 @@ export function renderLevel(
   // Render exit zone (subtle glow)
   renderExitZone(ctx, levelData.exitZone);
 
-  // Render ropes
+  // Render signal-driven lamps
+  levelData.lights?.forEach((light) => {
+    renderLight(ctx, light);
+  });
+
+  // Render ropes (disabled ropes are pulled up out of sight)
   levelData.ropes.forEach((rope) => {
-    const isPlayerAttached = gameState.player.isOnRope && gameState.player.attachedRopeId === rope.id;
-    renderRope(ctx, rope, isPlayerAttached);
+    if (rope.isEnabled === false) return;
+    const { player } = gameState;
+    const isHeldAtEnd = player.attachedRopeId === rope.id && (player.ropeGrip?.distance ?? 0) > rope.length - 10;
+    renderRope(ctx, rope, isHeldAtEnd);
   });
 }
 
@@ -116,22 +135,112 @@ function renderPlatform(ctx: CanvasRenderingContext2D, platform: Platform): void
       break;
 
     case 'crumbling':
-      // Crumbling platform with cracks
-      ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-
-      // Add crack lines
-      ctx.strokeStyle = COLORS.background;
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(platform.x + platform.width * 0.3, platform.y);
-      ctx.lineTo(platform.x + platform.width * 0.4, platform.y + platform.height);
-      ctx.moveTo(platform.x + platform.width * 0.7, platform.y);
-      ctx.lineTo(platform.x + platform.width * 0.6, platform.y + platform.height);
-      ctx.stroke();
+      renderCrumblingPlatform(ctx, platform);
       break;
   }
 }
 
+// Debris particles thrown off when a crumbling platform breaks
+interface DebrisParticle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  life: number;
+}
+
+const debrisParticles: DebrisParticle[] = [];
+const lastCrumblePhase = new Map<string, string>();
+
+function renderCrumblingPlatform(ctx: CanvasRenderingContext2D, platform: Platform): void {
+  const crumble = platform.crumble;
+  const phase = crumble?.phase ?? 'intact';
+
+  // Detect the moment it breaks - burst of debris
+  if (phase === 'falling' && lastCrumblePhase.get(platform.id) !== 'falling') {
+    spawnDebris(platform);
+  }
+  lastCrumblePhase.set(platform.id, phase);
+
+  if (phase === 'falling' && crumble) {
+    // Broken halves drop away and fade out
+    const fade = Math.max(0, 1 - crumble.timer / 800);
+    if (fade <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = fade;
+    const halfWidth = platform.width * 0.5;
+    for (const side of [-1, 1]) {
+      // Each half hinges outward from the break in the middle
+      ctx.save();
+      ctx.translate(platform.x + halfWidth, platform.y + crumble.fallOffset);
+      ctx.rotate(side * crumble.fallOffset * 0.004);
+      ctx.fillRect(side < 0 ? -halfWidth : 0, 0, halfWidth, platform.height);
+      ctx.restore();
+    }
+    ctx.restore();
+    return;
+  }
+
+  // Shaking gets more violent as it nears breaking
+  const shake = phase === 'shaking' && crumble ? Math.sin(crumble.timer * 0.09) * (1 + crumble.timer * 0.004) : 0;
+
+  ctx.save();
+  ctx.translate(shake, Math.abs(shake) * 0.3);
+
+  // Crumbling platform with cracks
+  ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
+
+  // Add crack lines
+  ctx.strokeStyle = COLORS.background;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(platform.x + platform.width * 0.3, platform.y);
+  ctx.lineTo(platform.x + platform.width * 0.4, platform.y + platform.height);
+  ctx.moveTo(platform.x + platform.width * 0.7, platform.y);
+  ctx.lineTo(platform.x + platform.width * 0.6, platform.y + platform.height);
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+function spawnDebris(platform: Platform): void {
+  const count = Math.ceil(platform.width / 8);
+  for (let i = 0; i < count; i++) {
+    debrisParticles.push({
+      x: platform.x + Math.random() * platform.width,
+      y: platform.y + Math.random() * platform.height,
+      vx: (Math.random() - 0.5) * 2.5,
+      vy: -Math.random() * 2,
+      size: 1.5 + Math.random() * 3,
+      life: 1,
+    });
+  }
+}
+
+function updateAndRenderDebris(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = COLORS.platform;
+
+  for (let i = debrisParticles.length - 1; i >= 0; i--) {
+    const p = debrisParticles[i];
+
+    p.x += p.vx;
+    p.y += p.vy;
+    p.vy += 0.35;
+    p.life -= 0.015;
+
+    if (p.life <= 0) {
+      debrisParticles.splice(i, 1);
+      continue;
+    }
+
+    ctx.globalAlpha = Math.min(1, p.life * 2);
+    ctx.fillRect(p.x, p.y, p.size, p.size);
+  }
+
+  ctx.globalAlpha = 1;
+}
+
 function renderHazard(ctx: CanvasRenderingContext2D, hazard: Hazard): void {
   if (!hazard.isActive) {
     ctx.globalAlpha = 0.3;
@@ -184,11 +293,14 @@ function renderHazard(ctx: CanvasRenderingContext2D, hazard: Hazard): void {
       break;
 
     case 'saw':
+      // Rail or pendulum arm behind the blade
+      renderSawMount(ctx, hazard);
+
       // Rotating saw blade
       const sawRadius = hazard.width / 2;
-      const sawX = hazard.x + sawRadius;
-      const sawY = hazard.y + sawRadius;
-      const rotation = ((hazard.animationPhase || 0) + performance.now() * 0.005) % (Math.PI * 2);
+      const sawX = hazard.x + (hazard.offset?.x ?? 0) + sawRadius;
+      const sawY = hazard.y + (hazard.offset?.y ?? 0) + sawRadius;
+      const rotation = hazard.rotation ?? hazard.animationPhase ?? 0;
 
       ctx.save();
       ctx.translate(sawX, sawY);
@@ -269,34 +381,95 @@ function renderHazard(ctx: CanvasRenderingContext2D, hazard: Hazard): void {
       break;
 
     case 'crusher':
-      // Industrial crusher
-      const crushPhase = ((hazard.animationPhase || 0) + performance.now() * 0.001) % 2;
-      const crushOffset = crushPhase < 1 ? crushPhase * 150 : (2 - crushPhase) * 150;
+      renderCrusher(ctx, hazard);
+      break;
+  }
 
-      ctx.fillRect(hazard.x, hazard.y + crushOffset, hazard.width, hazard.height - crushOffset);
+  ctx.globalAlpha = 1;
+}
 
-      // Crusher spikes
-      const crusherSpikes = 3;
-      const crusherSpikeWidth = hazard.width / crusherSpikes;
-      for (let i = 0; i < crusherSpikes; i++) {
-        ctx.beginPath();
-        ctx.moveTo(hazard.x + i * crusherSpikeWidth, hazard.y + hazard.height);
-        ctx.lineTo(hazard.x + i * crusherSpikeWidth + crusherSpikeWidth / 2, hazard.y + hazard.height + 20);
-        ctx.lineTo(hazard.x + (i + 1) * crusherSpikeWidth, hazard.y + hazard.height);
-        ctx.closePath();
-        ctx.fill();
+// Industrial crusher - piston rod from the ceiling down to the moving head
+function renderCrusher(ctx: CanvasRenderingContext2D, hazard: Hazard): void {
+  const head = getHazardRect(hazard);
+
+  ctx.fillRect(head.x + head.width / 2 - 7, 0, 14, head.y);
+  ctx.fillRect(head.x, head.y, head.width, head.height);
+
+  // Crusher spikes
+  const crusherSpikes = 3;
+  const crusherSpikeWidth = head.width / crusherSpikes;
+  const bottom = head.y + head.height;
+  for (let i = 0; i < crusherSpikes; i++) {
+    ctx.beginPath();
+    ctx.moveTo(head.x + i * crusherSpikeWidth, bottom);
+    ctx.lineTo(head.x + i * crusherSpikeWidth + crusherSpikeWidth / 2, bottom + 20);
+    ctx.lineTo(head.x + (i + 1) * crusherSpikeWidth, bottom);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
+
+// Pendulum arm or rail track a moving saw hangs from
+function renderSawMount(ctx: CanvasRenderingContext2D, hazard: Hazard): void {
+  const motion = hazard.motion;
+  if (!motion || motion.type === 'crusher') return;
+
+  const radius = hazard.width / 2;
+  ctx.save();
+  ctx.strokeStyle = COLORS.platform;
+  ctx.lineCap = 'round';
+
+  if (motion.type === 'pendulum') {
+    const rect = getHazardRect(hazard);
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.moveTo(motion.pivot.x, motion.pivot.y);
+    ctx.lineTo(rect.x + radius, rect.y + radius);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(motion.pivot.x, motion.pivot.y, 6, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    // Track runs through the blade centers
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    motion.path.forEach((point, i) => {
+      if (i === 0) {
+        ctx.moveTo(point.x + radius, point.y + radius);
+      } else {
+        ctx.lineTo(point.x + radius, point.y + radius);
       }
-      break;
+    });
+    ctx.stroke();
+
+    for (const end of [motion.path[0], motion.path[motion.path.length - 1]]) {
+      if (!end) continue;
+      ctx.beginPath();
+      ctx.arc(end.x + radius, end.y + radius, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
   }
 
-  ctx.globalAlpha = 1;
+  ctx.restore();
 }
 
 function renderPushableObject(ctx: CanvasRenderingContext2D, obj: PushableObject): void {
+  ctx.save();
   ctx.fillStyle = COLORS.platform;
 
+  // Boxes tumble whole; boulders and logs keep their outline and turn their markings as they roll
+  const centerX = obj.x + obj.width / 2;
+  const centerY = obj.y + obj.height / 2;
+  const rotate = () => {
+    ctx.translate(centerX, centerY);
+    ctx.rotate(obj.rotation ?? 0);
+    ctx.translate(-centerX, -centerY);
+  };
+
   switch (obj.type) {
     case 'box':
+      rotate();
       // Wooden crate
       ctx.fillRect(obj.x, obj.y, obj.width, obj.height);
 
@@ -328,6 +501,7 @@ function renderPushableObject(ctx: CanvasRenderingContext2D, obj: PushableObject
       ctx.fill();
 
       // Add texture
+      rotate();
       ctx.fillStyle = COLORS.accent;
       ctx.beginPath();
       ctx.arc(obj.x + obj.width * 0.3, obj.y + obj.height * 0.3, 5, 0, Math.PI * 2);
@@ -352,6 +526,7 @@ function renderPushableObject(ctx: CanvasRenderingContext2D, obj: PushableObject
       ctx.fill();
 
       // Add rings
+      rotate();
       ctx.strokeStyle = COLORS.accent;
       ctx.lineWidth = 1;
       ctx.beginPath();
@@ -360,8 +535,90 @@ function renderPushableObject(ctx: CanvasRenderingContext2D, obj: PushableObject
       ctx.beginPath();
       ctx.arc(obj.x + obj.width / 2, obj.y + obj.height / 2, obj.width * 0.15, 0, Math.PI * 2);
       ctx.stroke();
+      // A crack across the rings shows the log turning
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(centerX + obj.width * 0.3, centerY);
+      ctx.stroke();
       break;
   }
+
+  ctx.restore();
+}
+
+function renderDoor(ctx: CanvasRenderingContext2D, door: Door): void {
+  const isSide = door.style === 'slide-side';
+  const direction = door.slideDirection ?? 1;
+  const offsetX = isSide ? door.width * door.openAmount * direction : 0;
+  const offsetY = isSide ? 0 : -door.height * door.openAmount;
+
+  // The panel slides out of sight into its housing
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(door.x, door.y, door.width, door.height);
+  ctx.clip();
+  ctx.translate(door.x + offsetX, door.y + offsetY);
+
+  if (door.style === 'portcullis') {
+    renderPortcullis(ctx, door.width, door.height);
+  } else {
+    ctx.fillStyle = COLORS.platform;
+    ctx.fillRect(0, 0, door.width, door.height);
+
+    // Riveted seams along the panel
+    ctx.fillStyle = COLORS.highlight;
+    const seamCount = Math.max(1, Math.floor((isSide ? door.width : door.height) / 60));
+    for (let i = 1; i <= seamCount; i++) {
+      const t = i / (seamCount + 1);
+      if (isSide) {
+        ctx.fillRect(door.width * t - 1, 4, 2, door.height - 8);
+      } else {
+        ctx.fillRect(4, door.height * t - 1, door.width - 8, 2);
+      }
+    }
+  }
+  ctx.restore();
+
+  // Housing the panel retracts into
+  ctx.fillStyle = COLORS.platform;
+  if (isSide) {
+    const housingX = direction === 1 ? door.x + door.width : door.x - 12;
+    ctx.fillRect(housingX, door.y - 6, 12, door.height + 6);
+  } else {
+    ctx.fillRect(door.x - 8, door.y - 16, door.width + 16, 16);
+    // Chains up into the dark
+    ctx.strokeStyle = COLORS.platform;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(door.x + 4, door.y - 16);
+    ctx.lineTo(door.x + 4, door.y - 60);
+    ctx.moveTo(door.x + door.width - 4, door.y - 16);
+    ctx.lineTo(door.x + door.width - 4, door.y - 60);
+    ctx.stroke();
+  }
+}
+
+// Iron bars with cross braces and spiked tips
+function renderPortcullis(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+  const barCount = Math.max(2, Math.round(width / 10));
+  const spacing = width / barCount;
+  const spikeLength = 10;
+
+  ctx.fillStyle = COLORS.platform;
+  for (let i = 0; i < barCount; i++) {
+    const barX = i * spacing + spacing / 2;
+    ctx.fillRect(barX - 2, 0, 4, height - spikeLength);
+    ctx.beginPath();
+    ctx.moveTo(barX - 3, height - spikeLength);
+    ctx.lineTo(barX, height);
+    ctx.lineTo(barX + 3, height - spikeLength);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  for (let y = 30; y < height - spikeLength; y += 60) {
+    ctx.fillRect(0, y, width, 4);
+  }
 }
 
 function renderSwitch(ctx: CanvasRenderingContext2D, sw: Switch): void {
@@ -399,6 +656,43 @@ function renderSwitch(ctx: CanvasRenderingContext2D, sw: Switch): void {
       ctx.fillRect(sw.x, sw.y + plateOffset, sw.width, sw.height);
       break;
   }
+
+  if (getSwitchMode(sw) === 'timed' && sw.isActivated) {
+    renderSwitchCountdown(ctx, sw);
+  }
+}
+
+// Draining ring above a timed switch, with a flash on every tick
+function renderSwitchCountdown(ctx: CanvasRenderingContext2D, sw: Switch): void {
+  const duration = getSwitchDuration(sw);
+  const remaining = sw.isPressed ? duration : sw.timeRemaining ?? 0;
+  const fraction = Math.max(0, Math.min(1, remaining / duration));
+  const centerX = sw.x + sw.width / 2;
+  const centerY = sw.y - 30;
+  const radius = 10;
+
+  // Fresh tick = bright, fading until the next one. Faster urgency in the last second.
+  const sinceTick = (SWITCH_TICK_INTERVAL - (remaining % SWITCH_TICK_INTERVAL)) / SWITCH_TICK_INTERVAL;
+  const flash = sw.isPressed ? 0 : Math.max(0, 1 - sinceTick * 2);
+  const urgent = !sw.isPressed && remaining < 1000;
+
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = urgent ? `rgba(255, 170, 120, ${0.6 + flash * 0.4})` : `rgba(255, 220, 150, ${0.5 + flash * 0.4})`;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, -Math.PI / 2, -Math.PI / 2 + fraction * Math.PI * 2);
+  ctx.stroke();
+
+  if (flash > 0) {
+    ctx.fillStyle = `rgba(255, 230, 180, ${flash * 0.6})`;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, 3 + flash * 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
 }
 
 function renderCheckpoint(ctx: CanvasRenderingContext2D, cp: Checkpoint): void {
@@ -457,34 +751,62 @@ function renderExitZone(
   ctx.fill();
 }
 
-function renderRope(
-  ctx: CanvasRenderingContext2D,
-  rope: { anchorX: number; anchorY: number; length: number; angle: number },
-  isPlayerAttached: boolean = false
-): void {
+function renderLight(ctx: CanvasRenderingContext2D, light: Light): void {
+  // Hanging lamp: cord from the top of the screen, shade, bulb
   ctx.strokeStyle = COLORS.platform;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(light.x, 0);
+  ctx.lineTo(light.x, light.y - 12);
+  ctx.stroke();
+
+  ctx.fillStyle = COLORS.platform;
+  ctx.beginPath();
+  ctx.moveTo(light.x - 14, light.y);
+  ctx.lineTo(light.x - 5, light.y - 12);
+  ctx.lineTo(light.x + 5, light.y - 12);
+  ctx.lineTo(light.x + 14, light.y);
+  ctx.closePath();
+  ctx.fill();
+
+  if (!light.isOn) return;
+
+  // Cone of light with a slight flicker
+  const flicker = 0.9 + Math.sin(performance.now() * 0.02 + light.x) * 0.05;
+  const gradient = ctx.createRadialGradient(light.x, light.y, 0, light.x, light.y, light.radius);
+  gradient.addColorStop(0, `rgba(255, 230, 180, ${0.35 * flicker})`);
+  gradient.addColorStop(0.4, `rgba(220, 200, 160, ${0.12 * flicker})`);
+  gradient.addColorStop(1, 'rgba(200, 200, 200, 0)');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(light.x, light.y, light.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Bulb
+  ctx.fillStyle = 'rgba(255, 240, 200, 0.9)';
+  ctx.beginPath();
+  ctx.arc(light.x, light.y + 2, 4, 0, Math.PI * 2);
+  ctx.fill();
+}
 
-  const endX = rope.anchorX + Math.sin(rope.angle) * rope.length;
-  const endY = rope.anchorY + Math.cos(rope.angle) * rope.length;
+function renderRope(ctx: CanvasRenderingContext2D, rope: Rope, isHeldAtEnd: boolean = false): void {
+  const points = getRopePoints(rope);
+  const end = points[points.length - 1];
 
-  // Draw rope segments for more realistic look
+  ctx.strokeStyle = COLORS.platform;
   ctx.lineWidth = 3;
   ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
 
-  // Draw rope as multiple segments with slight sway
+  // Smooth curve through the chain's links
   ctx.beginPath();
-  ctx.moveTo(rope.anchorX, rope.anchorY);
-
-  // Draw rope with gentle curve based on angle
-  const segments = 8;
-  for (let i = 1; i <= segments; i++) {
-    const t = i / segments;
-    const segX = rope.anchorX + Math.sin(rope.angle) * rope.length * t;
-    const segY = rope.anchorY + Math.cos(rope.angle) * rope.length * t;
-    // Add slight sway perpendicular to rope direction
-    const sway = Math.sin(t * Math.PI) * 3 * Math.cos(rope.angle);
-    ctx.lineTo(segX + sway, segY);
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    ctx.quadraticCurveTo(points[i].x, points[i].y, midX, midY);
   }
+  ctx.lineTo(end.x, end.y);
   ctx.stroke();
 
   // Anchor point - metal bracket
@@ -499,11 +821,11 @@ function renderRope(
   ctx.arc(rope.anchorX, rope.anchorY, 4, 0, Math.PI * 2);
   ctx.fill();
 
-  // End knot (only show if player not attached)
-  if (!isPlayerAttached) {
+  // End knot (hidden in the player's hands or under a tied load)
+  if (!isHeldAtEnd && !rope.loadId) {
     ctx.fillStyle = COLORS.platform;
     ctx.beginPath();
-    ctx.arc(endX, endY, 6, 0, Math.PI * 2);
+    ctx.arc(end.x, end.y, 6, 0, Math.PI * 2);
     ctx.fill();
   }
 }
@@ -2,6 +2,7 @@
 // Simple, iconic shadow figure with glowing eyes
 
 import { Player } from '../../../types/game';
+import { getClimbProgress } from '../../../game/physics';
 
 let animTime = 0;
 let walkCycle = 0;
@@ -294,7 +295,7 @@ export function renderPlayer(ctx: CanvasRenderingContext2D, player: Player): voi
   if (isDead) {
     renderRagdoll(ctx);
   } else {
-    renderCharacter(ctx, animationState, velocity || { x: 0, y: 0 });
+    renderCharacter(ctx, animationState, velocity || { x: 0, y: 0 }, getClimbProgress(player));
   }
 
   ctx.restore();
@@ -340,7 +341,12 @@ function updateAndRenderDust(ctx: CanvasRenderingContext2D): void {
   }
 }
 
-function renderCharacter(ctx: CanvasRenderingContext2D, state: string, velocity: { x: number; y: number }): void {
+function renderCharacter(
+  ctx: CanvasRenderingContext2D,
+  state: string,
+  velocity: { x: number; y: number },
+  climbProgress: number = 0
+): void {
   // All coordinates relative to feet at (0, 0)
   // Y goes up (negative), X goes right (positive when facing right)
 
@@ -350,7 +356,7 @@ function renderCharacter(ctx: CanvasRenderingContext2D, state: string, velocity:
   ctx.lineJoin = 'round';
 
   // Get pose based on state
-  const pose = getPose(state, velocity);
+  const pose = getPose(state, velocity, climbProgress);
 
   // Draw back leg
   drawLeg(ctx, pose.backLeg, true);
@@ -426,7 +432,7 @@ interface CharacterPose {
   headBob: number;
 }
 
-function getPose(state: string, velocity: { x: number; y: number }): CharacterPose {
+function getPose(state: string, velocity: { x: number; y: number }, climbProgress: number = 0): CharacterPose {
   const t = walkCycle;
 
   // Default standing pose
@@ -544,6 +550,17 @@ function getPose(state: string, velocity: { x: number; y: number }): CharacterPo
       break;
     }
 
+    case 'pulling': {
+      // Leaning back from the object, arms straight out gripping it, shuffling backwards
+      const shuffle = Math.sin(animTime * 8);
+      pose.frontLeg = { hipX: -1, hipY: -4, kneeX: 2, kneeY: 5, footX: 3 + shuffle * 1.5, footY: Math.max(0, shuffle) };
+      pose.backLeg = { hipX: -2, hipY: -4, kneeX: -5, kneeY: 5, footX: -7 - shuffle * 1.5, footY: Math.max(0, -shuffle) };
+      pose.frontArm = { shoulderX: 0, shoulderY: -16, elbowX: 5, elbowY: -14, handX: 10, handY: -12 };
+      pose.backArm = { shoulderX: -1, shoulderY: -16, elbowX: 4, elbowY: -13, handX: 9, handY: -11 };
+      pose.headBob = 0.5;
+      break;
+    }
+
     case 'swinging': {
       // Hanging from rope, swinging
       const swingPhase = Math.sin(animTime * 3) * 0.3;
@@ -587,6 +604,55 @@ function getPose(state: string, velocity: { x: number; y: number }): CharacterPo
       pose.headBob = -1; // Head tilted back looking up
       break;
     }
+
+    case 'hanging': {
+      // Hands over the ledge, body hanging straight; shimmying swaps which hand leads
+      const reach = velocity.x !== 0 ? Math.sin(animTime * 10) * 2 : 0;
+      const sway = Math.sin(animTime * 1.5) * 0.3;
+
+      pose.frontLeg = { hipX: 1, hipY: -4, kneeX: 2 + sway, kneeY: 6, footX: 2 + sway, footY: 3 };
+      pose.backLeg = { hipX: -1, hipY: -4, kneeX: 0 + sway, kneeY: 6, footX: 0 + sway, footY: 3 };
+      pose.frontArm = { shoulderX: 2, shoulderY: -17, elbowX: 6, elbowY: -28, handX: 8 + reach, handY: -38 };
+      pose.backArm = { shoulderX: -2, shoulderY: -17, elbowX: 3, elbowY: -28, handX: 5 - reach, handY: -38 };
+      pose.headBob = -1;
+      break;
+    }
+
+    case 'climbing': {
+      // Pull up with hands pressing down on the ledge, then bring a knee up and step on
+      const pull = Math.min(1, climbProgress * 2);
+      const step = Math.max(0, climbProgress * 2 - 1);
+      const handY = -38 + pull * 36; // Hands stay on the ledge as the body rises past it
+      const knee = Math.sin(Math.min(1, climbProgress * 1.5) * Math.PI);
+
+      pose.frontLeg = {
+        hipX: 2,
+        hipY: -4,
+        kneeX: 4 + knee * 4,
+        kneeY: 6 - knee * 8,
+        footX: 3 + step * 2,
+        footY: 2 - knee * 4,
+      };
+      pose.backLeg = { hipX: -1, hipY: -4, kneeX: -1, kneeY: 6, footX: -1, footY: 2 - step * 2 };
+      pose.frontArm = {
+        shoulderX: 2,
+        shoulderY: -17,
+        elbowX: 7 - step * 4,
+        elbowY: -20 + pull * 6,
+        handX: 8 - step * 6,
+        handY,
+      };
+      pose.backArm = {
+        shoulderX: -2,
+        shoulderY: -17,
+        elbowX: 4 - step * 4,
+        elbowY: -20 + pull * 6,
+        handX: 5 - step * 5,
+        handY,
+      };
+      pose.headBob = -1 + step;
+      break;
+    }
   }
 
   return pose;
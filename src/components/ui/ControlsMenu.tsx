@@ -0,0 +1,248 @@
+// Controls settings screen - rebind every action to keys or gamepad buttons, and set up touch controls
+
+import React, { useState, useEffect } from 'react';
+import { BindableAction, BindingDevice, InputBindings, TouchSettings } from '../../types/game';
+import {
+  ACTION_LABELS,
+  BINDABLE_ACTIONS,
+  DEFAULT_BINDINGS,
+  assignBinding,
+  findBindingConflict,
+  formatBinding,
+  removeBinding,
+} from '../../game/bindings';
+import { findPressedGamepadButton, getConnectedGamepads } from '../../utils/gamepad';
+import './GameUI.css';
+
+interface ControlsMenuProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  touchSettings?: TouchSettings;
+  onTouchSettingsChange?: (settings: TouchSettings) => void;
+  onBack: () => void;
+}
+
+// The binding slot waiting for a key or button press
+interface PendingBinding {
+  device: BindingDevice;
+  action: BindableAction;
+  slot: number;
+}
+
+// A pressed key or button that already belongs to another action
+interface BindingConflict extends PendingBinding {
+  code: string | number;
+  other: BindableAction;
+}
+
+const TOUCH_VISIBILITY_LABELS: Record<TouchSettings['visibility'], string> = {
+  auto: 'On touch devices',
+  always: 'Always',
+  never: 'Never',
+};
+
+export const ControlsMenu: React.FC<ControlsMenuProps> = ({
+  bindings,
+  onChange,
+  touchSettings,
+  onTouchSettingsChange,
+  onBack,
+}) => {
+  const [listening, setListening] = useState<PendingBinding | null>(null);
+  const [conflict, setConflict] = useState<BindingConflict | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    const capture = (code: string | number) => {
+      const other = findBindingConflict(bindings, listening.device, listening.action, code);
+      if (other) {
+        setConflict({ ...listening, code, other });
+      } else {
+        onChange(assignBinding(bindings, listening.device, listening.action, listening.slot, code));
+      }
+      setListening(null);
+    };
+
+    if (listening.device === 'keys') {
+      // Capture phase so the key never reaches the game (Escape would otherwise close the menu)
+      const handleKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        capture(e.code);
+      };
+      window.addEventListener('keydown', handleKeyDown, true);
+      return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }
+
+    // Wait for a fresh press so a button already held down isn't taken
+    let requestId = 0;
+    let wasHeld = true;
+    const poll = () => {
+      const button = getConnectedGamepads().map(findPressedGamepadButton).find((index) => index !== null) ?? null;
+      if (button !== null && !wasHeld) {
+        capture(button);
+        return;
+      }
+      wasHeld = button !== null;
+      requestId = requestAnimationFrame(poll);
+    };
+    requestId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(requestId);
+  }, [listening, bindings, onChange]);
+
+  const startListening = (device: BindingDevice, action: BindableAction, slot: number) => {
+    setConflict(null);
+    setListening({ device, action, slot });
+  };
+
+  const isListening = (device: BindingDevice, action: BindableAction, slot: number) =>
+    listening?.device === device && listening.action === action && listening.slot === slot;
+
+  const renderBindings = (device: BindingDevice, action: BindableAction) => {
+    const codes: (string | number)[] = bindings[device][action];
+    // Every action keeps at least one key so the game stays playable from the keyboard
+    const canRemove = device === 'buttons' || codes.length > 1;
+
+    return (
+      <div className="binding-list">
+        {codes.map((code, slot) => (
+          <span key={`${code}`} className="binding-chip">
+            <button className="binding-button" onClick={() => startListening(device, action, slot)}>
+              {isListening(device, action, slot) ? '...' : formatBinding(device, code)}
+            </button>
+            {canRemove && (
+              <button
+                className="binding-remove"
+                aria-label="Remove binding"
+                onClick={() => onChange(removeBinding(bindings, device, action, slot))}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        <button className="binding-button binding-add" onClick={() => startListening(device, action, codes.length)}>
+          {isListening(device, action, codes.length) ? '...' : '+'}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="ui-overlay pause-screen">
+      <div className="pause-content controls-content">
+        <h2>CONTROLS</h2>
+
+        <div className="bindings-table">
+          <div className="bindings-row bindings-header">
+            <span />
+            <span>Keyboard</span>
+            <span>Gamepad</span>
+          </div>
+          {BINDABLE_ACTIONS.map((action) => (
+            <div key={action} className="bindings-row">
+              <span className="bindings-action">{ACTION_LABELS[action]}</span>
+              {renderBindings('keys', action)}
+              {renderBindings('buttons', action)}
+            </div>
+          ))}
+        </div>
+
+        <p className="pause-hint">
+          {listening
+            ? `Press a ${listening.device === 'keys' ? 'key' : 'gamepad button'} for ${ACTION_LABELS[listening.action]}`
+            : 'Click a binding to change it'}
+        </p>
+
+        {conflict && (
+          <div className="binding-conflict">
+            <p>
+              {formatBinding(conflict.device, conflict.code)} is already used for {ACTION_LABELS[conflict.other]}.
+            </p>
+            <button
+              className="menu-button"
+              onClick={() => {
+                onChange(assignBinding(bindings, conflict.device, conflict.action, conflict.slot, conflict.code));
+                setConflict(null);
+              }}
+            >
+              Reassign
+            </button>
+            <button className="menu-button" onClick={() => setConflict(null)}>
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {touchSettings && onTouchSettingsChange && (
+          <div className="touch-settings">
+            <span className="bindings-action">Touch Controls</span>
+            <button
+              className="binding-button"
+              onClick={() => {
+                const order: TouchSettings['visibility'][] = ['auto', 'always', 'never'];
+                const visibility = order[(order.indexOf(touchSettings.visibility) + 1) % order.length];
+                onTouchSettingsChange({ ...touchSettings, visibility });
+              }}
+            >
+              {TOUCH_VISIBILITY_LABELS[touchSettings.visibility]}
+            </button>
+
+            <span className="bindings-action">Movement</span>
+            <button
+              className="binding-button"
+              onClick={() =>
+                onTouchSettingsChange({
+                  ...touchSettings,
+                  layout: touchSettings.layout === 'joystick' ? 'pads' : 'joystick',
+                })
+              }
+            >
+              {touchSettings.layout === 'joystick' ? 'Joystick' : 'Left/Right Pads'}
+            </button>
+
+            <span className="bindings-action">Movement Side</span>
+            <button
+              className="binding-button"
+              onClick={() => onTouchSettingsChange({ ...touchSettings, swapSides: !touchSettings.swapSides })}
+            >
+              {touchSettings.swapSides ? 'Right' : 'Left'}
+            </button>
+
+            <span className="bindings-action">Opacity</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.1}
+              value={touchSettings.opacity}
+              onChange={(e) => onTouchSettingsChange({ ...touchSettings, opacity: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        <div className="pause-buttons">
+          {listening && (
+            <button className="menu-button" onClick={() => setListening(null)}>
+              Cancel
+            </button>
+          )}
+          <button
+            className="menu-button"
+            onClick={() => {
+              setListening(null);
+              setConflict(null);
+              onChange(DEFAULT_BINDINGS);
+            }}
+          >
+            Reset Defaults
+          </button>
+          <button className="menu-button" onClick={onBack}>
+            Back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,43 +1,161 @@
-// Game UI components (start screen, pause menu, HUD, death screen)
+// Game UI components (start screen, pause menu, HUD with chapter title cards, death screen, credits)
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ChapterMeta, InputBindings, SaveFile, SaveSlot } from '../../types/game';
+import { DEFAULT_BINDINGS, formatBindings } from '../../game/bindings';
+import { TITLE_CARD_DURATION } from '../../game/constants';
 import './GameUI.css';
 
+interface ChapterInfo {
+  id: string;
+  name: string;
+}
+
 interface GameUIProps {
-  type: 'start' | 'pause' | 'death' | 'hud';
+  type: 'start' | 'pause' | 'death' | 'hud' | 'credits';
   onStart?: () => void;
+  onContinue?: () => void;
+  onSelectChapter?: (levelIndex: number) => void;
+  onSelectSlot?: (slotIndex: number) => void;
+  onLoadLevel?: (file: File) => void;
+  onOpenEditor?: () => void;
+  saveFile?: SaveFile;
+  chapters?: ChapterInfo[];
+  onOpenControls?: () => void;
+  bindings?: InputBindings;
   onResume?: () => void;
   onRestart?: () => void;
+  onSaveReplay?: () => void;
+  onLoadReplay?: (file: File) => void;
   deathCount: number;
   currentLevel?: number;
   levelName?: string;
+  titleCard?: ChapterMeta | null;
+  saveSlot?: SaveSlot | null;
+  onFinish?: () => void;
 }
 
 export const GameUI: React.FC<GameUIProps> = ({
   type,
   onStart,
+  onContinue,
+  onSelectChapter,
+  onSelectSlot,
+  onLoadLevel,
+  onOpenEditor,
+  saveFile,
+  chapters,
+  onOpenControls,
+  bindings = DEFAULT_BINDINGS,
   onResume,
   onRestart,
+  onSaveReplay,
+  onLoadReplay,
   deathCount,
   currentLevel,
   levelName,
+  titleCard,
+  saveSlot,
+  onFinish,
 }) => {
   if (type === 'start') {
-    return <StartScreen onStart={onStart!} />;
+    return (
+      <StartScreen
+        onStart={onStart!}
+        onContinue={onContinue}
+        onSelectChapter={onSelectChapter}
+        onSelectSlot={onSelectSlot}
+        onLoadLevel={onLoadLevel}
+        onOpenEditor={onOpenEditor}
+        saveFile={saveFile}
+        chapters={chapters ?? []}
+        onOpenControls={onOpenControls}
+        bindings={bindings}
+      />
+    );
   }
 
   if (type === 'pause') {
-    return <PauseMenu onResume={onResume!} onRestart={onRestart!} deathCount={deathCount} />;
+    return (
+      <PauseMenu
+        onResume={onResume!}
+        onRestart={onRestart!}
+        onSaveReplay={onSaveReplay}
+        onLoadReplay={onLoadReplay}
+        onOpenControls={onOpenControls}
+        bindings={bindings}
+        deathCount={deathCount}
+      />
+    );
   }
 
   if (type === 'death') {
-    return <DeathScreen onRestart={onRestart!} deathCount={deathCount} />;
+    return <DeathScreen onRestart={onRestart!} bindings={bindings} deathCount={deathCount} />;
   }
 
-  return <HUD deathCount={deathCount} currentLevel={currentLevel!} levelName={levelName!} />;
+  if (type === 'credits') {
+    return <CreditsScreen onFinish={onFinish!} saveSlot={saveSlot ?? null} deathCount={deathCount} />;
+  }
+
+  return <HUD deathCount={deathCount} currentLevel={currentLevel!} levelName={levelName!} titleCard={titleCard ?? null} />;
 };
 
-const StartScreen: React.FC<{ onStart: () => void }> = ({ onStart }) => {
+const StartScreen: React.FC<{
+  onStart: () => void;
+  onContinue?: () => void;
+  onSelectChapter?: (levelIndex: number) => void;
+  onSelectSlot?: (slotIndex: number) => void;
+  onLoadLevel?: (file: File) => void;
+  onOpenEditor?: () => void;
+  saveFile?: SaveFile;
+  chapters: ChapterInfo[];
+  onOpenControls?: () => void;
+  bindings: InputBindings;
+}> = ({
+  onStart,
+  onContinue,
+  onSelectChapter,
+  onSelectSlot,
+  onLoadLevel,
+  onOpenEditor,
+  saveFile,
+  chapters,
+  onOpenControls,
+  bindings,
+}) => {
+  const [showChapters, setShowChapters] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const slot = saveFile?.slots[saveFile.activeSlot] ?? null;
+  const canContinue = !!slot?.currentLevelId && !!onContinue;
+
+  if (showChapters && slot && onSelectChapter) {
+    return (
+      <div className="ui-overlay start-screen">
+        <div className="start-content">
+          <h2 className="chapter-select-title">CHAPTERS</h2>
+          <div className="chapter-list">
+            {chapters.map((chapter, index) => {
+              const isUnlocked = slot.unlockedLevelIds.includes(chapter.id);
+              return (
+                <button
+                  key={chapter.id}
+                  className="menu-button chapter-button"
+                  disabled={!isUnlocked}
+                  onClick={() => onSelectChapter(index)}
+                >
+                  {index + 1}. {isUnlocked ? chapter.name : '???'}
+                </button>
+              );
+            })}
+          </div>
+          <button className="menu-button" onClick={() => setShowChapters(false)}>
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="ui-overlay start-screen">
       <div className="start-content">
@@ -49,28 +167,92 @@ const StartScreen: React.FC<{ onStart: () => void }> = ({ onStart }) => {
           <p>searching for answers in the dark.</p>
         </div>
 
-        <button className="start-button" onClick={onStart}>
-          BEGIN
+        {saveFile && onSelectSlot && (
+          <div className="save-slots">
+            {saveFile.slots.map((s, index) => (
+              <button
+                key={index}
+                className={`save-slot ${index === saveFile.activeSlot ? 'active' : ''}`}
+                onClick={() => onSelectSlot(index)}
+              >
+                <span className="save-slot-name">Slot {index + 1}</span>
+                <span className="save-slot-detail">
+                  {s ? `${countChapters(s, chapters)} ch · ${s.totalDeaths} deaths · ${formatPlayTime(s.playTime)}` : 'Empty'}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {canContinue && (
+          <button className="start-button" onClick={onContinue}>
+            CONTINUE
+          </button>
+        )}
+        <button className={canContinue ? 'menu-button' : 'start-button'} onClick={onStart}>
+          {canContinue ? 'New Game' : 'BEGIN'}
         </button>
+        {slot && onSelectChapter && (
+          <button className="menu-button" onClick={() => setShowChapters(true)}>
+            Chapter Select
+          </button>
+        )}
+        {onLoadLevel && (
+          <>
+            <button className="menu-button" onClick={() => fileInputRef.current?.click()}>
+              Play Level File
+            </button>
+            <input
+              ref={fileInputRef}
+              className="file-input"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onLoadLevel(file);
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+        {onOpenEditor && (
+          <button className="menu-button" onClick={onOpenEditor}>
+            Level Editor
+          </button>
+        )}
+        {onOpenControls && (
+          <button className="menu-button" onClick={onOpenControls}>
+            Controls
+          </button>
+        )}
 
         <div className="controls-hint">
           <h3>Controls</h3>
           <div className="control-row">
-            <span className="key">A/D or Arrow Keys</span>
+            <span className="key">
+              {formatBindings(bindings, 'keys', 'left')} · {formatBindings(bindings, 'keys', 'right')}
+            </span>
             <span className="action">Move</span>
           </div>
           <div className="control-row">
-            <span className="key">W/Space</span>
+            <span className="key">{formatBindings(bindings, 'keys', 'jump')}</span>
             <span className="action">Jump</span>
           </div>
           <div className="control-row">
-            <span className="key">E/Shift</span>
+            <span className="key">{formatBindings(bindings, 'keys', 'action')}</span>
             <span className="action">Grab/Interact</span>
           </div>
           <div className="control-row">
-            <span className="key">Esc</span>
+            <span className="key">{formatBindings(bindings, 'keys', 'pause')}</span>
             <span className="action">Pause</span>
           </div>
+          <div className="control-row">
+            <span className="key">Gamepad</span>
+            <span className="action">
+              Stick or {formatBindings(bindings, 'buttons', 'left')}/{formatBindings(bindings, 'buttons', 'right')} move,{' '}
+              {formatBindings(bindings, 'buttons', 'jump')} jump, {formatBindings(bindings, 'buttons', 'action')} grab
+            </span>
+          </div>
         </div>
 
         <p className="credit">Inspired by Playdead's LIMBO</p>
@@ -79,11 +261,29 @@ const StartScreen: React.FC<{ onStart: () => void }> = ({ onStart }) => {
   );
 };
 
+// Secret areas unlock alongside chapters but aren't counted as them
+function countChapters(slot: SaveSlot, chapters: ChapterInfo[]): number {
+  return chapters.filter((chapter) => slot.unlockedLevelIds.includes(chapter.id)).length;
+}
+
+function formatPlayTime(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
 const PauseMenu: React.FC<{
   onResume: () => void;
   onRestart: () => void;
+  onSaveReplay?: () => void;
+  onLoadReplay?: (file: File) => void;
+  onOpenControls?: () => void;
+  bindings: InputBindings;
   deathCount: number;
-}> = ({ onResume, onRestart, deathCount }) => {
+}> = ({ onResume, onRestart, onSaveReplay, onLoadReplay, onOpenControls, bindings, deathCount }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   return (
     <div className="ui-overlay pause-screen">
       <div className="pause-content">
@@ -100,9 +300,37 @@ const PauseMenu: React.FC<{
           <button className="menu-button" onClick={onRestart}>
             Restart Level
           </button>
+          {onSaveReplay && (
+            <button className="menu-button" onClick={onSaveReplay}>
+              Save Replay
+            </button>
+          )}
+          {onLoadReplay && (
+            <>
+              <button className="menu-button" onClick={() => fileInputRef.current?.click()}>
+                Load Replay
+              </button>
+              <input
+                ref={fileInputRef}
+                className="file-input"
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoadReplay(file);
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
+          {onOpenControls && (
+            <button className="menu-button" onClick={onOpenControls}>
+              Controls
+            </button>
+          )}
         </div>
 
-        <p className="pause-hint">Press ESC to resume</p>
+        <p className="pause-hint">Press {formatBindings(bindings, 'keys', 'pause')} to resume</p>
       </div>
     </div>
   );
@@ -110,8 +338,9 @@ const PauseMenu: React.FC<{
 
 const DeathScreen: React.FC<{
   onRestart: () => void;
+  bindings: InputBindings;
   deathCount: number;
-}> = ({ onRestart, deathCount }) => {
+}> = ({ onRestart, bindings, deathCount }) => {
   const [showUI, setShowUI] = useState(false);
 
   // Delay showing the death UI so ragdoll animation can be seen
@@ -133,7 +362,7 @@ const DeathScreen: React.FC<{
           Try Again
         </button>
 
-        <p className="death-hint">Press R to restart</p>
+        <p className="death-hint">Press {formatBindings(bindings, 'keys', 'restart')} to restart</p>
       </div>
     </div>
   );
@@ -143,12 +372,20 @@ const HUD: React.FC<{
   deathCount: number;
   currentLevel: number;
   levelName: string;
-}> = ({ deathCount, currentLevel, levelName }) => {
+  titleCard: ChapterMeta | null;
+}> = ({ deathCount, currentLevel, levelName, titleCard }) => {
   return (
     <div className="hud">
+      {titleCard && (
+        <div className="title-card" style={{ animationDuration: `${TITLE_CARD_DURATION}ms` }}>
+          {currentLevel > 0 && <p className="title-card-chapter">Chapter {currentLevel}</p>}
+          <h2>{titleCard.title}</h2>
+          {titleCard.subtitle && <p className="title-card-subtitle">{titleCard.subtitle}</p>}
+        </div>
+      )}
       <div className="hud-top-left">
         <span className="level-indicator">
-          Chapter {currentLevel}: {levelName}
+          {currentLevel > 0 ? `Chapter ${currentLevel}: ${levelName}` : levelName}
         </span>
       </div>
       <div className="hud-top-right">
@@ -157,3 +394,43 @@ const HUD: React.FC<{
     </div>
   );
 };
+
+// Who and what went into the game, rolled after the last chapter
+const CREDITS: { role: string; names: string[] }[] = [
+  { role: 'Inspired by', names: ["Playdead's LIMBO"] },
+  { role: 'Built with', names: ['React', 'TypeScript', 'Canvas API', 'Web Audio API'] },
+];
+
+const CreditsScreen: React.FC<{
+  onFinish: () => void;
+  saveSlot: SaveSlot | null;
+  deathCount: number;
+}> = ({ onFinish, saveSlot, deathCount }) => {
+  const [hasRolled, setHasRolled] = useState(false);
+
+  return (
+    <div className="ui-overlay credits-screen">
+      <div className="credits-roll" onAnimationEnd={() => setHasRolled(true)}>
+        <p className="credits-epilogue">The boy steps out of the dark, and does not look back.</p>
+        <h1 className="game-title">SHADOW</h1>
+        {CREDITS.map(({ role, names }) => (
+          <div key={role} className="credits-section">
+            <h3>{role}</h3>
+            {names.map((name) => (
+              <p key={name}>{name}</p>
+            ))}
+          </div>
+        ))}
+        <div className="credits-section">
+          <h3>Your Journey</h3>
+          <p>Deaths: {saveSlot?.totalDeaths ?? deathCount}</p>
+          {saveSlot && <p>Time in the dark: {formatPlayTime(saveSlot.playTime)}</p>}
+        </div>
+        <p className="credits-thanks">Thank you for playing</p>
+      </div>
+      <button className={`menu-button credits-button ${hasRolled ? 'visible' : ''}`} onClick={onFinish}>
+        {hasRolled ? 'Return to Menu' : 'Skip'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,495 @@
+// Level editor screen - place, drag, resize and wire entities over the live level view,
+// inspect their fields, undo/redo, play-test from any spot and export the level file
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { EditorSelection, EditorSession, LevelData, LevelField, Vector2D } from '../../types/game';
+import { GameCanvas } from '../game/GameCanvas';
+import { createInitialGameState } from '../../game/simulation';
+import {
+  PLACEABLE_KINDS,
+  PlaceableKind,
+  addEntity,
+  commitEdit,
+  deleteEntity,
+  findEntityAt,
+  getAllSelections,
+  getEntity,
+  getEntityBounds,
+  isOnResizeHandle,
+  moveEntity,
+  redoEdit,
+  resizeEntity,
+  snapToGrid,
+  toggleSwitchTarget,
+  undoEdit,
+  updateEntity,
+} from '../../game/editor';
+import { CANVAS_WIDTH, EDITOR_GRID_SIZES, PLAYER_HEIGHT, PLAYER_WIDTH } from '../../game/constants';
+import { getEntityFields, serializeLevel, validateLevel } from '../../levels/loader';
+import { analyzeLevel } from '../../levels/analyzer';
+import { getUnknownExitTargets, readLevelFile } from '../../levels';
+import { downloadTextFile } from '../../utils/file';
+import './GameUI.css';
+
+interface LevelEditorProps {
+  session: EditorSession;
+  onChange: (session: EditorSession) => void;
+  levels: LevelData[]; // Built-in levels that can be opened for editing
+  onPlay: (level: LevelData) => void;
+  onExit: () => void;
+}
+
+type Tool = 'select' | PlaceableKind;
+
+// What the pointer is doing between press and release
+interface Drag {
+  mode: 'move' | 'resize' | 'pan';
+  target: EditorSelection | null;
+  startLevel: LevelData;
+  offset: Vector2D; // Pointer to entity top-left, for moves
+  startClient: Vector2D;
+  startCamera: Vector2D;
+  hasMoved: boolean;
+}
+
+const TOOL_LABELS: Record<PlaceableKind, string> = {
+  platforms: 'Platform',
+  hazards: 'Hazard',
+  pushableObjects: 'Pushable',
+  switches: 'Switch',
+  ropes: 'Rope',
+  checkpoints: 'Checkpoint',
+  exits: 'Exit',
+};
+
+const PAN_STEP = 40;
+
+const LEVEL_FIELDS: LevelField[] = [
+  { name: 'id', type: 'string', isOptional: false },
+  { name: 'name', type: 'string', isOptional: false },
+  { name: 'width', type: 'number', isOptional: false },
+  { name: 'height', type: 'number', isOptional: false },
+];
+const RECT_FIELDS: LevelField[] = ['x', 'y', 'width', 'height'].map((name) => ({
+  name,
+  type: 'number',
+  isOptional: false,
+}));
+// The main exit has everything an extra exit has but an id
+const EXIT_ZONE_FIELDS = getEntityFields('exits').filter((field) => field.name !== 'id');
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ session, onChange, levels, onPlay, onExit }) => {
+  const [tool, setTool] = useState<Tool>('select');
+  const [isWiring, setIsWiring] = useState(false);
+  const dragRef = useRef<Drag | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { history, selection, camera, grid } = session;
+  const level = history.present;
+
+  const problems = useMemo(() => [...validateLevel(level), ...getUnknownExitTargets(level)], [level]);
+  // Playability only means anything once the level itself is valid
+  const issues = useMemo(() => (problems.length > 0 ? [] : analyzeLevel(level).issues), [level, problems]);
+  const gameState = useMemo(
+    () => ({ ...createInitialGameState(level, -1), camera: { ...camera, zoom: 1, shake: 0 } }),
+    [level, camera]
+  );
+  const selectedSwitch = selection?.kind === 'switches' ? level.switches.find((s) => s.id === selection.id) : undefined;
+
+  const update = useCallback((changes: Partial<EditorSession>) => onChange({ ...session, ...changes }), [session, onChange]);
+
+  // A finished edit - one undo step, keeping the selection if it still exists
+  const commit = useCallback(
+    (next: LevelData, nextSelection: EditorSelection | null = selection) => {
+      const isStillThere = nextSelection && getEntityBounds(next, nextSelection);
+      update({ history: commitEdit(history, next), selection: isStillThere ? nextSelection : null });
+    },
+    [history, selection, update]
+  );
+
+  const openLevel = useCallback(
+    (next: LevelData) => {
+      update({ history: commitEdit(history, next), selection: null, playFrom: null });
+    },
+    [history, update]
+  );
+
+  const openFile = useCallback(
+    async (file: File) => {
+      try {
+        openLevel(await readLevelFile(file));
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [openLevel]
+  );
+
+  const playFromHere = useCallback(() => {
+    const from = session.playFrom;
+    onPlay(from ? { ...level, playerStart: { x: from.x - PLAYER_WIDTH / 2, y: from.y - PLAYER_HEIGHT } } : level);
+  }, [level, session.playFrom, onPlay]);
+
+  const exportLevel = useCallback(() => {
+    if (problems.length > 0) {
+      const list = problems.map((p) => `- ${p}`).join('\n');
+      if (!window.confirm(`This level has ${problems.length} problem(s):\n${list}\n\nExport anyway?`)) return;
+    }
+    downloadTextFile(`${level.id}.json`, serializeLevel(level));
+  }, [level, problems]);
+
+  const handlePointer = (event: React.PointerEvent<HTMLCanvasElement>, world: Vector2D) => {
+    const snapped = { x: snapToGrid(world.x, grid), y: snapToGrid(world.y, grid) };
+
+    if (event.type === 'pointerdown') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      const startDrag = (mode: Drag['mode'], target: EditorSelection | null, offset: Vector2D = { x: 0, y: 0 }) => {
+        dragRef.current = {
+          mode,
+          target,
+          startLevel: level,
+          offset,
+          startClient: { x: event.clientX, y: event.clientY },
+          startCamera: camera,
+          hasMoved: false,
+        };
+      };
+
+      if (tool !== 'select') {
+        const added = addEntity(level, tool, snapped);
+        commit(added.level, added.selection);
+        setTool('select');
+        return;
+      }
+
+      const hit = findEntityAt(level, world);
+      if (isWiring && selectedSwitch) {
+        if (hit && hit.kind !== 'exitZone' && hit.kind !== 'playerStart') {
+          commit(toggleSwitchTarget(level, selectedSwitch.id, hit.id));
+        } else {
+          setIsWiring(false);
+        }
+        return;
+      }
+
+      if (selection && isOnResizeHandle(level, selection, world)) {
+        startDrag('resize', selection);
+      } else if (hit) {
+        const bounds = getEntityBounds(level, hit)!;
+        update({ selection: hit });
+        startDrag('move', hit, { x: world.x - bounds.x, y: world.y - bounds.y });
+      } else {
+        setIsWiring(false);
+        startDrag('pan', null);
+      }
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) return;
+    const clientDelta = { x: event.clientX - drag.startClient.x, y: event.clientY - drag.startClient.y };
+    drag.hasMoved ||= Math.hypot(clientDelta.x, clientDelta.y) > 3;
+
+    if (event.type === 'pointermove' && drag.hasMoved) {
+      if (drag.mode === 'pan') {
+        const scale = CANVAS_WIDTH / event.currentTarget.getBoundingClientRect().width;
+        update({ camera: { x: drag.startCamera.x - clientDelta.x * scale, y: drag.startCamera.y - clientDelta.y * scale } });
+      } else if (drag.target) {
+        const next =
+          drag.mode === 'move'
+            ? moveEntity(drag.startLevel, drag.target, {
+                x: snapToGrid(world.x - drag.offset.x, grid),
+                y: snapToGrid(world.y - drag.offset.y, grid),
+              })
+            : resizeEntity(drag.startLevel, drag.target, snapped);
+        // Shown live; recorded as one undo step on release
+        update({ history: { ...history, present: next } });
+      }
+    } else if (event.type === 'pointerup') {
+      dragRef.current = null;
+      if (drag.mode === 'pan') {
+        // A click on empty ground marks where play-testing starts
+        if (!drag.hasMoved) update({ selection: null, playFrom: snapped });
+      } else if (level !== drag.startLevel) {
+        update({ history: commitEdit({ ...history, present: drag.startLevel }, level) });
+      }
+    }
+  };
+
+  // Shortcuts - ignored while typing in the inspector
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const isModified = e.ctrlKey || e.metaKey;
+
+      if (isModified && e.code === 'KeyZ') {
+        e.preventDefault();
+        update({ history: e.shiftKey ? redoEdit(history) : undoEdit(history) });
+      } else if (isModified && e.code === 'KeyY') {
+        e.preventDefault();
+        update({ history: redoEdit(history) });
+      } else if ((e.code === 'Delete' || e.code === 'Backspace') && selection) {
+        commit(deleteEntity(level, selection), null);
+      } else if (e.code === 'Escape') {
+        setTool('select');
+        setIsWiring(false);
+        update({ selection: null });
+      } else if (e.code === 'KeyP') {
+        playFromHere();
+      } else if (e.code.startsWith('Arrow')) {
+        const dx = e.code === 'ArrowLeft' ? -PAN_STEP : e.code === 'ArrowRight' ? PAN_STEP : 0;
+        const dy = e.code === 'ArrowUp' ? -PAN_STEP : e.code === 'ArrowDown' ? PAN_STEP : 0;
+        update({ camera: { x: camera.x + dx, y: camera.y + dy } });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, level, selection, camera, update, commit, playFromHere]);
+
+  // Dropped level files open here instead of starting a game
+  useEffect(() => {
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (file) openFile(file);
+    };
+    window.addEventListener('drop', handleDrop);
+    return () => window.removeEventListener('drop', handleDrop);
+  }, [openFile]);
+
+  const selectedEntity = selection ? getEntity(level, selection) : undefined;
+  const inspected: { title: string; fields: LevelField[]; values: Record<string, unknown> } = !selection
+    ? { title: 'Level', fields: LEVEL_FIELDS, values: level as unknown as Record<string, unknown> }
+    : selection.kind === 'exitZone'
+      ? { title: 'Exit zone', fields: EXIT_ZONE_FIELDS, values: { ...level.exitZone } }
+      : selection.kind === 'playerStart'
+        ? { title: 'Player start', fields: RECT_FIELDS.slice(0, 2), values: { ...level.playerStart } }
+        : {
+            title: TOOL_LABELS[selection.kind],
+            fields: getEntityFields(selection.kind),
+            values: selectedEntity as unknown as Record<string, unknown>,
+          };
+
+  const changeField = (name: string, value: unknown) => {
+    if (!selection) {
+      commit({ ...level, [name]: value });
+    } else {
+      const next = updateEntity(level, selection, { [name]: value });
+      commit(next, name === 'id' && typeof value === 'string' ? { ...selection, id: value } : selection);
+    }
+  };
+
+  return (
+    <div className="level-editor">
+      <div className="editor-toolbar">
+        <button className="replay-button" onClick={onExit}>
+          Exit
+        </button>
+        <select
+          className="editor-select"
+          value=""
+          onChange={(e) => {
+            const chosen = levels.find((l) => l.id === e.target.value);
+            if (chosen) openLevel(chosen);
+          }}
+        >
+          <option value="">Open chapter…</option>
+          {levels.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+        <button className="replay-button" onClick={() => fileInputRef.current?.click()}>
+          Open File
+        </button>
+        <input
+          ref={fileInputRef}
+          className="file-input"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        <span className="editor-divider" />
+        {PLACEABLE_KINDS.map((kind) => (
+          <button
+            key={kind}
+            className={`replay-button ${tool === kind ? 'active' : ''}`}
+            onClick={() => setTool(tool === kind ? 'select' : kind)}
+          >
+            + {TOOL_LABELS[kind]}
+          </button>
+        ))}
+
+        <span className="editor-divider" />
+        <select className="editor-select" value={grid} onChange={(e) => update({ grid: Number(e.target.value) })}>
+          {EDITOR_GRID_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size > 0 ? `Grid ${size}` : 'No grid'}
+            </option>
+          ))}
+        </select>
+        <button className="replay-button" onClick={() => update({ history: undoEdit(history) })} disabled={!history.past.length}>
+          Undo
+        </button>
+        <button className="replay-button" onClick={() => update({ history: redoEdit(history) })} disabled={!history.future.length}>
+          Redo
+        </button>
+
+        <span className="editor-divider" />
+        <button className="replay-button" onClick={playFromHere} title="Click empty ground to choose the spot (P)">
+          {session.playFrom ? 'Play From Here' : 'Play'}
+        </button>
+        <button className="replay-button" onClick={exportLevel}>
+          Export
+        </button>
+      </div>
+
+      <GameCanvas
+        gameState={gameState}
+        levelData={level}
+        editorOverlay={{ selection, camera, grid, playFrom: session.playFrom, isWiring }}
+        onPointer={handlePointer}
+      />
+
+      <div className="editor-inspector">
+        <h3>{inspected.title}</h3>
+        {inspected.fields.map((field) => (
+          <InspectorField
+            // Keyed by value too, so edits from elsewhere (dragging, undo) reset the draft
+            key={`${selection?.id ?? 'level'}-${field.name}-${String(inspected.values[field.name])}`}
+            field={field}
+            value={inspected.values[field.name]}
+            onChange={(value) => changeField(field.name, value)}
+          />
+        ))}
+
+        {selectedSwitch && (
+          <div className="editor-wiring">
+            <h4>Targets</h4>
+            {selectedSwitch.targetIds.map((targetId) => (
+              <div key={targetId} className="editor-target">
+                <span>{targetId}</span>
+                <button
+                  className="binding-remove"
+                  onClick={() => commit(toggleSwitchTarget(level, selectedSwitch.id, targetId))}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button className={`replay-button ${isWiring ? 'active' : ''}`} onClick={() => setIsWiring(!isWiring)}>
+              {isWiring ? 'Done Wiring' : 'Wire Targets'}
+            </button>
+          </div>
+        )}
+
+        {selection && selection.kind !== 'exitZone' && selection.kind !== 'playerStart' && (
+          <button className="replay-button" onClick={() => commit(deleteEntity(level, selection), null)}>
+            Delete
+          </button>
+        )}
+
+        <div className={`editor-problems ${problems.length + issues.length ? 'has-problems' : ''}`}>
+          <h4>{problems.length + issues.length ? `${problems.length + issues.length} problem(s)` : 'No problems'}</h4>
+          {problems.map((problem) => (
+            <p key={problem}>{problem}</p>
+          ))}
+          {issues.map((issue) => {
+            const target = getAllSelections(level).find((s) => s.id === issue.entityId);
+            return (
+              <p
+                key={issue.message}
+                className={`editor-issue ${issue.severity} ${target ? 'is-linked' : ''}`}
+                onClick={() => target && update({ selection: target })}
+              >
+                {issue.message}
+              </p>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// One inspector row. Text and numbers apply on Enter or leaving the box, so typing is one undo step.
+const InspectorField: React.FC<{
+  field: LevelField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ field, value, onChange }) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  const apply = () => {
+    if (draft === (value === undefined ? '' : String(value))) return;
+    if (draft === '') {
+      if (field.isOptional) onChange(undefined);
+      else setDraft(String(value));
+      return;
+    }
+    if (field.type === 'number') {
+      const number = Number(draft);
+      if (Number.isFinite(number)) onChange(number);
+      else setDraft(String(value ?? ''));
+    } else {
+      onChange(draft);
+    }
+  };
+
+  let input: React.ReactNode;
+  if (field.type === 'boolean') {
+    input = (
+      <select
+        className="editor-select"
+        value={value === undefined ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+      >
+        {field.isOptional && <option value="">default</option>}
+        <option value="true">yes</option>
+        <option value="false">no</option>
+      </select>
+    );
+  } else if (field.type === 'choice') {
+    input = (
+      <select
+        className="editor-select"
+        value={value === undefined ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+      >
+        {field.isOptional && <option value="">default</option>}
+        {field.choices!.map((choice) => (
+          <option key={choice} value={choice}>
+            {choice}
+          </option>
+        ))}
+      </select>
+    );
+  } else {
+    input = (
+      <input
+        className="editor-input"
+        type="text"
+        inputMode={field.type === 'number' ? 'decimal' : 'text'}
+        value={draft}
+        placeholder={field.isOptional ? 'default' : ''}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') apply();
+        }}
+      />
+    );
+  }
+
+  return (
+    <label className="editor-field">
+      <span>{field.name}</span>
+      {input}
+    </label>
+  );
+};
@@ -0,0 +1,65 @@
+// Replay playback controls drawn over the game canvas
+
+import React from 'react';
+import { FIXED_TIMESTEP } from '../../game/constants';
+import './GameUI.css';
+
+interface ReplayControlsProps {
+  levelId: string;
+  frame: number;
+  frameCount: number;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onStepFrame: () => void;
+  onSeek: (frame: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (frame: number): string => {
+  const seconds = (frame * FIXED_TIMESTEP) / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  levelId,
+  frame,
+  frameCount,
+  isPlaying,
+  onTogglePlay,
+  onStepFrame,
+  onSeek,
+  onExit,
+}) => {
+  return (
+    <div className="replay-controls">
+      <div className="replay-header">
+        <span className="replay-label">REPLAY</span>
+        <span className="replay-level">{levelId}</span>
+      </div>
+
+      <input
+        className="replay-scrubber"
+        type="range"
+        min={0}
+        max={frameCount}
+        value={frame}
+        onChange={(e) => onSeek(Number(e.target.value))}
+      />
+
+      <div className="replay-buttons">
+        <button className="replay-button" onClick={onTogglePlay}>
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button className="replay-button" onClick={onStepFrame} disabled={isPlaying || frame >= frameCount}>
+          Step
+        </button>
+        <span className="replay-frame">
+          {frame} / {frameCount} ({formatTime(frame)})
+        </span>
+        <button className="replay-button" onClick={onExit}>
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+};
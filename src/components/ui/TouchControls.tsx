@@ -0,0 +1,144 @@
+// On-screen touch controls - joystick or pads for movement plus jump/grab buttons
+// Pointer events keep every finger separate, so moving, jumping and grabbing work at once.
+
+import React, { useState, useEffect, useRef } from 'react';
+import { InputState, TouchSettings } from '../../types/game';
+import { clampJoystick, readTouchInput, TouchControl } from '../../utils/touch';
+import { EMPTY_INPUT, isSameInput } from '../../utils/gamepad';
+import './GameUI.css';
+
+interface TouchControlsProps {
+  settings: TouchSettings;
+  onInputChange: (input: InputState) => void;
+  onPause: () => void;
+}
+
+// A finger on screen; control is null once it slides off every control
+interface ActiveTouch {
+  control: TouchControl | null;
+  originX: number;
+  originY: number;
+  dx: number;
+  dy: number;
+}
+
+function getControlAt(x: number, y: number): TouchControl | null {
+  const element = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-control]');
+  return (element?.dataset.control as TouchControl | undefined) ?? null;
+}
+
+export const TouchControls: React.FC<TouchControlsProps> = ({ settings, onInputChange, onPause }) => {
+  const touchesRef = useRef(new Map<number, ActiveTouch>());
+  const [input, setInput] = useState<InputState>(EMPTY_INPUT);
+  const inputRef = useRef<InputState>(EMPTY_INPUT);
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const onInputChangeRef = useRef(onInputChange);
+
+  useEffect(() => {
+    onInputChangeRef.current = onInputChange;
+  }, [onInputChange]);
+
+  // Nothing stays held once the controls are hidden (pause, death, level change)
+  useEffect(() => {
+    return () => onInputChangeRef.current(EMPTY_INPUT);
+  }, []);
+
+  const publish = () => {
+    const touches = [...touchesRef.current.values()].filter(
+      (touch): touch is ActiveTouch & { control: TouchControl } => touch.control !== null
+    );
+    const next = readTouchInput(touches);
+    const stick = touches.find((touch) => touch.control === 'joystick');
+    setKnob(stick ? clampJoystick(stick.dx, stick.dy) : { x: 0, y: 0 });
+    if (!isSameInput(inputRef.current, next)) {
+      inputRef.current = next;
+      setInput(next);
+      onInputChange(next);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const element = (e.target as HTMLElement).closest<HTMLElement>('[data-control]');
+    if (!element) return;
+    e.preventDefault();
+    // Keep receiving this finger's moves even after it leaves the control
+    element.setPointerCapture(e.pointerId);
+
+    const control = element.dataset.control as TouchControl;
+    const rect = element.getBoundingClientRect();
+    // The joystick measures from its center; buttons only care which one is under the finger
+    const originX = control === 'joystick' ? rect.left + rect.width / 2 : e.clientX;
+    const originY = control === 'joystick' ? rect.top + rect.height / 2 : e.clientY;
+    touchesRef.current.set(e.pointerId, {
+      control,
+      originX,
+      originY,
+      dx: e.clientX - originX,
+      dy: e.clientY - originY,
+    });
+    publish();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const touch = touchesRef.current.get(e.pointerId);
+    if (!touch) return;
+
+    const dx = e.clientX - touch.originX;
+    const dy = e.clientY - touch.originY;
+    // A joystick finger stays on the stick however far it strays; a button finger can slide
+    // from one pad or button to the next (but not onto the stick, which needs its own origin)
+    const hit = touch.control === 'joystick' ? 'joystick' : getControlAt(e.clientX, e.clientY);
+    const control = touch.control !== 'joystick' && hit === 'joystick' ? null : hit;
+    touchesRef.current.set(e.pointerId, { ...touch, control, dx, dy });
+    publish();
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent) => {
+    if (!touchesRef.current.delete(e.pointerId)) return;
+    publish();
+  };
+
+  const className = (base: string, isActive: boolean) => `${base} ${isActive ? 'active' : ''}`;
+
+  return (
+    <div
+      className={`touch-controls ${settings.swapSides ? 'swapped' : ''}`}
+      style={{ opacity: settings.opacity }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="touch-move">
+        {settings.layout === 'joystick' ? (
+          <div className={className('touch-joystick', input.left || input.right)} data-control="joystick">
+            <div className="touch-knob" style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }} />
+          </div>
+        ) : (
+          <>
+            <div className={className('touch-pad', input.left)} data-control="left">
+              ◀
+            </div>
+            <div className={className('touch-pad', input.right)} data-control="right">
+              ▶
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="touch-buttons">
+        <div className={className('touch-button', input.action)} data-control="action">
+          GRAB
+        </div>
+        <div className={className('touch-button touch-jump', input.jump)} data-control="jump">
+          JUMP
+        </div>
+      </div>
+
+      <button className="touch-pause" aria-label="Pause" onClick={onPause}>
+        ❚❚
+      </button>
+    </div>
+  );
+};
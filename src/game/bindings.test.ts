@@ -0,0 +1,103 @@
+// Binding tests - conflicts, swapping, persistence and labels
+
+import { describe, it, expect } from 'vitest';
+import {
+  BINDINGS_VERSION,
+  DEFAULT_BINDINGS,
+  assignBinding,
+  findBindingConflict,
+  formatBindings,
+  loadBindings,
+  removeBinding,
+  writeBindings,
+} from './bindings';
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const items = { ...initial };
+  return {
+    items,
+    getItem: (key: string) => items[key] ?? null,
+    setItem: (key: string, value: string) => {
+      items[key] = value;
+    },
+  };
+}
+
+describe('rebinding', () => {
+  it('detects a key that already belongs to another action', () => {
+    expect(findBindingConflict(DEFAULT_BINDINGS, 'keys', 'action', 'Space')).toBe('jump');
+    expect(findBindingConflict(DEFAULT_BINDINGS, 'keys', 'jump', 'Space')).toBeNull();
+    expect(findBindingConflict(DEFAULT_BINDINGS, 'buttons', 'jump', 9)).toBe('pause');
+    expect(findBindingConflict(DEFAULT_BINDINGS, 'keys', 'left', 'KeyQ')).toBeNull();
+  });
+
+  it('replaces a slot or appends a new one', () => {
+    // AZERTY: Q moves left instead of A
+    const azerty = assignBinding(DEFAULT_BINDINGS, 'keys', 'left', 1, 'KeyQ');
+    expect(azerty.keys.left).toEqual(['ArrowLeft', 'KeyQ']);
+
+    const extra = assignBinding(DEFAULT_BINDINGS, 'buttons', 'jump', 1, 3);
+    expect(extra.buttons.jump).toEqual([0, 3]);
+    expect(DEFAULT_BINDINGS.buttons.jump).toEqual([0]);
+  });
+
+  it('takes a reassigned key away from its old action', () => {
+    const bindings = assignBinding(DEFAULT_BINDINGS, 'keys', 'action', 0, 'Space');
+    expect(bindings.keys.action).toEqual(['Space', 'ShiftLeft', 'ShiftRight']);
+    expect(bindings.keys.jump).toEqual(['ArrowUp', 'KeyW']);
+  });
+
+  it('swaps when the old action would be left with nothing bound', () => {
+    const bindings = assignBinding(DEFAULT_BINDINGS, 'keys', 'pause', 0, 'KeyR');
+    expect(bindings.keys.pause).toEqual(['KeyR']);
+    expect(bindings.keys.restart).toEqual(['Escape']);
+  });
+
+  it('removes a single slot', () => {
+    expect(removeBinding(DEFAULT_BINDINGS, 'buttons', 'action', 0).buttons.action).toEqual([1]);
+  });
+});
+
+describe('binding storage', () => {
+  it('uses the defaults when nothing has been saved', () => {
+    expect(loadBindings(createMemoryStorage())).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('round-trips through storage', () => {
+    const storage = createMemoryStorage();
+    const bindings = assignBinding(DEFAULT_BINDINGS, 'keys', 'jump', 0, 'KeyZ');
+    writeBindings(bindings, storage);
+
+    expect(loadBindings(storage)).toEqual(bindings);
+  });
+
+  it('falls back to the defaults for missing or malformed actions', () => {
+    const storage = createMemoryStorage({
+      'shadow-bindings': JSON.stringify({
+        version: BINDINGS_VERSION,
+        keys: { left: ['KeyQ'], jump: [42] },
+        buttons: { jump: [3] },
+      }),
+    });
+    const bindings = loadBindings(storage);
+
+    expect(bindings.keys.left).toEqual(['KeyQ']);
+    expect(bindings.keys.jump).toEqual(DEFAULT_BINDINGS.keys.jump);
+    expect(bindings.buttons.jump).toEqual([3]);
+    expect(bindings.buttons.pause).toEqual(DEFAULT_BINDINGS.buttons.pause);
+  });
+
+  it('ignores unreadable or unknown-version data', () => {
+    expect(loadBindings(createMemoryStorage({ 'shadow-bindings': '{oops' }))).toEqual(DEFAULT_BINDINGS);
+    expect(loadBindings(createMemoryStorage({ 'shadow-bindings': '{"version":99}' }))).toEqual(DEFAULT_BINDINGS);
+  });
+});
+
+describe('binding labels', () => {
+  it('formats keys and gamepad buttons for display', () => {
+    expect(formatBindings(DEFAULT_BINDINGS, 'keys', 'left')).toBe('←/A');
+    expect(formatBindings(DEFAULT_BINDINGS, 'keys', 'action')).toBe('E/L-Shift/R-Shift');
+    expect(formatBindings(DEFAULT_BINDINGS, 'buttons', 'action')).toBe('X/B');
+    expect(formatBindings(removeBinding(DEFAULT_BINDINGS, 'buttons', 'jump', 0), 'buttons', 'jump')).toBe('—');
+  });
+});
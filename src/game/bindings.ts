@@ -0,0 +1,165 @@
+// Input bindings - the player's key and gamepad button choices, persisted in localStorage
+
+import { BindableAction, BindingDevice, InputBindings } from '../types/game';
+import { GAMEPAD_BINDINGS, KEY_BINDINGS } from './constants';
+
+export const BINDINGS_VERSION = 1;
+const BINDINGS_STORAGE_KEY = 'shadow-bindings';
+
+// Display order for the Controls screen
+export const BINDABLE_ACTIONS: BindableAction[] = ['left', 'right', 'jump', 'action', 'pause', 'restart'];
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  left: 'Move Left',
+  right: 'Move Right',
+  jump: 'Jump',
+  action: 'Grab/Interact',
+  pause: 'Pause',
+  restart: 'Restart',
+};
+
+export const DEFAULT_BINDINGS: InputBindings = { keys: KEY_BINDINGS, buttons: GAMEPAD_BINDINGS };
+
+type BindingStorage = Pick<Storage, 'getItem' | 'setItem'>;
+type BindingCode = string | number;
+type BindingLists = Record<BindableAction, BindingCode[]>;
+
+// Unreadable or outdated bindings fall back to the defaults action by action
+export function loadBindings(storage: BindingStorage | undefined = getStorage()): InputBindings {
+  try {
+    const text = storage?.getItem(BINDINGS_STORAGE_KEY);
+    return text ? parseBindings(JSON.parse(text)) : DEFAULT_BINDINGS;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function writeBindings(bindings: InputBindings, storage: BindingStorage | undefined = getStorage()): void {
+  try {
+    storage?.setItem(BINDINGS_STORAGE_KEY, JSON.stringify({ version: BINDINGS_VERSION, ...bindings }));
+  } catch {
+    // Storage full or disabled - the bindings last for this session only
+  }
+}
+
+export function parseBindings(raw: unknown): InputBindings {
+  if (!raw || typeof raw !== 'object') return DEFAULT_BINDINGS;
+  const file = raw as Record<string, unknown>;
+  if (file.version !== BINDINGS_VERSION) return DEFAULT_BINDINGS;
+
+  const readDevice = <T extends BindingCode>(value: unknown, type: string, defaults: Record<BindableAction, T[]>) => {
+    const lists = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const result = { ...defaults };
+    for (const action of BINDABLE_ACTIONS) {
+      const list = lists[action];
+      if (Array.isArray(list) && list.every((code) => typeof code === type)) {
+        result[action] = list as T[];
+      }
+    }
+    return result;
+  };
+
+  return {
+    keys: readDevice(file.keys, 'string', DEFAULT_BINDINGS.keys),
+    buttons: readDevice(file.buttons, 'number', DEFAULT_BINDINGS.buttons),
+  };
+}
+
+// The other action already using this key or button, if any
+export function findBindingConflict(
+  bindings: InputBindings,
+  device: BindingDevice,
+  action: BindableAction,
+  code: BindingCode
+): BindableAction | null {
+  const lists: BindingLists = bindings[device];
+  return BINDABLE_ACTIONS.find((other) => other !== action && lists[other].includes(code)) ?? null;
+}
+
+// Put `code` in the given slot of an action (slot === length appends). The code is taken away from
+// any other action; one left with nothing bound receives the code being replaced, i.e. the two swap.
+export function assignBinding(
+  bindings: InputBindings,
+  device: BindingDevice,
+  action: BindableAction,
+  slot: number,
+  code: BindingCode
+): InputBindings {
+  const lists: BindingLists = bindings[device];
+  const replaced = lists[action][slot];
+  const next = { ...lists };
+
+  for (const other of BINDABLE_ACTIONS) {
+    if (other === action || !lists[other].includes(code)) continue;
+    const remaining = lists[other].filter((c) => c !== code);
+    next[other] = remaining.length === 0 && replaced !== undefined ? [replaced] : remaining;
+  }
+
+  const own = [...lists[action]];
+  own[Math.min(slot, own.length)] = code;
+  next[action] = own.filter((c, i) => own.indexOf(c) === i);
+
+  return { ...bindings, [device]: next };
+}
+
+export function removeBinding(
+  bindings: InputBindings,
+  device: BindingDevice,
+  action: BindableAction,
+  slot: number
+): InputBindings {
+  const lists: BindingLists = bindings[device];
+  return { ...bindings, [device]: { ...lists, [action]: lists[action].filter((_, i) => i !== slot) } };
+}
+
+// Labels
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  ShiftLeft: 'L-Shift',
+  ShiftRight: 'R-Shift',
+  ControlLeft: 'L-Ctrl',
+  ControlRight: 'R-Ctrl',
+  AltLeft: 'L-Alt',
+  AltRight: 'R-Alt',
+};
+
+// Standard mapping button names (Xbox layout)
+const BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3',
+  'D-Up', 'D-Down', 'D-Left', 'D-Right', 'Home',
+];
+
+export function formatKeyCode(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+export function formatGamepadButton(index: number): string {
+  return BUTTON_LABELS[index] ?? `Button ${index}`;
+}
+
+export function formatBinding(device: BindingDevice, code: BindingCode): string {
+  return device === 'keys' ? formatKeyCode(String(code)) : formatGamepadButton(Number(code));
+}
+
+// "A/←" style summary of everything bound to an action
+export function formatBindings(bindings: InputBindings, device: BindingDevice, action: BindableAction): string {
+  const lists: BindingLists = bindings[device];
+  return lists[action].map((code) => formatBinding(device, code)).join('/') || '—';
+}
+
+function getStorage(): BindingStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}
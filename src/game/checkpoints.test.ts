@@ -0,0 +1,72 @@
+// Checkpoint snapshot tests - dying rolls the level back to the last checkpoint
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import { createTestLevel, runSimulation } from './headless';
+import { createInitialGameState, respawnPlayer, startAtCheckpoint } from './simulation';
+
+const level = createTestLevel({
+  id: 'checkpoints',
+  pushableObjects: [
+    { id: 'box', x: 200, y: 570, width: 50, height: 50, type: 'box', velocity: { x: 0, y: 0 }, isBeingPushed: false },
+  ],
+  checkpoints: [{ id: 'cp', x: 500, y: 570, width: 40, height: 50, isActivated: false }],
+});
+
+const PUSH_RIGHT = { right: true, action: true };
+const boxX = (levelData: LevelData | null) => levelData!.pushableObjects[0].x;
+
+describe('checkpoint snapshots', () => {
+  it('puts a shoved box back where it started when dying before any checkpoint', () => {
+    const result = runSimulation(level, [{ frames: 60, input: PUSH_RIGHT }]);
+    expect(boxX(result.state.levelData)).toBeGreaterThan(250);
+
+    expect(boxX(respawnPlayer(result.state).levelData)).toBe(200);
+  });
+
+  it('restores the level as it was when the checkpoint was reached', () => {
+    // Push the box past the checkpoint, then keep going
+    const atCheckpoint = runSimulation(level, [{ frames: 600, input: PUSH_RIGHT }], {
+      until: (state) => state.lastCheckpoint !== null,
+    });
+    const snapshotX = boxX(atCheckpoint.state.levelData);
+
+    const result = runSimulation(level, [{ frames: atCheckpoint.frames + 60, input: PUSH_RIGHT }]);
+    expect(boxX(result.state.levelData)).toBeGreaterThan(snapshotX);
+
+    const respawned = respawnPlayer(result.state);
+    expect(boxX(respawned.levelData)).toBe(snapshotX);
+    expect(respawned.levelData!.checkpoints[0].isActivated).toBe(true);
+    expect(respawned.player.position.x).toBe(500);
+  });
+
+  it('resumes a saved game with the level as it was at the checkpoint', () => {
+    const atCheckpoint = runSimulation(level, [{ frames: 600, input: PUSH_RIGHT }], {
+      until: (state) => state.lastCheckpoint !== null,
+    });
+    const saved = atCheckpoint.state.checkpointSnapshot!;
+
+    const resumed = startAtCheckpoint(createInitialGameState(level), 'cp', saved);
+    expect(boxX(resumed.levelData)).toBe(boxX(saved));
+    expect(boxX(startAtCheckpoint(createInitialGameState(level), 'cp').levelData)).toBe(200);
+  });
+
+  it('keeps checkpoints where the level now puts them when resuming an older save', () => {
+    const saved = { ...level, checkpoints: [{ ...level.checkpoints[0], x: 300, isActivated: true }] };
+    const moved = { ...level, checkpoints: [{ ...level.checkpoints[0], x: 700 }] };
+    const resumed = startAtCheckpoint(createInitialGameState(moved), 'cp', saved);
+
+    expect(resumed.levelData!.checkpoints[0]).toMatchObject({ x: 700, isActivated: true });
+    expect(resumed.player.position.x).toBe(700);
+  });
+
+  it('leaves entities that persist across deaths where they are', () => {
+    const persistent = {
+      ...level,
+      pushableObjects: [{ ...level.pushableObjects[0], persistAcrossDeaths: true }],
+    };
+    const result = runSimulation(persistent, [{ frames: 60, input: PUSH_RIGHT }]);
+
+    expect(boxX(respawnPlayer(result.state).levelData)).toBe(boxX(result.state.levelData));
+  });
+});
@@ -0,0 +1,54 @@
+// Checkpoint snapshots - the level rolls back to how it was at the last checkpoint on death
+// GameState is never mutated, so a snapshot is simply the LevelData of that step.
+
+import { LevelData, Persistable } from '../types/game';
+
+// Restore the snapshot, keeping the current state of entities that persist across deaths.
+// Checkpoints themselves stay as they are so reaching one is never undone.
+export function restoreCheckpointSnapshot(current: LevelData, snapshot: LevelData): LevelData {
+  return {
+    ...snapshot,
+    platforms: keepPersistent(snapshot.platforms, current.platforms),
+    hazards: keepPersistent(snapshot.hazards, current.hazards),
+    pushableObjects: keepPersistent(snapshot.pushableObjects, current.pushableObjects),
+    switches: keepPersistent(snapshot.switches, current.switches),
+    ropes: keepPersistent(snapshot.ropes, current.ropes),
+    doors: snapshot.doors && keepPersistent(snapshot.doors, current.doors ?? []),
+    lights: snapshot.lights && keepPersistent(snapshot.lights, current.lights ?? []),
+    checkpoints: current.checkpoints,
+  };
+}
+
+// Carry a saved snapshot's entity state onto the level's current data, matching by id. Entities
+// added since the save start fresh, removed ones are dropped, and checkpoints stay where the
+// level now puts them - only whether they were reached carries over.
+export function applySavedSnapshot(level: LevelData, saved: LevelData): LevelData {
+  return {
+    ...level,
+    platforms: takeSaved(level.platforms, saved.platforms),
+    hazards: takeSaved(level.hazards, saved.hazards),
+    pushableObjects: takeSaved(level.pushableObjects, saved.pushableObjects),
+    switches: takeSaved(level.switches, saved.switches),
+    ropes: takeSaved(level.ropes, saved.ropes),
+    doors: level.doors && takeSaved(level.doors, saved.doors ?? []),
+    zones: level.zones && takeSaved(level.zones, saved.zones ?? []),
+    lights: level.lights && takeSaved(level.lights, saved.lights ?? []),
+    logic: level.logic && takeSaved(level.logic, saved.logic ?? []),
+    checkpoints: level.checkpoints.map((cp) => ({
+      ...cp,
+      isActivated: saved.checkpoints.find((s) => s.id === cp.id)?.isActivated ?? cp.isActivated,
+    })),
+    pendingSignals: saved.pendingSignals,
+  };
+}
+
+function takeSaved<T extends { id: string }>(current: T[], saved: T[]): T[] {
+  return current.map((entity) => saved.find((s) => s.id === entity.id) ?? entity);
+}
+
+function keepPersistent<T extends Persistable & { id: string }>(snapshot: T[], current: T[]): T[] {
+  return snapshot.map((entity) => {
+    if (!entity.persistAcrossDeaths) return entity;
+    return current.find((c) => c.id === entity.id) ?? entity;
+  });
+}
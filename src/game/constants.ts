@@ -1,6 +1,6 @@
 // Game constants and configuration
 
-import { GameConfig } from '../types/game';
+import { BindableAction, GameConfig, PushableObject, PushableTypeConfig, RopeConfig } from '../types/game';
 
 export const GAME_CONFIG: GameConfig = {
   gravity: 0.8,
@@ -13,6 +13,10 @@ export const GAME_CONFIG: GameConfig = {
 export const CANVAS_WIDTH = 1280;
 export const CANVAS_HEIGHT = 720;
 
+// Simulation timing - physics always advances in fixed 60Hz steps
+export const FIXED_TIMESTEP = 1000 / 60;
+export const MAX_FRAME_TIME = 100; // Drop time beyond this after a stall (tab switch, debugger)
+
 export const PLAYER_WIDTH = 30;
 export const PLAYER_HEIGHT = 50;
 
@@ -20,12 +24,52 @@ export const PLAYER_HEIGHT = 50;
 export const GROUND_FRICTION = 0.8;
 export const AIR_FRICTION = 0.95;
 export const PUSH_SPEED = 2;
+export const PULL_SPEED = 1.5; // Dragging speed for a pushable of mass 1
+
+export const PUSHABLE_TYPES: Record<PushableObject['type'], PushableTypeConfig> = {
+  box: { mass: 1, friction: 0.8, rolls: false },
+  log: { mass: 1.5, friction: 0.95, rolls: true },
+  boulder: { mass: 2.5, friction: 0.97, rolls: true },
+};
+export const PUSHABLE_TIP_SPEED = 1; // Sideways slide when an object's center hangs past its support
+export const PUSHABLE_TUMBLE_SPEED = 0.06; // Radians per step while tumbling off a ledge
+export const PINCH_TOLERANCE = 6; // How deep a platform can press into the player before crushing them
+export const CAMERA_SHAKE_STRENGTH = 10; // Span of the jolt, in pixels, at full shake
+export const CAMERA_SHAKE_MIN = 0.01; // Below this the view holds still
+
+// Jump forgiveness (fixed steps)
+export const JUMP_BUFFER_FRAMES = 8; // A press this soon before landing still jumps
+export const COYOTE_FRAMES = 6; // A jump is still allowed this soon after walking off a ledge
 
-// Rope physics constants (constraint-based swing)
-export const ROPE_GRAB_DISTANCE = 60;
-export const ROPE_SWING_ACCEL = 0.15;      // How fast player can pump the swing
-export const ROPE_AIR_RESISTANCE = 0.99;   // Subtle damping per frame
-export const ROPE_MAX_SWING_SPEED = 8;     // Cap on horizontal velocity while swinging
+// Ledge grabbing
+export const LEDGE_GRAB_REACH = 10; // How far from a wall the player can still catch its top corner
+export const LEDGE_CLIMB_TIME = 450; // ms to pull up onto a ledge
+export const LEDGE_SHIMMY_SPEED = 1.5; // Hand-over-hand speed underneath thin platforms
+export const LEDGE_SHIMMY_MAX_THICKNESS = 30; // Platforms up to this thick can be hung beneath
+
+// Crumbling platform defaults (ms) when a platform has no crumblingConfig
+export const CRUMBLE_BREAK_DELAY = 600;
+export const CRUMBLE_RESPAWN_DELAY = 4000;
+
+// Door travel times (ms) for a full open or close
+export const DOOR_OPEN_TIME = 1200;
+export const PORTCULLIS_DROP_TIME = 300;
+
+// Timed switch defaults (ms)
+export const SWITCH_TIMED_DURATION = 5000;
+export const SWITCH_TICK_INTERVAL = 500; // Countdown tick cue spacing
+
+// Rope defaults (verlet chain) - each rope can override any of these
+export const ROPE_DEFAULTS: RopeConfig = {
+  segments: 12,
+  grabDistance: 60,
+  swingAccel: 0.15,
+  damping: 0.99,
+  maxSwingSpeed: 8,
+  climbSpeed: 2,
+};
+export const ROPE_MIN_GRIP = 30; // Closest to the anchor the player can hold on
+export const ROPE_ITERATIONS = 12; // Constraint passes per step
 
 // Animation timing (in frames)
 export const ANIMATION_SPEEDS = {
@@ -50,10 +94,43 @@ export const COLORS = {
   highlight: '#4a4a4a',  // Brighter highlight
 };
 
-// Key bindings
-export const KEY_BINDINGS = {
+// Default key bindings (the Controls screen can override them; see game/bindings.ts)
+export const KEY_BINDINGS: Record<BindableAction, string[]> = {
   left: ['ArrowLeft', 'KeyA'],
   right: ['ArrowRight', 'KeyD'],
   jump: ['ArrowUp', 'KeyW', 'Space'],
   action: ['KeyE', 'ShiftLeft', 'ShiftRight'],
+  pause: ['Escape'],
+  restart: ['KeyR'],
+};
+
+// Gamepad button indices (standard mapping: 0 = A/Cross, 1 = B/Circle, 2 = X/Square, 8/9 = Back/Start,
+// 14/15 = D-pad left/right)
+export const GAMEPAD_BINDINGS: Record<BindableAction, number[]> = {
+  left: [14],
+  right: [15],
+  jump: [0],
+  action: [2, 1],
+  pause: [9],
+  restart: [8],
 };
+export const GAMEPAD_DEADZONE = 0.25; // Stick travel ignored around center
+export const GAMEPAD_BUTTON_THRESHOLD = 0.5; // Analog triggers count as pressed past this
+
+// Touch controls
+export const TOUCH_JOYSTICK_RADIUS = 60; // Knob travel in CSS pixels
+export const TOUCH_JOYSTICK_DEADZONE = 0.3; // Fraction of the radius ignored around center
+export const TOUCH_JOYSTICK_JUMP = 0.7; // Pushing the stick this far up also jumps
+
+// Level editor
+export const EDITOR_GRID_SIZES = [0, 10, 20, 40]; // 0 = no snapping
+export const EDITOR_HISTORY_LIMIT = 100; // Undo steps kept
+export const EDITOR_HANDLE_SIZE = 12; // Resize handle at an entity's bottom-right corner
+export const EDITOR_MIN_SIZE = 10; // Smallest width/height (or rope length) a resize allows
+
+// Chapter transitions (ms)
+export const LEVEL_EXIT_DELAY = 500; // Walking into the light before the next level starts
+export const TITLE_CARD_DURATION = 4500; // Chapter title card on screen, fades included
+
+// Level streaming
+export const STREAM_MARGIN = CANVAS_WIDTH / 2; // How far beyond the view (and player) segments stay loaded
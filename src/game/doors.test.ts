@@ -0,0 +1,99 @@
+// Door tests - blocking, opening from switches, pushing and crushing
+
+import { describe, it, expect } from 'vitest';
+import { Door, LevelData, PushableObject } from '../types/game';
+import { createTestLevel, runSimulation, findEventFrame } from './headless';
+import { getDoorRect } from './doors';
+
+function createDoorLevel(door: Partial<Door>, pushableObjects: PushableObject[] = []): LevelData {
+  return createTestLevel({
+    id: 'doors',
+    pushableObjects,
+    switches: [
+      {
+        id: 'plate',
+        x: 90,
+        y: 610,
+        width: 60,
+        height: 10,
+        type: 'pressurePlate',
+        isActivated: false,
+        targetIds: [],
+        links: [{ targetId: 'door', action: 'open' }],
+      },
+    ],
+    doors: [
+      { id: 'door', x: 400, y: 420, width: 30, height: 200, style: 'slide-up', isOpen: false, openAmount: 0, ...door },
+    ],
+  });
+}
+
+const box = (x: number): PushableObject => ({
+  id: 'box',
+  x,
+  y: 570,
+  width: 50,
+  height: 50,
+  type: 'box',
+  velocity: { x: 0, y: 0 },
+  isBeingPushed: false,
+});
+
+describe('door geometry', () => {
+  it('retracts slide-up doors into the lintel and side doors into their housing', () => {
+    const up: Door = { id: 'd', x: 0, y: 100, width: 20, height: 200, style: 'slide-up', isOpen: true, openAmount: 0.25 };
+    expect(getDoorRect(up)).toEqual({ x: 0, y: 100, width: 20, height: 150 });
+
+    const right: Door = { ...up, style: 'slide-side', width: 100, openAmount: 0.5 };
+    expect(getDoorRect(right)).toEqual({ x: 50, y: 100, width: 50, height: 200 });
+    expect(getDoorRect({ ...right, slideDirection: -1 })).toEqual({ x: 0, y: 100, width: 50, height: 200 });
+  });
+});
+
+describe('doors in the simulation', () => {
+  it('blocks the player while closed', () => {
+    const level = createDoorLevel({}, [box(1000)]);
+    const result = runSimulation(level, [{ frames: 120, input: { right: true } }], { startPosition: { x: 200, y: 570 } });
+
+    expect(result.state.player.position.x).toBeCloseTo(370, 0);
+  });
+
+  it('opens from a switch and lets the player through', () => {
+    const level = createDoorLevel({ openTime: 500 });
+    const opened = runSimulation(level, [{ frames: 60 }]);
+    expect(opened.state.levelData!.doors![0].openAmount).toBe(1);
+
+    // Momentary plate: stepping off closes the door again before the player gets there
+    const closed = runSimulation(level, [{ frames: 40 }, { frames: 120, input: { right: true } }]);
+    expect(closed.state.player.position.x).toBeCloseTo(370, 0);
+
+    const latched = { ...level, switches: level.switches.map((s) => ({ ...s, mode: 'one-shot' as const })) };
+    const walked = runSimulation(latched, [{ frames: 40 }, { frames: 120, input: { right: true } }]);
+    expect(walked.state.player.position.x).toBeGreaterThan(430);
+  });
+
+  it('crushes a player standing under a closing slide-up door', () => {
+    const level = createDoorLevel({ isOpen: false, openAmount: 1 });
+    const result = runSimulation(level, [{ frames: 120 }], { startPosition: { x: 400, y: 570 } });
+
+    expect(findEventFrame(result, (event) => event.type === 'death' && event.hazardId === 'door')).toBeGreaterThan(0);
+  });
+
+  it('shoves the player aside when a sliding door closes on them', () => {
+    const level = createDoorLevel({ style: 'slide-side', x: 400, width: 100, isOpen: false, openAmount: 1 });
+    const result = runSimulation(level, [{ frames: 120 }], { startPosition: { x: 450, y: 570 } });
+
+    expect(result.state.player.isDead).toBe(false);
+    expect(result.state.player.position.x).toBeLessThanOrEqual(370);
+  });
+
+  it('is jammed open by a box that has nowhere to go', () => {
+    const level = createDoorLevel({ isOpen: false, openAmount: 1 }, [box(390)]);
+    const result = runSimulation(level, [{ frames: 120 }], { startPosition: { x: 700, y: 570 } });
+
+    const door = result.state.levelData!.doors![0];
+    // Stopped with its bottom edge resting on the box
+    expect(door.openAmount).toBeCloseTo(0.25, 1);
+    expect(result.state.levelData!.pushableObjects[0].x).toBe(390);
+  });
+});
@@ -0,0 +1,111 @@
+// Doors and gates - signal-driven barriers that block, push and crush
+
+import { Door, Platform, Player, PushableObject, Rectangle } from '../types/game';
+import { DOOR_OPEN_TIME, PORTCULLIS_DROP_TIME } from './constants';
+import { getPlayerRect, isPlatformSolid, rectIntersect } from '../utils/collision';
+
+// The solid part of the panel still inside the doorway
+export function getDoorRect(door: Door): Rectangle {
+  const closed = 1 - door.openAmount;
+
+  if (door.style === 'slide-side') {
+    const width = door.width * closed;
+    const x = (door.slideDirection ?? 1) === 1 ? door.x + door.width - width : door.x;
+    return { x, y: door.y, width, height: door.height };
+  }
+
+  // Slide-up doors and portcullises retract into the lintel
+  return { x: door.x, y: door.y, width: door.width, height: door.height * closed };
+}
+
+// Closed portions as solid platforms, so players and pushables collide with them
+export function getDoorPlatforms(doors: Door[] = []): Platform[] {
+  return doors
+    .filter((door) => door.openAmount < 1)
+    .map((door) => ({ id: door.id, type: 'solid', ...getDoorRect(door) }));
+}
+
+export interface DoorUpdateResult {
+  doors: Door[];
+  player: Player;
+  pushableObjects: PushableObject[];
+  crushedBy: string | null;
+}
+
+// Move doors toward their target. A closing door shoves whatever is in its way;
+// pushables that can't move jam it open, a player who can't move is crushed.
+export function updateDoors(
+  doors: Door[],
+  player: Player,
+  pushables: PushableObject[],
+  platforms: Platform[],
+  deltaTime: number
+): DoorUpdateResult {
+  const obstacles = platforms.filter((p) => p.type !== 'one-way' && isPlatformSolid(p));
+  let newPlayer = player;
+  let newPushables = pushables;
+  let crushedBy: string | null = null;
+
+  const newDoors = doors.map((door) => {
+    const target = door.isOpen ? 1 : 0;
+    if (door.openAmount === target) return door;
+
+    const isClosing = target < door.openAmount;
+    const step = deltaTime / getTravelTime(door, isClosing);
+    const openAmount = isClosing
+      ? Math.max(target, door.openAmount - step)
+      : Math.min(target, door.openAmount + step);
+    const moved = { ...door, openAmount };
+    if (!isClosing) return moved;
+
+    const doorRect = getDoorRect(moved);
+
+    // Pushables get shoved out of the closing edge's way, or jam the door
+    const shoved: PushableObject[] = [];
+    for (const pushable of newPushables) {
+      if (!rectIntersect(pushable, doorRect)) {
+        shoved.push(pushable);
+        continue;
+      }
+      const pushedRect = pushOutOfDoor(pushable, moved, doorRect);
+      if (obstacles.some((p) => rectIntersect(pushedRect, p))) return door;
+      shoved.push({ ...pushable, x: pushedRect.x, y: pushedRect.y, velocity: { ...pushable.velocity } });
+    }
+    newPushables = shoved;
+
+    // Portcullis spikes are deadly; other doors push the player aside when there's room
+    const playerRect = getPlayerRect(newPlayer);
+    if (!newPlayer.isDead && rectIntersect(playerRect, doorRect)) {
+      const pushedRect = pushOutOfDoor(playerRect, moved, doorRect);
+      const isTrapped =
+        door.style === 'portcullis' ||
+        obstacles.some((p) => rectIntersect(pushedRect, p)) ||
+        newPushables.some((p) => rectIntersect(pushedRect, p));
+
+      if (isTrapped) {
+        crushedBy = door.id;
+      } else {
+        newPlayer = { ...newPlayer, position: { x: pushedRect.x, y: pushedRect.y }, velocity: { ...newPlayer.velocity } };
+      }
+    }
+
+    return moved;
+  });
+
+  return { doors: newDoors, player: newPlayer, pushableObjects: newPushables, crushedBy };
+}
+
+function getTravelTime(door: Door, isClosing: boolean): number {
+  if (door.style === 'portcullis' && isClosing) return PORTCULLIS_DROP_TIME;
+  return door.openTime ?? DOOR_OPEN_TIME;
+}
+
+// Where a rect ends up when pushed ahead of the door's closing edge
+function pushOutOfDoor(rect: Rectangle, door: Door, doorRect: Rectangle): Rectangle {
+  if (door.style !== 'slide-side') {
+    return { ...rect, y: doorRect.y + doorRect.height };
+  }
+  // The closing edge sweeps away from the side the panel retracts into
+  const x = (door.slideDirection ?? 1) === 1 ? doorRect.x - rect.width : doorRect.x + doorRect.width;
+  return { ...rect, x };
+}
@@ -0,0 +1,146 @@
+// Level editor tests - picking, placing, dragging, deleting, wiring and undo/redo
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import {
+  addEntity,
+  commitEdit,
+  createBlankLevel,
+  createHistory,
+  deleteEntity,
+  findEntityAt,
+  isOnResizeHandle,
+  moveEntity,
+  redoEdit,
+  resizeEntity,
+  snapToGrid,
+  toggleSwitchTarget,
+  undoEdit,
+  updateEntity,
+} from './editor';
+import { validateLevel } from '../levels/loader';
+
+function createTestLevel(): LevelData {
+  return {
+    ...createBlankLevel(),
+    platforms: [
+      { id: 'ground-1', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+      {
+        id: 'lift',
+        x: 400,
+        y: 400,
+        width: 100,
+        height: 20,
+        type: 'moving',
+        path: {
+          waypoints: [
+            { x: 400, y: 400 },
+            { x: 600, y: 400 },
+          ],
+          speed: 2,
+        },
+      },
+    ],
+    hazards: [{ id: 'saw-1', x: 800, y: 560, width: 60, height: 60, type: 'saw', isActive: true }],
+    switches: [
+      { id: 'switch-1', x: 300, y: 595, width: 40, height: 25, type: 'lever', isActivated: false, targetIds: ['saw-1'] },
+    ],
+  };
+}
+
+describe('picking and placing', () => {
+  it('picks small entities over the platforms they sit on', () => {
+    const level = createTestLevel();
+    expect(findEntityAt(level, { x: 310, y: 610 })).toEqual({ kind: 'switches', id: 'switch-1' });
+    expect(findEntityAt(level, { x: 310, y: 650 })).toEqual({ kind: 'platforms', id: 'ground-1' });
+    expect(findEntityAt(level, { x: 310, y: 100 })).toBeNull();
+  });
+
+  it('places entities with fresh ids that pass validation', () => {
+    const first = addEntity(createTestLevel(), 'platforms', { x: 1000, y: 500 });
+    const second = addEntity(first.level, 'platforms', { x: 1200, y: 500 });
+
+    expect(first.selection.id).toBe('plat-1');
+    expect(second.selection.id).toBe('plat-2');
+    expect(validateLevel(second.level)).toEqual([]);
+  });
+
+  it('places extra exits into a level that had none', () => {
+    const { level, selection } = addEntity(createTestLevel(), 'exits', { x: 1000, y: 520 });
+
+    expect(selection).toEqual({ kind: 'exits', id: 'exit-1' });
+    expect(findEntityAt(level, { x: 1010, y: 530 })).toEqual(selection);
+    expect(validateLevel(level)).toEqual([]);
+  });
+
+  it('snaps to the grid, or to whole pixels with the grid off', () => {
+    expect(snapToGrid(47, 20)).toBe(40);
+    expect(snapToGrid(51, 20)).toBe(60);
+    expect(snapToGrid(47.6, 0)).toBe(48);
+  });
+});
+
+describe('moving and resizing', () => {
+  it('carries a moving platform route along with it', () => {
+    const level = moveEntity(createTestLevel(), { kind: 'platforms', id: 'lift' }, { x: 500, y: 300 });
+    const lift = level.platforms[1];
+
+    expect(lift.x).toBe(500);
+    expect(lift.path!.waypoints).toEqual([
+      { x: 500, y: 300 },
+      { x: 700, y: 300 },
+    ]);
+  });
+
+  it('resizes from the bottom-right handle, and lengthens ropes', () => {
+    const level = { ...createTestLevel(), ropes: [{ id: 'rope-1', anchorX: 1000, anchorY: 100, length: 200 }] };
+    const rope = { kind: 'ropes' as const, id: 'rope-1' };
+
+    expect(isOnResizeHandle(level, { kind: 'hazards', id: 'saw-1' }, { x: 858, y: 618 })).toBe(true);
+    expect(resizeEntity(level, { kind: 'hazards', id: 'saw-1' }, { x: 900, y: 600 }).hazards[0]).toMatchObject({
+      width: 100,
+      height: 40,
+    });
+    expect(resizeEntity(level, rope, { x: 1000, y: 400 }).ropes[0].length).toBe(300);
+  });
+});
+
+describe('deleting and wiring', () => {
+  it('drops wires to a deleted entity', () => {
+    const level = deleteEntity(createTestLevel(), { kind: 'hazards', id: 'saw-1' });
+
+    expect(level.hazards).toEqual([]);
+    expect(level.switches[0].targetIds).toEqual([]);
+  });
+
+  it('keeps wires when an entity is renamed', () => {
+    const level = updateEntity(createTestLevel(), { kind: 'hazards', id: 'saw-1' }, { id: 'big-saw' });
+    expect(level.switches[0].targetIds).toEqual(['big-saw']);
+  });
+
+  it('toggles a switch target on and off', () => {
+    const wired = toggleSwitchTarget(createTestLevel(), 'switch-1', 'lift');
+    expect(wired.switches[0].targetIds).toEqual(['saw-1', 'lift']);
+    expect(toggleSwitchTarget(wired, 'switch-1', 'saw-1').switches[0].targetIds).toEqual(['lift']);
+  });
+});
+
+describe('history', () => {
+  it('undoes and redoes edits in order, and a new edit clears redo', () => {
+    const start = createTestLevel();
+    const moved = moveEntity(start, { kind: 'exitZone', id: 'exitZone' }, { x: 1800, y: 500 });
+    const deleted = deleteEntity(moved, { kind: 'hazards', id: 'saw-1' });
+    let history = commitEdit(commitEdit(createHistory(start), moved), deleted);
+
+    history = undoEdit(history);
+    expect(history.present).toBe(moved);
+    history = undoEdit(history);
+    expect(history.present).toBe(start);
+    expect(undoEdit(history)).toBe(history);
+
+    history = redoEdit(history);
+    expect(history.present).toBe(moved);
+    history = commitEdit(history, start);
+    expect(history.future).toEqual([]);
+  });
+});
@@ -0,0 +1,391 @@
+// Level editor operations - picking, placing, moving, resizing, deleting and wiring entities,
+// with an undo history. Every edit returns a new level so history can keep the old ones.
+
+import {
+  EditorEntityKind,
+  EditorHistory,
+  EditorSelection,
+  EditorSession,
+  Hazard,
+  LevelData,
+  Platform,
+  Rectangle,
+  Rope,
+  SignalLink,
+  Vector2D,
+} from '../types/game';
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  EDITOR_GRID_SIZES,
+  EDITOR_HANDLE_SIZE,
+  EDITOR_HISTORY_LIMIT,
+  EDITOR_MIN_SIZE,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+} from './constants';
+import { pointInRect } from '../utils/collision';
+
+// Entity lists the editor can place into
+export type PlaceableKind = Exclude<EditorEntityKind, 'exitZone' | 'playerStart'>;
+type ListedEntity = NonNullable<LevelData[PlaceableKind]>[number];
+// Entities placed by their top-left corner and size (everything but ropes)
+type Placed = Exclude<ListedEntity, Rope>;
+
+export const PLACEABLE_KINDS: PlaceableKind[] = [
+  'platforms',
+  'hazards',
+  'pushableObjects',
+  'switches',
+  'ropes',
+  'checkpoints',
+  'exits',
+];
+
+// Ropes are picked and dragged by a strip this wide around the line from the anchor
+const ROPE_PICK_WIDTH = 16;
+
+// Picking order - small things drawn on top win over the platforms they sit on
+const PICK_ORDER: EditorEntityKind[] = [
+  'playerStart',
+  'switches',
+  'checkpoints',
+  'pushableObjects',
+  'hazards',
+  'ropes',
+  'exits',
+  'exitZone',
+  'platforms',
+];
+
+export function createBlankLevel(): LevelData {
+  return {
+    id: 'new-level',
+    name: 'New Level',
+    width: 2000,
+    height: 720,
+    playerStart: { x: 100, y: 570 },
+    platforms: [{ id: 'ground-1', x: 0, y: 620, width: 2000, height: 100, type: 'solid' }],
+    hazards: [],
+    pushableObjects: [],
+    switches: [],
+    ropes: [],
+    checkpoints: [],
+    exitZone: { x: 1900, y: 500, width: 100, height: 120 },
+    ambientEffects: [{ type: 'fog', intensity: 0.3 }],
+  };
+}
+
+// Open a level in the editor, looking at its start
+export function createEditorSession(level: LevelData): EditorSession {
+  return {
+    history: createHistory(level),
+    selection: null,
+    camera: { x: Math.max(CANVAS_WIDTH / 2, level.playerStart.x), y: CANVAS_HEIGHT / 2 },
+    grid: EDITOR_GRID_SIZES[2],
+    playFrom: null,
+  };
+}
+
+export function snapToGrid(value: number, grid: number): number {
+  return grid > 0 ? Math.round(value / grid) * grid : Math.round(value);
+}
+
+export function getEntity(level: LevelData, selection: EditorSelection): ListedEntity | undefined {
+  if (selection.kind === 'exitZone' || selection.kind === 'playerStart') return undefined;
+  return getList(level, selection.kind).find((entity) => entity.id === selection.id);
+}
+
+// The box an entity is picked, dragged and resized by
+export function getEntityBounds(level: LevelData, selection: EditorSelection): Rectangle | null {
+  switch (selection.kind) {
+    case 'exitZone':
+      return { ...level.exitZone };
+    case 'playerStart':
+      return { ...level.playerStart, width: PLAYER_WIDTH, height: PLAYER_HEIGHT };
+    case 'ropes': {
+      const rope = level.ropes.find((r) => r.id === selection.id);
+      return rope
+        ? { x: rope.anchorX - ROPE_PICK_WIDTH / 2, y: rope.anchorY, width: ROPE_PICK_WIDTH, height: rope.length }
+        : null;
+    }
+    default: {
+      const entity = getEntity(level, selection) as Rectangle | undefined;
+      return entity ? { x: entity.x, y: entity.y, width: entity.width, height: entity.height } : null;
+    }
+  }
+}
+
+// Every entity in picking order
+export function getAllSelections(level: LevelData): EditorSelection[] {
+  return PICK_ORDER.flatMap((kind): EditorSelection[] =>
+    kind === 'exitZone' || kind === 'playerStart'
+      ? [{ kind, id: kind }]
+      : getList(level, kind).map((entity) => ({ kind, id: entity.id }))
+  );
+}
+
+export function findEntityAt(level: LevelData, point: Vector2D): EditorSelection | null {
+  return (
+    getAllSelections(level).find((selection) => {
+      const bounds = getEntityBounds(level, selection);
+      return bounds !== null && pointInRect(point, bounds);
+    }) ?? null
+  );
+}
+
+// Whether the point is on the selection's resize handle (its bottom-right corner)
+export function isOnResizeHandle(level: LevelData, selection: EditorSelection, point: Vector2D): boolean {
+  const bounds = getEntityBounds(level, selection);
+  if (!bounds || selection.kind === 'playerStart') return false;
+  return (
+    Math.abs(point.x - (bounds.x + bounds.width)) <= EDITOR_HANDLE_SIZE &&
+    Math.abs(point.y - (bounds.y + bounds.height)) <= EDITOR_HANDLE_SIZE
+  );
+}
+
+// Put the entity's top-left at `position`. Paths and motion travel with it.
+export function moveEntity(level: LevelData, selection: EditorSelection, position: Vector2D): LevelData {
+  const bounds = getEntityBounds(level, selection);
+  if (!bounds) return level;
+  const dx = position.x - bounds.x;
+  const dy = position.y - bounds.y;
+  if (dx === 0 && dy === 0) return level;
+
+  switch (selection.kind) {
+    case 'exitZone':
+      return { ...level, exitZone: { ...level.exitZone, x: position.x, y: position.y } };
+    case 'playerStart':
+      return { ...level, playerStart: { x: position.x, y: position.y } };
+    case 'ropes':
+      return updateList<Rope>(level, selection, (rope) => ({
+        ...rope,
+        anchorX: rope.anchorX + dx,
+        anchorY: rope.anchorY + dy,
+      }));
+    case 'platforms':
+      return updateList<Platform>(level, selection, (platform) => shiftPlatform(platform, dx, dy));
+    case 'hazards':
+      return updateList<Hazard>(level, selection, (hazard) => shiftHazard(hazard, dx, dy));
+    default:
+      return updateList<Placed>(level, selection, (entity) => ({ ...entity, x: position.x, y: position.y }));
+  }
+}
+
+// Drag the entity's bottom-right corner to `corner`; ropes get longer or shorter instead
+export function resizeEntity(level: LevelData, selection: EditorSelection, corner: Vector2D): LevelData {
+  const bounds = getEntityBounds(level, selection);
+  if (!bounds || selection.kind === 'playerStart') return level;
+  const width = Math.max(EDITOR_MIN_SIZE, corner.x - bounds.x);
+  const height = Math.max(EDITOR_MIN_SIZE, corner.y - bounds.y);
+
+  switch (selection.kind) {
+    case 'exitZone':
+      return { ...level, exitZone: { ...level.exitZone, width, height } };
+    case 'ropes':
+      return updateList<Rope>(level, selection, (rope) => ({ ...rope, length: height }));
+    default:
+      return updateList<Placed>(level, selection, (entity) => ({ ...entity, width, height }));
+  }
+}
+
+// Place a new entity of the kind with its top-left at `position`
+export function addEntity(
+  level: LevelData,
+  kind: PlaceableKind,
+  position: Vector2D
+): { level: LevelData; selection: EditorSelection } {
+  const { x, y } = position;
+  let entity: ListedEntity;
+  switch (kind) {
+    case 'platforms':
+      entity = { id: createId(level, 'plat'), x, y, width: 200, height: 20, type: 'solid' };
+      break;
+    case 'hazards':
+      entity = { id: createId(level, 'spike'), x, y, width: 60, height: 20, type: 'spike', isActive: true };
+      break;
+    case 'pushableObjects':
+      entity = {
+        id: createId(level, 'box'),
+        x,
+        y,
+        width: 50,
+        height: 50,
+        type: 'box',
+        velocity: { x: 0, y: 0 },
+        isBeingPushed: false,
+      };
+      break;
+    case 'switches':
+      entity = {
+        id: createId(level, 'switch'),
+        x,
+        y,
+        width: 40,
+        height: 25,
+        type: 'lever',
+        isActivated: false,
+        targetIds: [],
+      };
+      break;
+    case 'ropes':
+      entity = { id: createId(level, 'rope'), anchorX: x, anchorY: y, length: 200 };
+      break;
+    case 'checkpoints':
+      entity = { id: createId(level, 'cp'), x, y, width: 40, height: 50, isActivated: false };
+      break;
+    case 'exits':
+      entity = { id: createId(level, 'exit'), x, y, width: 100, height: 100 };
+      break;
+  }
+
+  return {
+    level: { ...level, [kind]: [...getList(level, kind), entity] },
+    selection: { kind, id: entity.id },
+  };
+}
+
+// Remove an entity along with every wire and tie pointing at it
+export function deleteEntity(level: LevelData, selection: EditorSelection): LevelData {
+  if (selection.kind === 'exitZone' || selection.kind === 'playerStart') return level;
+  const list = getList(level, selection.kind);
+  const without = { ...level, [selection.kind]: list.filter((entity) => entity.id !== selection.id) };
+  return rewriteReferences(without, selection.id, null);
+}
+
+// Apply inspector changes. Renaming an entity carries its wires over to the new id.
+export function updateEntity(
+  level: LevelData,
+  selection: EditorSelection,
+  changes: Record<string, unknown>
+): LevelData {
+  if (selection.kind === 'exitZone') return { ...level, exitZone: { ...level.exitZone, ...changes } };
+  if (selection.kind === 'playerStart') return { ...level, playerStart: { ...level.playerStart, ...changes } };
+
+  const updated = updateList(level, selection, (entity) => removeUnset({ ...entity, ...changes }));
+  const newId = changes.id;
+  return typeof newId === 'string' && newId !== selection.id
+    ? rewriteReferences(updated, selection.id, newId)
+    : updated;
+}
+
+// Wire or unwire a switch from a target (Switch.targetIds)
+export function toggleSwitchTarget(level: LevelData, switchId: string, targetId: string): LevelData {
+  if (switchId === targetId) return level;
+  return {
+    ...level,
+    switches: level.switches.map((sw) => {
+      if (sw.id !== switchId) return sw;
+      const targetIds = sw.targetIds.includes(targetId)
+        ? sw.targetIds.filter((id) => id !== targetId)
+        : [...sw.targetIds, targetId];
+      return { ...sw, targetIds };
+    }),
+  };
+}
+
+export function createHistory(level: LevelData): EditorHistory {
+  return { past: [], present: level, future: [] };
+}
+
+// Record an edit as one undo step
+export function commitEdit(history: EditorHistory, level: LevelData): EditorHistory {
+  if (level === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-EDITOR_HISTORY_LIMIT),
+    present: level,
+    future: [],
+  };
+}
+
+export function undoEdit(history: EditorHistory): EditorHistory {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return history;
+  return { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future] };
+}
+
+export function redoEdit(history: EditorHistory): EditorHistory {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return { past: [...history.past, history.present], present: next, future };
+}
+
+// Optional lists (exits) may be missing from the level altogether
+function getList(level: LevelData, kind: EditorEntityKind): ListedEntity[] {
+  return (level[kind as PlaceableKind] ?? []) as ListedEntity[];
+}
+
+function updateList<T extends ListedEntity>(
+  level: LevelData,
+  selection: EditorSelection,
+  update: (entity: T) => T
+): LevelData {
+  const kind = selection.kind as PlaceableKind;
+  const list = getList(level, kind);
+  return { ...level, [kind]: list.map((entity) => (entity.id === selection.id ? update(entity as T) : entity)) };
+}
+
+function shiftPlatform(platform: Platform, dx: number, dy: number): Platform {
+  const shifted = { ...platform, x: platform.x + dx, y: platform.y + dy };
+  if (platform.path) {
+    shifted.path = {
+      ...platform.path,
+      waypoints: platform.path.waypoints.map((w) => ({ ...w, x: w.x + dx, y: w.y + dy })),
+    };
+  }
+  return shifted;
+}
+
+function shiftHazard(hazard: Hazard, dx: number, dy: number): Hazard {
+  const shifted = { ...hazard, x: hazard.x + dx, y: hazard.y + dy };
+  if (hazard.motion?.type === 'pendulum') {
+    shifted.motion = { ...hazard.motion, pivot: { x: hazard.motion.pivot.x + dx, y: hazard.motion.pivot.y + dy } };
+  } else if (hazard.motion?.type === 'rail') {
+    shifted.motion = { ...hazard.motion, path: hazard.motion.path.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+  }
+  return shifted;
+}
+
+// Point every wire, gate input and rope tie at `from` to `to` instead, or drop them when `to` is null
+function rewriteReferences(level: LevelData, from: string, to: string | null): LevelData {
+  const rewriteIds = (ids: string[]) =>
+    to === null ? ids.filter((id) => id !== from) : ids.map((id) => (id === from ? to : id));
+  const rewriteLinks = (links: SignalLink[]) =>
+    to === null
+      ? links.filter((link) => link.targetId !== from)
+      : links.map((link) => (link.targetId === from ? { ...link, targetId: to } : link));
+
+  return {
+    ...level,
+    switches: level.switches.map((sw) => ({
+      ...sw,
+      targetIds: rewriteIds(sw.targetIds),
+      ...(sw.links && { links: rewriteLinks(sw.links) }),
+    })),
+    checkpoints: level.checkpoints.map((cp) => (cp.links ? { ...cp, links: rewriteLinks(cp.links) } : cp)),
+    ropes: level.ropes.map((rope) =>
+      rope.loadId === from ? removeUnset({ ...rope, loadId: to ?? undefined }) : rope
+    ),
+    ...(level.zones && { zones: level.zones.map((zone) => ({ ...zone, links: rewriteLinks(zone.links) })) }),
+    ...(level.logic && {
+      logic: level.logic.map((entity) =>
+        entity.type === 'timer'
+          ? { ...entity, links: rewriteLinks(entity.links) }
+          : { ...entity, links: rewriteLinks(entity.links), inputIds: rewriteIds(entity.inputIds) }
+      ),
+    }),
+  };
+}
+
+// Cleared optional fields are dropped rather than written out as undefined
+function removeUnset<T extends object>(entity: T): T {
+  return Object.fromEntries(Object.entries(entity).filter(([, value]) => value !== undefined)) as T;
+}
+
+function createId(level: LevelData, prefix: string): string {
+  const wired = [...(level.doors ?? []), ...(level.zones ?? []), ...(level.lights ?? []), ...(level.logic ?? [])];
+  const taken = new Set([...getAllSelections(level).map((selection) => selection.id), ...wired.map((e) => e.id)]);
+  let n = 1;
+  while (taken.has(`${prefix}-${n}`)) n += 1;
+  return `${prefix}-${n}`;
+}
@@ -0,0 +1,127 @@
+// Hazard motion - crushers, pendulum saws and saws on rails
+// Motion is simulated so the drawn geometry and the hitbox always agree.
+
+import { Hazard, HazardMotion, Rectangle, Vector2D } from '../types/game';
+
+const SAW_SPIN_SPEED = 0.083; // Radians per frame
+const CRUSHER_SPIKE_LENGTH = 20;
+
+export function updateHazards(hazards: Hazard[], deltaTime: number): Hazard[] {
+  const dt = deltaTime / 16.67;
+
+  return hazards.map((hazard) => {
+    // Switched-off hazards freeze in place
+    if (!hazard.isActive || (!hazard.motion && hazard.type !== 'saw')) return hazard;
+
+    const newHazard = { ...hazard };
+
+    if (hazard.type === 'saw') {
+      newHazard.rotation = ((hazard.rotation ?? hazard.animationPhase ?? 0) + SAW_SPIN_SPEED * dt) % (Math.PI * 2);
+    }
+
+    if (hazard.motion) {
+      newHazard.motionTime = (hazard.motionTime ?? 0) + deltaTime;
+      newHazard.offset = getMotionOffset(hazard, hazard.motion, newHazard.motionTime);
+    }
+
+    return newHazard;
+  });
+}
+
+// Where the hazard is right now (its defined rect moved by the current motion)
+export function getHazardRect(hazard: Hazard): Rectangle {
+  return {
+    x: hazard.x + (hazard.offset?.x ?? 0),
+    y: hazard.y + (hazard.offset?.y ?? 0),
+    width: hazard.width,
+    height: hazard.height,
+  };
+}
+
+// The deadly area - slightly smaller than the drawn shape for fairness
+export function getHazardHitbox(hazard: Hazard): Rectangle {
+  const rect = getHazardRect(hazard);
+
+  if (hazard.type === 'crusher') {
+    // The whole head is deadly, including the spikes drawn below it
+    const insetX = rect.width * 0.1;
+    return {
+      x: rect.x + insetX,
+      y: rect.y,
+      width: rect.width - insetX * 2,
+      height: rect.height + CRUSHER_SPIKE_LENGTH * 0.5,
+    };
+  }
+
+  const shrinkFactor = 0.2;
+  return {
+    x: rect.x + rect.width * shrinkFactor,
+    y: rect.y + rect.height * shrinkFactor,
+    width: rect.width * (1 - shrinkFactor * 2),
+    height: rect.height * (1 - shrinkFactor * 2),
+  };
+}
+
+// Position of the motion cycle in [0, 1)
+function getCycle(motion: HazardMotion, time: number): number {
+  const t = time / motion.period + (motion.phase ?? 0);
+  return t - Math.floor(t);
+}
+
+function getMotionOffset(hazard: Hazard, motion: HazardMotion, time: number): Vector2D {
+  const cycle = getCycle(motion, time);
+
+  switch (motion.type) {
+    case 'crusher':
+      return { x: 0, y: motion.travel * getCrusherDrop(cycle) };
+
+    case 'pendulum': {
+      const centerX = hazard.x + hazard.width / 2;
+      const centerY = hazard.y + hazard.height / 2;
+      const length = Math.hypot(centerX - motion.pivot.x, centerY - motion.pivot.y);
+      const angle = motion.amplitude * Math.sin(cycle * Math.PI * 2);
+      return {
+        x: motion.pivot.x + Math.sin(angle) * length - centerX,
+        y: motion.pivot.y + Math.cos(angle) * length - centerY,
+      };
+    }
+
+    case 'rail': {
+      const point = getPointAlongPath(motion.path, cycle < 0.5 ? cycle * 2 : 2 - cycle * 2);
+      return { x: point.x - hazard.x, y: point.y - hazard.y };
+    }
+  }
+}
+
+// Crusher timing: wait raised, slam down, hold, grind back up
+function getCrusherDrop(cycle: number): number {
+  if (cycle < 0.4) return 0;
+  if (cycle < 0.5) {
+    const t = (cycle - 0.4) / 0.1;
+    return t * t; // Accelerate into the slam
+  }
+  if (cycle < 0.65) return 1;
+  return 1 - (cycle - 0.65) / 0.35;
+}
+
+// Point at fraction t (0-1) of the total length along a polyline
+export function getPointAlongPath(path: Vector2D[], t: number): Vector2D {
+  if (path.length === 0) return { x: 0, y: 0 };
+  if (path.length === 1) return path[0];
+
+  const lengths = path.slice(1).map((point, i) => Math.hypot(point.x - path[i].x, point.y - path[i].y));
+  let remaining = t * lengths.reduce((sum, length) => sum + length, 0);
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] || i === lengths.length - 1) {
+      const segmentT = lengths[i] > 0 ? Math.min(remaining / lengths[i], 1) : 0;
+      return {
+        x: path[i].x + (path[i + 1].x - path[i].x) * segmentT,
+        y: path[i].y + (path[i + 1].y - path[i].y) * segmentT,
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  return path[path.length - 1];
+}
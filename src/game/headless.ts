@@ -0,0 +1,122 @@
+// Headless simulation runner - drives stepWorld without a browser, canvas or React.
+// Used by the physics regression tests to play levels with scripted input, on the built-in
+// levels or a bare test level.
+
+import { GameState, InputState, LevelData, Vector2D, WorldEvent } from '../types/game';
+import { FIXED_TIMESTEP } from './constants';
+import { createInitialGameState, createInitialPlayer, respawnPlayer, stepWorld } from './simulation';
+
+// A run of identical input held for a number of frames
+export interface InputStep {
+  frames: number;
+  input?: Partial<InputState>;
+}
+
+export interface RecordedEvent {
+  frame: number;
+  event: WorldEvent;
+}
+
+export interface SimulationOptions {
+  seed?: number;
+  // Drop the player somewhere other than the level's playerStart
+  startPosition?: Vector2D;
+  // Press restart automatically after dying (like a player mashing R)
+  respawnOnDeath?: boolean;
+  // Stop early once this returns true
+  until?: (state: GameState, events: WorldEvent[]) => boolean;
+}
+
+export interface SimulationResult {
+  state: GameState;
+  frames: number;
+  events: RecordedEvent[];
+}
+
+export const NO_INPUT: InputState = { left: false, right: false, jump: false, action: false };
+
+// A bare level for testing single mechanics - a 2000 x 720 floor, an exit tucked in the top corner,
+// and whatever the test adds
+export function createTestLevel(overrides: Partial<LevelData> = {}): LevelData {
+  return {
+    id: 'test',
+    name: 'Test',
+    width: 2000,
+    height: 720,
+    playerStart: { x: 100, y: 570 },
+    platforms: [{ id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' }],
+    hazards: [],
+    pushableObjects: [],
+    switches: [],
+    ropes: [],
+    checkpoints: [],
+    exitZone: { x: 1950, y: 0, width: 50, height: 50 },
+    ambientEffects: [],
+    ...overrides,
+  };
+}
+
+// Expand a compact script into one InputState per frame
+export function expandInputScript(script: InputStep[]): InputState[] {
+  const frames: InputState[] = [];
+  for (const step of script) {
+    const input = { ...NO_INPUT, ...step.input };
+    for (let i = 0; i < step.frames; i++) frames.push(input);
+  }
+  return frames;
+}
+
+export function createHeadlessState(levelData: LevelData, options: SimulationOptions = {}): GameState {
+  const state = { ...createInitialGameState(levelData, 0, options.seed ?? 0), isPlaying: true };
+  if (!options.startPosition) return state;
+
+  return {
+    ...state,
+    player: createInitialPlayer(options.startPosition),
+    camera: { ...state.camera, x: options.startPosition.x, y: options.startPosition.y },
+  };
+}
+
+// Play a level with scripted input, one fixed step per frame
+export function runSimulation(
+  levelData: LevelData,
+  script: InputStep[] | InputState[],
+  options: SimulationOptions = {}
+): SimulationResult {
+  const inputs = isInputStepScript(script) ? expandInputScript(script) : script;
+  let state = createHeadlessState(levelData, options);
+  const events: RecordedEvent[] = [];
+
+  let frame = 0;
+  for (; frame < inputs.length; frame++) {
+    if (state.player.isDead && options.respawnOnDeath) {
+      state = respawnPlayer(state);
+    }
+
+    const result = stepWorld(state, inputs[frame], FIXED_TIMESTEP);
+    state = result.state;
+    for (const event of result.events) {
+      events.push({ frame, event });
+    }
+
+    if (options.until?.(state, result.events)) {
+      frame += 1;
+      break;
+    }
+  }
+
+  return { state, frames: frame, events };
+}
+
+// First frame an event of the given type fired, or -1
+export function findEventFrame(
+  result: SimulationResult,
+  predicate: (event: WorldEvent) => boolean
+): number {
+  const match = result.events.find((recorded) => predicate(recorded.event));
+  return match ? match.frame : -1;
+}
+
+function isInputStepScript(script: InputStep[] | InputState[]): script is InputStep[] {
+  return script.length > 0 && 'frames' in script[0];
+}
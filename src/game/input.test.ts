@@ -0,0 +1,97 @@
+// Input layer tests - press/release edges, jump buffering, coyote time and single-press levers
+
+import { describe, it, expect } from 'vitest';
+import { InputState } from '../types/game';
+import { createTestLevel, InputStep, NO_INPUT, runSimulation } from './headless';
+import { createInputFrame, updateInputFrame, wasPressedWithin } from './input';
+
+const JUMP: InputState = { ...NO_INPUT, jump: true };
+
+// Floor with a pit from x=300 and a lever at x=700 on the far side
+const level = createTestLevel({
+  id: 'input',
+  platforms: [
+    { id: 'ledge', x: 0, y: 620, width: 300, height: 100, type: 'solid' },
+    { id: 'far', x: 500, y: 620, width: 1500, height: 100, type: 'solid' },
+  ],
+  switches: [{ id: 'lever', x: 700, y: 580, width: 40, height: 40, type: 'lever', isActivated: false, targetIds: [] }],
+});
+
+// Takeoffs: the player leaving the ground with upward speed
+const countJumps = (script: InputStep[], start = { x: 100, y: 570 }) => {
+  let jumps = 0;
+  let wasJumping = false;
+  runSimulation(level, script, {
+    startPosition: start,
+    until: (state) => {
+      if (state.player.isJumping && !wasJumping) jumps += 1;
+      wasJumping = state.player.isJumping;
+      return false;
+    },
+  });
+  return jumps;
+};
+
+describe('input frames', () => {
+  it('reports presses and releases once, with the frame they happened on', () => {
+    let input = createInputFrame();
+    input = updateInputFrame(input, JUMP);
+    expect(input.actions.jump).toMatchObject({ held: true, pressed: true, released: false, pressedAt: 1 });
+
+    input = updateInputFrame(input, JUMP);
+    expect(input.actions.jump).toMatchObject({ held: true, pressed: false, pressedAt: 1 });
+
+    input = updateInputFrame(input, NO_INPUT);
+    expect(input.actions.jump).toMatchObject({ held: false, released: true, releasedAt: 3, pressedAt: 1 });
+    expect(wasPressedWithin(input, 'jump', 2)).toBe(true);
+    expect(wasPressedWithin(input, 'jump', 1)).toBe(false);
+  });
+});
+
+describe('jumping', () => {
+  it('jumps once per press instead of bunny-hopping while held', () => {
+    expect(countJumps([{ frames: 180, input: JUMP }])).toBe(1);
+    expect(countJumps([{ frames: 60, input: JUMP }, { frames: 5 }, { frames: 60, input: JUMP }])).toBe(2);
+  });
+
+  it('buffers a press made just before landing', () => {
+    // Dropped from y=470, the player lands after 16 frames
+    const drop = { x: 100, y: 470 };
+    expect(countJumps([{ frames: 14 }, { frames: 1, input: JUMP }, { frames: 30 }], drop)).toBe(1);
+    expect(countJumps([{ frames: 4 }, { frames: 1, input: JUMP }, { frames: 40 }], drop)).toBe(0);
+  });
+
+  it('still jumps shortly after running off a ledge', () => {
+    const leftGround = runSimulation(level, [{ frames: 120, input: { right: true } }], {
+      until: (state) => !state.player.isGrounded,
+    }).frames;
+
+    const late = (delay: number): InputStep[] => [
+      { frames: leftGround + delay - 1, input: { right: true } },
+      { frames: 1, input: { right: true, jump: true } },
+      { frames: 20, input: { right: true } },
+    ];
+    expect(countJumps(late(3))).toBe(1);
+    expect(countJumps(late(15))).toBe(0);
+  });
+});
+
+describe('levers', () => {
+  it('need a press within reach, not an action held on the way there', () => {
+    const start = { startPosition: { x: 640, y: 570 } };
+    const walkedIn = runSimulation(
+      level,
+      [{ frames: 10, input: { right: true, action: true } }, { frames: 20, input: { action: true } }],
+      start
+    );
+    expect(walkedIn.state.player.position.x + walkedIn.state.player.width).toBeGreaterThan(700);
+    expect(walkedIn.state.levelData!.switches[0].isActivated).toBe(false);
+
+    const pressed = runSimulation(
+      level,
+      [{ frames: 10, input: { right: true } }, { frames: 20 }, { frames: 5, input: { action: true } }],
+      start
+    );
+    expect(pressed.state.levelData!.switches[0].isActivated).toBe(true);
+  });
+});
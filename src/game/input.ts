@@ -0,0 +1,59 @@
+// Input layer - turns the held InputState of each fixed step into per-action edges.
+// Edges are derived inside the simulation from consecutive steps, so replays (which only
+// record held bits) reproduce every press and release exactly.
+
+import { ActionState, InputFrame, InputState } from '../types/game';
+
+const ACTIONS: (keyof InputState)[] = ['left', 'right', 'jump', 'action'];
+
+const createActionState = (): ActionState => ({
+  held: false,
+  pressed: false,
+  released: false,
+  pressedAt: -Infinity,
+  releasedAt: -Infinity,
+});
+
+export function createInputFrame(frame: number = 0): InputFrame {
+  return {
+    frame,
+    actions: { left: createActionState(), right: createActionState(), jump: createActionState(), action: createActionState() },
+  };
+}
+
+// Advance to the next step's input
+export function updateInputFrame(prev: InputFrame, input: InputState): InputFrame {
+  const frame = prev.frame + 1;
+  const actions = { ...prev.actions };
+
+  for (const action of ACTIONS) {
+    const before = prev.actions[action];
+    const held = input[action];
+    const pressed = held && !before.held;
+    const released = !held && before.held;
+    actions[action] = {
+      held,
+      pressed,
+      released,
+      pressedAt: pressed ? frame : before.pressedAt,
+      releasedAt: released ? frame : before.releasedAt,
+    };
+  }
+
+  return { frame, actions };
+}
+
+// Pressed no more than `frames` steps ago (0 = this step only)
+export function wasPressedWithin(input: InputFrame, action: keyof InputState, frames: number): boolean {
+  return input.frame - input.actions[action].pressedAt <= frames;
+}
+
+// Plain held booleans, for code that only cares what is down right now
+export function getHeldInput(input: InputFrame): InputState {
+  return {
+    left: input.actions.left.held,
+    right: input.actions.right.held,
+    jump: input.actions.jump.held,
+    action: input.actions.action.held,
+  };
+}
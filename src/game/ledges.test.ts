@@ -0,0 +1,56 @@
+// Ledge tests - catching corners while falling, climbing up, dropping and shimmying under thin platforms
+
+import { describe, it, expect } from 'vitest';
+import { createTestLevel, runSimulation } from './headless';
+import { PLAYER_WIDTH } from './constants';
+
+// A tall block at x=400 and a thin floating platform at x=1000
+const level = createTestLevel({
+  id: 'ledges',
+  platforms: [
+    { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+    { id: 'block', x: 400, y: 450, width: 200, height: 170, type: 'solid' },
+    { id: 'beam', x: 1000, y: 450, width: 200, height: 20, type: 'solid' },
+  ],
+});
+
+// Dropped just beside a corner, facing it
+const beside = (cornerX: number) => ({ startPosition: { x: cornerX - PLAYER_WIDTH - 2, y: 380 } });
+
+describe('ledges', () => {
+  it('catches a corner when falling past it while facing the wall', () => {
+    const { state } = runSimulation(level, [{ frames: 60 }], beside(400));
+    expect(state.player.ledge).toMatchObject({ platformId: 'block', offsetX: 0 });
+    expect(state.player.position).toEqual({ x: 400 - PLAYER_WIDTH, y: 450 });
+    expect(state.player.animationState).toBe('hanging');
+  });
+
+  it('climbs onto the platform with a jump', () => {
+    const { state } = runSimulation(level, [{ frames: 60 }, { frames: 2, input: { jump: true } }, { frames: 60 }], beside(400));
+    expect(state.player.ledge).toBeNull();
+    expect(state.player.isGrounded).toBe(true);
+    expect(state.player.position.y + state.player.height).toBe(450);
+    expect(state.player.position.x).toBeGreaterThanOrEqual(400);
+  });
+
+  it('drops when pressing away or grab', () => {
+    for (const input of [{ left: true }, { action: true }]) {
+      const { state } = runSimulation(level, [{ frames: 60 }, { frames: 2, input }, { frames: 60 }], beside(400));
+      expect(state.player.ledge).toBeNull();
+      expect(state.player.position.y + state.player.height).toBe(620);
+    }
+  });
+
+  it('shimmies along beneath a thin platform and climbs up the far end', () => {
+    const hanging = runSimulation(level, [{ frames: 60 }, { frames: 40, input: { right: true } }], beside(1000));
+    expect(hanging.state.player.ledge?.offsetX).toBeGreaterThan(0);
+    expect(hanging.state.player.position.y).toBe(470);
+
+    const across = runSimulation(
+      level,
+      [{ frames: 60 }, { frames: 200, input: { right: true } }, { frames: 2, input: { right: true, jump: true } }, { frames: 60 }],
+      beside(1000)
+    );
+    expect(across.state.player.position).toEqual({ x: 1200 - PLAYER_WIDTH, y: 450 - across.state.player.height });
+  });
+});
@@ -3,56 +3,88 @@
 import {
   Player,
   Platform,
-  PushableObject,
   InputState,
+  InputFrame,
   Vector2D,
   LevelData,
-  Rope,
+  CrumbleState,
+  LedgeGrip,
+  Rectangle,
 } from '../types/game';
 import {
   GAME_CONFIG,
   GROUND_FRICTION,
   AIR_FRICTION,
-  PUSH_SPEED,
-  ROPE_SWING_ACCEL,
-  ROPE_AIR_RESISTANCE,
-  ROPE_MAX_SWING_SPEED,
+  JUMP_BUFFER_FRAMES,
+  COYOTE_FRAMES,
+  LEDGE_GRAB_REACH,
+  LEDGE_CLIMB_TIME,
+  LEDGE_SHIMMY_SPEED,
+  LEDGE_SHIMMY_MAX_THICKNESS,
+  CRUMBLE_BREAK_DELAY,
+  CRUMBLE_RESPAWN_DELAY,
 } from './constants';
 import {
   checkPlatformCollision,
   checkPushableCollision,
+  isPlatformSolid,
+  rectIntersect,
   clamp,
   CollisionResult,
 } from '../utils/collision';
+import { getHeldInput, wasPressedWithin } from './input';
 
 export function updatePlayerPhysics(
   player: Player,
-  input: InputState,
+  input: InputFrame,
   levelData: LevelData,
-  deltaTime: number
+  deltaTime: number,
+  carrierDeltas: Map<string, Vector2D> = new Map()
 ): Player {
   if (player.isDead) return player;
+  const held = getHeldInput(input);
 
-  // If on rope, skip normal physics (handled separately in updateRopePhysics)
+  // If on rope, skip normal physics (handled separately in updateRopes)
   if (player.isOnRope) {
     return player;
   }
 
+  if (player.ledge) {
+    return updateLedgeHang(player, input, levelData.platforms, deltaTime);
+  }
+
   const dt = deltaTime / 16.67; // Normalize to 60fps
-  let newPlayer = { ...player };
-  const prevPosition = { ...player.position };
+  // Copy vectors too so the previous state stays intact for interpolation
+  let newPlayer = { ...player, position: { ...player.position }, velocity: { ...player.velocity } };
+
+  // Ride along with the moving platform or object stood on last step
+  const carry = player.groundId ? carrierDeltas.get(player.groundId) : undefined;
+  if (carry) {
+    newPlayer.position.x += carry.x;
+    newPlayer.position.y += carry.y;
+  }
+  const prevPosition = { ...newPlayer.position };
 
   // Horizontal movement
   let targetVelX = 0;
-  if (input.left) {
+  if (held.left) {
     targetVelX = -GAME_CONFIG.playerSpeed;
     newPlayer.facingRight = false;
   }
-  if (input.right) {
+  if (held.right) {
     targetVelX = GAME_CONFIG.playerSpeed;
     newPlayer.facingRight = true;
   }
 
+  // Dragging a pushable - back away at its pace, facing it
+  const pulled =
+    held.action && newPlayer.isGrounded ? levelData.pushableObjects.find((pushable) => pushable.isBeingPulled) : undefined;
+  if (pulled) {
+    targetVelX = pulled.velocity.x;
+    newPlayer.velocity.x = pulled.velocity.x;
+    newPlayer.facingRight = pulled.x > newPlayer.position.x;
+  }
+
   // Apply acceleration
   const acceleration = newPlayer.isGrounded ? 0.3 : 0.15;
   newPlayer.velocity.x += (targetVelX - newPlayer.velocity.x) * acceleration * dt;
@@ -63,15 +95,25 @@ export function updatePlayerPhysics(
     newPlayer.velocity.x *= Math.pow(friction, dt);
   }
 
-  // Jumping
-  if (input.jump && newPlayer.isGrounded && !newPlayer.isJumping) {
+  // Jumping - each press jumps once (holding doesn't bunny-hop). A press shortly before
+  // landing is buffered, and the ground still counts shortly after walking off it.
+  const jumpPressedAt = input.actions.jump.pressedAt;
+  const hasJumpPress = jumpPressedAt > player.consumedJumpPress && wasPressedWithin(input, 'jump', JUMP_BUFFER_FRAMES);
+  const isOnGround = newPlayer.isGrounded || input.frame - player.lastGroundedFrame <= COYOTE_FRAMES;
+  if (hasJumpPress && isOnGround && !newPlayer.isJumping) {
     newPlayer.velocity.y = -GAME_CONFIG.playerJumpForce;
     newPlayer.isJumping = true;
     newPlayer.isGrounded = false;
+    newPlayer.consumedJumpPress = jumpPressedAt;
+    // Jumping off something moving keeps its momentum (a rising lift adds to the jump)
+    if (carry) {
+      newPlayer.velocity.x += carry.x / dt;
+      newPlayer.velocity.y += Math.min(0, carry.y / dt);
+    }
   }
 
   // Release jump for variable height
-  if (!input.jump && newPlayer.velocity.y < -GAME_CONFIG.playerJumpForce * 0.5) {
+  if (!held.jump && newPlayer.velocity.y < -GAME_CONFIG.playerJumpForce * 0.5) {
     newPlayer.velocity.y = -GAME_CONFIG.playerJumpForce * 0.5;
   }
 
@@ -83,8 +125,15 @@ export function updatePlayerPhysics(
   newPlayer.position.x += newPlayer.velocity.x * dt;
   newPlayer.position.y += newPlayer.velocity.y * dt;
 
+  // Hands stay on the pulled object, which already moved (and stopped against anything in its way)
+  if (pulled) {
+    newPlayer.position.x = newPlayer.facingRight ? pulled.x - newPlayer.width : pulled.x + pulled.width;
+  }
+
   // Reset grounded state (will be set by collision detection)
   newPlayer.isGrounded = false;
+  newPlayer.groundId = null;
+  newPlayer.isGrabbing = !!pulled;
 
   // Check platform collisions
   for (const platform of levelData.platforms) {
@@ -104,6 +153,7 @@ export function updatePlayerPhysics(
         newPlayer.velocity.y = 0;
         newPlayer.isGrounded = true;
         newPlayer.isJumping = false;
+        newPlayer.groundId = pushable.id;
       } else if (collision.direction === 'bottom') {
         // Hit head on bottom of pushable
         newPlayer.position.y = pushable.y + pushable.height;
@@ -113,7 +163,7 @@ export function updatePlayerPhysics(
         newPlayer.position.x = pushable.x - newPlayer.width;
         newPlayer.velocity.x = 0;
         // Can push the object if holding action
-        if (input.action) {
+        if (held.action) {
           newPlayer.isGrabbing = true;
         }
       } else if (collision.direction === 'left') {
@@ -121,19 +171,28 @@ export function updatePlayerPhysics(
         newPlayer.position.x = pushable.x + pushable.width;
         newPlayer.velocity.x = 0;
         // Can push the object if holding action
-        if (input.action) {
+        if (held.action) {
           newPlayer.isGrabbing = true;
         }
       }
     }
   }
 
+  // Catch a ledge when falling past one while facing it
+  if (!newPlayer.isGrounded && newPlayer.velocity.y >= 0) {
+    const ledge = findLedge(newPlayer, prevPosition, levelData.platforms);
+    if (ledge) {
+      return hangFrom(newPlayer, ledge.grip, ledge.platform);
+    }
+  }
+
   // Update animation state
-  newPlayer.animationState = getAnimationState(newPlayer, input);
+  newPlayer.animationState = getAnimationState(newPlayer, held);
 
   // Reset jump flag when grounded
   if (newPlayer.isGrounded) {
     newPlayer.isJumping = false;
+    newPlayer.lastGroundedFrame = input.frame;
   }
 
   return newPlayer;
@@ -152,6 +211,7 @@ function resolveCollision(
       newPlayer.velocity.y = 0;
       newPlayer.isGrounded = true;
       newPlayer.isJumping = false;
+      newPlayer.groundId = platform.id;
       break;
     case 'bottom':
       newPlayer.position.y = platform.y + platform.height;
@@ -175,7 +235,10 @@ function getAnimationState(
   input: InputState
 ): Player['animationState'] {
   if (player.isDead) return 'dying';
-  if (player.isGrabbing) return 'pushing';
+  if (player.isGrabbing) {
+    const isBackingAway = Math.abs(player.velocity.x) > 0.1 && player.velocity.x > 0 !== player.facingRight;
+    return isBackingAway ? 'pulling' : 'pushing';
+  }
   if (!player.isGrounded) {
     return player.velocity.y < 0 ? 'jumping' : 'falling';
   }
@@ -185,364 +248,230 @@ function getAnimationState(
   return 'idle';
 }
 
-export function updatePushablePhysics(
-  pushables: PushableObject[],
-  player: Player,
-  platforms: Platform[],
-  input: InputState,
-  deltaTime: number
-): PushableObject[] {
-  const dt = deltaTime / 16.67;
+// Ledges - hanging from top corners, shimmying beneath thin platforms and climbing up.
+// The player's hands are at the top of their box, so a grab happens when that edge passes a corner.
 
-  return pushables.map((pushable) => {
-    const newPushable = { ...pushable };
+// A top corner on the side the player faces that their hands passed this step.
+// Corners with something solid right above them (a wall carrying on up) aren't ledges.
+function findLedge(
+  player: Player,
+  prevPosition: Vector2D,
+  platforms: Platform[]
+): { grip: LedgeGrip; platform: Platform } | null {
+  for (const platform of platforms) {
+    if (platform.type === 'one-way' || !isPlatformSolid(platform)) continue;
+    if (prevPosition.y >= platform.y || player.position.y < platform.y) continue;
+
+    const offsetX = player.facingRight ? 0 : platform.width;
+    const cornerX = platform.x + offsetX;
+    const gap = player.facingRight ? cornerX - (player.position.x + player.width) : player.position.x - cornerX;
+    if (gap < -1 || gap > LEDGE_GRAB_REACH) continue;
+
+    const above: Rectangle = { x: player.facingRight ? cornerX : cornerX - 2, y: platform.y - 2, width: 2, height: 2 };
+    if (!isAreaClear(above, platforms)) continue;
+
+    return { grip: { platformId: platform.id, offsetX, climbTime: 0 }, platform };
+  }
+  return null;
+}
 
-    // Check if player is pushing this object
-    const playerRight = player.position.x + player.width;
-    const playerBottom = player.position.y + player.height;
-    const pushableRight = pushable.x + pushable.width;
+function isAreaClear(area: Rectangle, platforms: Platform[]): boolean {
+  return !platforms.some((platform) => platform.type !== 'one-way' && isPlatformSolid(platform) && rectIntersect(area, platform));
+}
 
-    const isNearX =
-      (Math.abs(playerRight - pushable.x) < 10) ||
-      (Math.abs(player.position.x - pushableRight) < 10);
-    const isOverlappingY =
-      playerBottom > pushable.y + 10 &&
-      player.position.y < pushable.y + pushable.height - 10;
+// Beside the wall at a corner, or just below a thin platform when shimmying along it
+function getHangPosition(player: Player, platform: Platform, offsetX: number): Vector2D {
+  if (offsetX <= 0) return { x: platform.x - player.width, y: platform.y };
+  if (offsetX >= platform.width) return { x: platform.x + platform.width, y: platform.y };
+  return { x: platform.x + offsetX - player.width / 2, y: platform.y + platform.height };
+}
 
-    if (isNearX && isOverlappingY && input.action && player.isGrounded) {
-      newPushable.isBeingPushed = true;
+// Re-placed from the platform every step, so ledges on moving platforms carry the player
+function hangFrom(player: Player, grip: LedgeGrip, platform: Platform, velocityX: number = 0): Player {
+  return {
+    ...player,
+    position: getHangPosition(player, platform, grip.offsetX),
+    velocity: { x: velocityX, y: 0 },
+    ledge: grip,
+    isGrounded: false,
+    groundId: null,
+    isJumping: false,
+    animationState: 'hanging',
+  };
+}
 
-      if (input.right && Math.abs(playerRight - pushable.x) < 10) {
-        newPushable.velocity.x = PUSH_SPEED;
-      } else if (input.left && Math.abs(player.position.x - pushableRight) < 10) {
-        newPushable.velocity.x = -PUSH_SPEED;
-      }
-    } else {
-      newPushable.isBeingPushed = false;
-      newPushable.velocity.x *= 0.8;
-    }
+function letGo(player: Player): Player {
+  return { ...player, ledge: null, velocity: { x: 0, y: 0 }, animationState: 'falling' };
+}
 
-    // Apply gravity to pushables
-    newPushable.velocity.y += GAME_CONFIG.gravity * dt;
-    newPushable.velocity.y = clamp(newPushable.velocity.y, -20, 20);
-
-    // Update position
-    newPushable.x += newPushable.velocity.x * dt;
-    newPushable.y += newPushable.velocity.y * dt;
-
-    // Check platform collisions for pushables
-    for (const platform of platforms) {
-      if (
-        newPushable.x < platform.x + platform.width &&
-        newPushable.x + newPushable.width > platform.x &&
-        newPushable.y < platform.y + platform.height &&
-        newPushable.y + newPushable.height > platform.y
-      ) {
-        // Simple collision resolution
-        const overlapTop = newPushable.y + newPushable.height - platform.y;
-        const overlapLeft = newPushable.x + newPushable.width - platform.x;
-        const overlapRight = platform.x + platform.width - newPushable.x;
-
-        if (overlapTop < overlapLeft && overlapTop < overlapRight) {
-          newPushable.y = platform.y - newPushable.height;
-          newPushable.velocity.y = 0;
-        } else if (overlapLeft < overlapRight) {
-          newPushable.x = platform.x - newPushable.width;
-          newPushable.velocity.x = 0;
-        } else {
-          newPushable.x = platform.x + platform.width;
-          newPushable.velocity.x = 0;
-        }
-      }
+function updateLedgeHang(player: Player, input: InputFrame, platforms: Platform[], deltaTime: number): Player {
+  const grip = player.ledge!;
+  const platform = platforms.find((p) => p.id === grip.platformId);
+  // The ledge crumbled, opened (doors) or moved out of reach
+  if (!platform || !isPlatformSolid(platform)) return letGo(player);
+
+  if (grip.climbTime > 0) return continueClimb(player, grip, platform, deltaTime);
+
+  const { left, right, jump, action } = input.actions;
+  if (action.pressed) return letGo(player);
+
+  const canShimmy = platform.height <= LEDGE_SHIMMY_MAX_THICKNESS;
+  const isLeftCorner = grip.offsetX <= 0;
+  if (isLeftCorner || grip.offsetX >= platform.width) {
+    const toward = isLeftCorner ? right : left;
+    const away = isLeftCorner ? left : right;
+    if (away.pressed) return letGo(player);
+
+    // Jump climbs; pressing toward the platform climbs too, unless it is thin enough to go under
+    const wantsClimb = jump.pressed || (toward.pressed && !canShimmy);
+    if (wantsClimb && canClimbOnto(player, platform, isLeftCorner, platforms)) {
+      const climber = { ...player, consumedJumpPress: jump.pressed ? jump.pressedAt : player.consumedJumpPress };
+      return continueClimb(climber, grip, platform, deltaTime);
     }
+    if (!canShimmy || !toward.held) return hangFrom(player, grip, platform);
+  }
 
-    return newPushable;
-  });
-}
-
-export function updateMovingPlatforms(
-  platforms: Platform[],
-  deltaTime: number
-): Platform[] {
+  // Hand over hand underneath; reaching either end puts the player back at that corner
+  const direction = (right.held ? 1 : 0) - (left.held ? 1 : 0);
   const dt = deltaTime / 16.67;
+  const offsetX = clamp(grip.offsetX + direction * LEDGE_SHIMMY_SPEED * dt, 0, platform.width);
+  const position = getHangPosition(player, platform, offsetX);
+  // A wall below the platform stops the shimmy
+  if (!isAreaClear({ ...position, width: player.width, height: player.height }, platforms)) {
+    return hangFrom(player, grip, platform);
+  }
 
-  return platforms.map((platform) => {
-    if (platform.type !== 'moving' || !platform.movingConfig) {
-      return platform;
-    }
+  const facingRight = direction === 0 ? player.facingRight : direction > 0;
+  return hangFrom({ ...player, facingRight }, { ...grip, offsetX }, platform, direction * LEDGE_SHIMMY_SPEED);
+}
 
-    const config = platform.movingConfig;
-    const newPlatform = { ...platform, movingConfig: { ...config } };
+// Room to stand on the platform at this corner, and to rise beside it first
+function canClimbOnto(player: Player, platform: Platform, isLeftCorner: boolean, platforms: Platform[]): boolean {
+  const top = platform.y - player.height;
+  const standX = isLeftCorner ? platform.x : platform.x + platform.width - player.width;
+  const hangX = isLeftCorner ? platform.x - player.width : platform.x + platform.width;
+  return (
+    isAreaClear({ x: standX, y: top, width: player.width, height: player.height }, platforms) &&
+    isAreaClear({ x: hangX, y: top, width: player.width, height: player.height }, platforms)
+  );
+}
 
-    // Move horizontally
-    if (config.startX !== config.endX) {
-      newPlatform.x += config.speed * config.currentDirection * dt;
+// First half: pull up beside the wall. Second half: step onto the platform.
+function continueClimb(player: Player, grip: LedgeGrip, platform: Platform, deltaTime: number): Player {
+  const climbTime = grip.climbTime + deltaTime;
+  const isLeftCorner = grip.offsetX <= 0;
+  const hang = getHangPosition(player, platform, grip.offsetX);
+  const top = platform.y - player.height;
+  const standX = isLeftCorner ? platform.x : platform.x + platform.width - player.width;
+
+  if (climbTime >= LEDGE_CLIMB_TIME) {
+    return {
+      ...player,
+      position: { x: standX, y: top },
+      velocity: { x: 0, y: 0 },
+      ledge: null,
+      isGrounded: true,
+      groundId: platform.id,
+      isJumping: false,
+      animationState: 'idle',
+    };
+  }
 
-      if (newPlatform.x >= config.endX) {
-        newPlatform.x = config.endX;
-        newPlatform.movingConfig!.currentDirection = -1;
-      } else if (newPlatform.x <= config.startX) {
-        newPlatform.x = config.startX;
-        newPlatform.movingConfig!.currentDirection = 1;
-      }
-    }
+  const progress = climbTime / LEDGE_CLIMB_TIME;
+  const rise = Math.min(1, progress * 2);
+  const step = Math.max(0, progress * 2 - 1);
+  return {
+    ...player,
+    position: { x: hang.x + (standX - hang.x) * step, y: hang.y + (top - hang.y) * rise },
+    velocity: { x: 0, y: 0 },
+    ledge: { ...grip, climbTime },
+    isGrounded: false,
+    animationState: 'climbing',
+  };
+}
 
-    // Move vertically
-    if (config.startY !== config.endY) {
-      newPlatform.y += config.speed * config.currentDirection * dt;
+// How far through a ledge climb the player is (0-1), for the renderer
+export function getClimbProgress(player: Player): number {
+  return player.ledge ? Math.min(1, player.ledge.climbTime / LEDGE_CLIMB_TIME) : 0;
+}
 
-      if (newPlatform.y >= config.endY) {
-        newPlatform.y = config.endY;
-        newPlatform.movingConfig!.currentDirection = -1;
-      } else if (newPlatform.y <= config.startY) {
-        newPlatform.y = config.startY;
-        newPlatform.movingConfig!.currentDirection = 1;
-      }
+// How far each platform (or pushable) moved this step, so whatever rests on it moves too
+export function getMovementDeltas<T extends { id: string; x: number; y: number }>(
+  before: T[],
+  after: T[]
+): Map<string, Vector2D> {
+  const deltas = new Map<string, Vector2D>();
+  for (const entity of after) {
+    const prev = before.find((p) => p.id === entity.id);
+    if (prev && (prev.x !== entity.x || prev.y !== entity.y)) {
+      deltas.set(entity.id, { x: entity.x - prev.x, y: entity.y - prev.y });
     }
-
-    return newPlatform;
-  });
+  }
+  return deltas;
 }
 
-// Update rope when player is NOT attached - swing back to natural hanging position
-export function updateIdleRopePhysics(
-  rope: Rope,
+// Crumbling platforms: shake once stood on, then break, fall away and later reform
+export function updateCrumblingPlatforms(
+  platforms: Platform[],
+  player: Player,
   deltaTime: number
-): Rope {
+): Platform[] {
   const dt = deltaTime / 16.67;
-  const newRope = { ...rope };
-
-  // Apply pendulum physics to swing rope back to vertical
-  // Gravity creates a restoring force proportional to sin(angle)
-  const gravityEffect = 0.003; // Gentle restoring force
-  const damping = 0.98; // Air resistance
 
-  // Angular acceleration from gravity (pendulum equation: a = -g/L * sin(theta))
-  const angularAccel = -gravityEffect * Math.sin(newRope.angle);
-  newRope.angularVelocity += angularAccel * dt;
-
-  // Apply damping
-  newRope.angularVelocity *= damping;
-
-  // Update angle
-  newRope.angle += newRope.angularVelocity * dt;
-
-  // Stop tiny oscillations
-  if (Math.abs(newRope.angle) < 0.01 && Math.abs(newRope.angularVelocity) < 0.001) {
-    newRope.angle = 0;
-    newRope.angularVelocity = 0;
-  }
-
-  return newRope;
-}
+  return platforms.map((platform) => {
+    if (platform.type !== 'crumbling') return platform;
 
-// Rope physics - constraint-based swing
-// Based on best practices: treat rope as circular constraint, apply world gravity,
-// use tangent force for player input, natural momentum on release
-export function updateRopePhysics(
-  rope: Rope,
-  player: Player,
-  input: InputState,
-  deltaTime: number
-): { rope: Rope; player: Player } {
-  if (!player.isOnRope || player.attachedRopeId !== rope.id) {
-    return { rope, player };
-  }
+    const breakDelay = platform.crumblingConfig?.breakDelay ?? CRUMBLE_BREAK_DELAY;
+    const respawnDelay = platform.crumblingConfig?.respawnDelay ?? CRUMBLE_RESPAWN_DELAY;
+    const crumble = platform.crumble ?? createCrumbleState();
 
-  const dt = deltaTime / 16.67;
-  const newRope = { ...rope };
-  let newPlayer = { ...player };
-
-  // Get player center position
-  let playerCenterX = newPlayer.position.x + newPlayer.width / 2;
-  let playerCenterY = newPlayer.position.y + newPlayer.height / 2;
-
-  // Step 1: Apply world gravity to velocity
-  newPlayer.velocity.y += GAME_CONFIG.gravity * dt * 0.8; // Slightly reduced for better feel
-
-  // Step 2: Apply player input as tangent force (perpendicular to rope)
-  // Calculate current rope direction
-  const ropeVecX = playerCenterX - rope.anchorX;
-  const ropeVecY = playerCenterY - rope.anchorY;
-  const ropeLen = Math.sqrt(ropeVecX * ropeVecX + ropeVecY * ropeVecY);
-
-  if (ropeLen > 0) {
-    // Tangent direction (perpendicular to rope, pointing right when rope hangs down)
-    const tangentX = ropeVecY / ropeLen;
-    const tangentY = -ropeVecX / ropeLen;
-
-    // Apply swing force in tangent direction based on input
-    if (input.left) {
-      newPlayer.velocity.x -= tangentX * ROPE_SWING_ACCEL * dt;
-      newPlayer.velocity.y -= tangentY * ROPE_SWING_ACCEL * dt;
-      newPlayer.facingRight = false;
-    }
-    if (input.right) {
-      newPlayer.velocity.x += tangentX * ROPE_SWING_ACCEL * dt;
-      newPlayer.velocity.y += tangentY * ROPE_SWING_ACCEL * dt;
-      newPlayer.facingRight = true;
-    }
-  }
+    switch (crumble.phase) {
+      case 'intact':
+        if (isStandingOn(player, platform)) {
+          return { ...platform, crumble: { ...crumble, phase: 'shaking', timer: 0 } };
+        }
+        return platform;
 
-  // Step 3: Apply air resistance
-  newPlayer.velocity.x *= ROPE_AIR_RESISTANCE;
-  newPlayer.velocity.y *= ROPE_AIR_RESISTANCE;
-
-  // Cap maximum swing speed
-  newPlayer.velocity.x = clamp(newPlayer.velocity.x, -ROPE_MAX_SWING_SPEED, ROPE_MAX_SWING_SPEED);
-
-  // Step 4: Update position based on velocity
-  playerCenterX += newPlayer.velocity.x * dt;
-  playerCenterY += newPlayer.velocity.y * dt;
-
-  // Step 5: Soft rope constraint with elasticity
-  // Calculate new distance from anchor
-  const newRopeVecX = playerCenterX - rope.anchorX;
-  const newRopeVecY = playerCenterY - rope.anchorY;
-  const newDist = Math.sqrt(newRopeVecX * newRopeVecX + newRopeVecY * newRopeVecY);
-
-  if (newDist > 0) {
-    const radialX = newRopeVecX / newDist;
-    const radialY = newRopeVecY / newDist;
-
-    if (newDist > rope.length) {
-      // Rope is taut - apply very soft spring force for elastic feel
-      const overstretch = newDist - rope.length;
-      const springStrength = 0.15; // Very soft spring (lower = more elastic)
-      const dampening = 0.4; // Only dampen 40% of radial velocity for bouncy feel
-
-      // Apply spring force pulling player back toward rope length
-      const pullForce = overstretch * springStrength;
-      playerCenterX -= radialX * pullForce;
-      playerCenterY -= radialY * pullForce;
-
-      // Gently dampen outward radial velocity (keeps bounce)
-      const radialVel = newPlayer.velocity.x * radialX + newPlayer.velocity.y * radialY;
-      if (radialVel > 0) {
-        newPlayer.velocity.x -= radialVel * radialX * dampening;
-        newPlayer.velocity.y -= radialVel * radialY * dampening;
+      case 'shaking': {
+        const timer = crumble.timer + deltaTime;
+        if (timer >= breakDelay) {
+          return { ...platform, crumble: { phase: 'falling', timer: 0, fallOffset: 0, fallVelocity: 0 } };
+        }
+        return { ...platform, crumble: { ...crumble, timer } };
       }
 
-      // Hard limit - allow significant stretch before clamping
-      const maxStretch = rope.length * 1.15;
-      if (newDist > maxStretch) {
-        // Soft clamp - gradually pull back rather than snap
-        const excessStretch = newDist - maxStretch;
-        playerCenterX -= radialX * excessStretch * 0.5;
-        playerCenterY -= radialY * excessStretch * 0.5;
+      case 'falling': {
+        const timer = crumble.timer + deltaTime;
+        if (respawnDelay > 0 && timer >= respawnDelay) {
+          return { ...platform, crumble: createCrumbleState() };
+        }
+        const fallVelocity = Math.min(crumble.fallVelocity + GAME_CONFIG.gravity * dt, GAME_CONFIG.maxFallSpeed);
+        return {
+          ...platform,
+          crumble: { ...crumble, timer, fallVelocity, fallOffset: crumble.fallOffset + fallVelocity * dt },
+        };
       }
-    } else if (newDist < rope.length * 0.85) {
-      // Rope has slack - very gentle pull toward extension
-      const slack = rope.length - newDist;
-      const gentlePull = slack * 0.008;
-      newPlayer.velocity.x += radialX * gentlePull;
-      newPlayer.velocity.y += radialY * gentlePull;
     }
-  }
-
-  // Step 6: Update rope angle based on player position (for rendering)
-  const finalRopeVecX = playerCenterX - rope.anchorX;
-  const finalRopeVecY = playerCenterY - rope.anchorY;
-  newRope.angle = Math.atan2(finalRopeVecX, finalRopeVecY);
-
-  // Store angular velocity for rendering (approximate from position change)
-  newRope.angularVelocity = newPlayer.velocity.x * 0.01;
-
-  // Update player position from center
-  newPlayer.position.x = playerCenterX - newPlayer.width / 2;
-  newPlayer.position.y = playerCenterY - newPlayer.height / 2;
-
-  // Update animation state
-  newPlayer.animationState = 'swinging';
-  newPlayer.isGrounded = false;
-  newPlayer.isJumping = false;
-
-  return { rope: newRope, player: newPlayer };
+  });
 }
 
-// Check if player can grab a rope and handle attachment
-export function checkRopeGrab(
-  player: Player,
-  ropes: Rope[],
-  input: InputState,
-  grabDistance: number
-): { player: Player; ropes: Rope[] } {
-  // If already on rope, check for jump release
-  if (player.isOnRope) {
-    // Decrease cooldown
-    const cooldown = Math.max(0, player.ropeGrabCooldown - 1);
-
-    // Only allow release after cooldown expires (prevents accidental immediate release)
-    if (input.jump && cooldown === 0) {
-      // Release from rope - keep natural momentum, just add a small upward boost
-      const newPlayer = { ...player };
-      newPlayer.isOnRope = false;
-      newPlayer.attachedRopeId = null;
-      newPlayer.ropeGrabCooldown = 0;
-      // Add a small jump impulse (not a multiplier) for controlled release
-      newPlayer.velocity.y = Math.min(newPlayer.velocity.y - 5, -3);
-      newPlayer.isJumping = true;
-      newPlayer.animationState = 'jumping';
-      return { player: newPlayer, ropes };
-    }
-    // Update cooldown even if not releasing
-    if (cooldown !== player.ropeGrabCooldown) {
-      return { player: { ...player, ropeGrabCooldown: cooldown }, ropes };
-    }
-    return { player, ropes };
-  }
-
-  // Check for rope grab (action button while in air or jumping)
-  // Allow grab if pressing action and either not grounded OR moving upward (jumping)
-  const isInAir = !player.isGrounded || player.velocity.y < 0;
-  if (!input.action || !isInAir) {
-    return { player, ropes };
-  }
-
-  const playerCenterX = player.position.x + player.width / 2;
-  const playerCenterY = player.position.y + player.height / 2;
-
-  for (const rope of ropes) {
-    // Calculate rope end position
-    const ropeEndX = rope.anchorX + Math.sin(rope.angle) * rope.length;
-    const ropeEndY = rope.anchorY + Math.cos(rope.angle) * rope.length;
-
-    // Check distance to rope LINE (not just end point)
-    // Find closest point on rope to player
-    const ropeVecX = ropeEndX - rope.anchorX;
-    const ropeVecY = ropeEndY - rope.anchorY;
-    const playerToAnchorX = playerCenterX - rope.anchorX;
-    const playerToAnchorY = playerCenterY - rope.anchorY;
-
-    // Project player position onto rope line
-    const ropeLen = rope.length;
-    const dot = (playerToAnchorX * ropeVecX + playerToAnchorY * ropeVecY) / (ropeLen * ropeLen);
-    const t = clamp(dot, 0.3, 1); // Only grab lower 70% of rope (not near anchor)
-
-    const closestX = rope.anchorX + ropeVecX * t;
-    const closestY = rope.anchorY + ropeVecY * t;
-
-    const dx = playerCenterX - closestX;
-    const dy = playerCenterY - closestY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance < grabDistance) {
-      // Attach to rope
-      const newPlayer = { ...player };
-      newPlayer.isOnRope = true;
-      newPlayer.attachedRopeId = rope.id;
-      newPlayer.isGrounded = false;
-      newPlayer.isJumping = false;
-      newPlayer.animationState = 'swinging';
-      // Set cooldown to prevent immediate release (15 frames = ~250ms at 60fps)
-      newPlayer.ropeGrabCooldown = 15;
-
-      // Keep player's current velocity - the constraint-based physics will handle it naturally
-      // No artificial momentum transfer needed
+export function createCrumbleState(): CrumbleState {
+  return { phase: 'intact', timer: 0, fallOffset: 0, fallVelocity: 0 };
+}
 
-      return { player: newPlayer, ropes };
-    }
-  }
+// Put every crumbling platform back together (used on checkpoint respawn)
+export function resetCrumblingPlatforms(platforms: Platform[]): Platform[] {
+  return platforms.map((platform) =>
+    platform.type === 'crumbling' && platform.crumble ? { ...platform, crumble: createCrumbleState() } : platform
+  );
+}
 
-  return { player, ropes };
+function isStandingOn(player: Player, platform: Platform): boolean {
+  const feetY = player.position.y + player.height;
+  return (
+    player.isGrounded &&
+    Math.abs(feetY - platform.y) < 1 &&
+    player.position.x + player.width > platform.x &&
+    player.position.x < platform.x + platform.width
+  );
 }
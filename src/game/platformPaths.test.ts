@@ -0,0 +1,97 @@
+// Moving platform route tests - path modes, pauses, easing, per-segment speed and switching
+
+import { describe, it, expect } from 'vitest';
+import { LevelData, Platform, PlatformPath } from '../types/game';
+import { applyEasing, updateMovingPlatforms } from './platformPaths';
+import { applySignalAction } from './signals';
+import { FIXED_TIMESTEP } from './constants';
+import { createTestLevel } from './headless';
+
+function createPlatform(path: Partial<PlatformPath>): Platform {
+  return {
+    id: 'lift',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    type: 'moving',
+    path: {
+      waypoints: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+      ],
+      speed: 10,
+      ...path,
+    },
+  };
+}
+
+function run(platform: Platform, steps: number): Platform {
+  let platforms = [platform];
+  for (let i = 0; i < steps; i++) platforms = updateMovingPlatforms(platforms, FIXED_TIMESTEP);
+  return platforms[0];
+}
+
+const levelWith = (platform: Platform): LevelData =>
+  createTestLevel({ id: 'paths', playerStart: { x: 0, y: 0 }, platforms: [platform] });
+
+const position = (platform: Platform) => ({ x: Math.round(platform.x), y: Math.round(platform.y) });
+
+describe('platform paths', () => {
+  it('follows the waypoints and turns around at the ends by default', () => {
+    const lift = createPlatform({});
+    expect(position(run(lift, 10))).toEqual({ x: 100, y: 0 });
+    expect(position(run(lift, 15))).toEqual({ x: 100, y: 50 });
+    expect(position(run(lift, 20))).toEqual({ x: 100, y: 100 });
+    expect(position(run(lift, 25))).toEqual({ x: 100, y: 50 });
+  });
+
+  it('moves diagonally at the path speed', () => {
+    const lift = createPlatform({ waypoints: [{ x: 0, y: 0 }, { x: 300, y: 400 }] });
+    expect(position(run(lift, 25))).toEqual({ x: 150, y: 200 });
+  });
+
+  it('loops back to the first waypoint', () => {
+    const lift = createPlatform({ mode: 'loop' });
+    // Seven steps down the closing diagonal from (100, 100) back to the start
+    const closing = run(lift, 27);
+    expect(closing.x).toBeCloseTo(100 - 70 / Math.SQRT2, 0);
+    expect(closing.y).toBeCloseTo(closing.x);
+    expect(run(lift, 35).path!.from).toBe(0);
+  });
+
+  it('stops at the end of a one-way path and runs back once started again', () => {
+    const stopped = run(createPlatform({ mode: 'one-way' }), 30);
+    expect(position(stopped)).toEqual({ x: 100, y: 100 });
+    expect(stopped.isMoving).toBe(false);
+    expect(position(run(stopped, 10))).toEqual({ x: 100, y: 100 });
+
+    const level = applySignalAction(levelWith(stopped), 'lift', 'start');
+    expect(position(run(level.platforms[0], 5))).toEqual({ x: 100, y: 50 });
+  });
+
+  it('waits at waypoints with a pause', () => {
+    const lift = createPlatform({
+      waypoints: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0, pause: 500 },
+        { x: 100, y: 100 },
+      ],
+    });
+    expect(position(run(lift, 35))).toEqual({ x: 100, y: 0 });
+    expect(position(run(lift, 45))).toEqual({ x: 100, y: 50 });
+  });
+
+  it('uses per-segment speed and easing', () => {
+    const lift = createPlatform({
+      waypoints: [
+        { x: 0, y: 0, speed: 5, easing: 'ease-in-out' },
+        { x: 100, y: 0 },
+      ],
+    });
+    expect(run(lift, 4).x).toBeCloseTo(100 * applyEasing('ease-in-out', 0.2));
+    expect(position(run(lift, 10))).toEqual({ x: 50, y: 0 });
+    expect(position(run(lift, 20))).toEqual({ x: 100, y: 0 });
+  });
+});
@@ -0,0 +1,121 @@
+// Moving platform routes - waypoints with per-segment speed and easing, pauses at stops,
+// and loop / ping-pong / one-way travel. Signals start and stop platforms via isMoving.
+
+import { Easing, PathMode, Platform, PlatformPath, Vector2D } from '../types/game';
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t,
+  'ease-out': (t) => t * (2 - t),
+  'ease-in-out': (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+};
+
+export function applyEasing(easing: Easing, t: number): number {
+  return EASINGS[easing](t);
+}
+
+export function getPathMode(path: PlatformPath): PathMode {
+  return path.mode ?? 'ping-pong';
+}
+
+// The waypoint after `from` when travelling in `direction`
+function getNextWaypoint(path: PlatformPath, from: number, direction: 1 | -1): number {
+  const count = path.waypoints.length;
+  return getPathMode(path) === 'loop' ? (from + 1) % count : from + direction;
+}
+
+// Whether arriving at this waypoint ends the run in this direction
+function isPathEnd(path: PlatformPath, index: number, direction: 1 | -1): boolean {
+  if (getPathMode(path) === 'loop') return false;
+  return direction === 1 ? index === path.waypoints.length - 1 : index === 0;
+}
+
+export function updateMovingPlatforms(
+  platforms: Platform[],
+  deltaTime: number
+): Platform[] {
+  return platforms.map((platform) => {
+    if (platform.type !== 'moving' || !platform.path || platform.isMoving === false) {
+      return platform;
+    }
+    if (platform.path.waypoints.length < 2) return platform;
+    return advancePlatform(platform, platform.path, deltaTime);
+  });
+}
+
+function advancePlatform(platform: Platform, path: PlatformPath, deltaTime: number): Platform {
+  let from = path.from ?? 0;
+  let direction = path.direction ?? 1;
+  let progress = path.progress ?? 0;
+  let pauseRemaining = path.pauseRemaining ?? 0;
+  let isMoving = platform.isMoving;
+  // Steps of travel left this update - any left over on arrival carries on to the next segment
+  let travel = deltaTime / 16.67;
+
+  if (pauseRemaining > 0) {
+    pauseRemaining -= deltaTime;
+    if (pauseRemaining > 0) return { ...platform, path: { ...path, pauseRemaining } };
+  }
+
+  // One pass per segment at most, so zero-length segments can't spin forever
+  for (let i = 0; i < path.waypoints.length && travel > 0; i++) {
+    const segment = getSegment(path, from, direction);
+    const stepsLeft = ((1 - progress) * segment.length) / segment.speed;
+    if (travel < stepsLeft) {
+      progress += (travel * segment.speed) / segment.length;
+      break;
+    }
+
+    // Arrived - turn around (and for one-way paths, stop) at the end of the line
+    travel -= stepsLeft;
+    const isEnd = isPathEnd(path, segment.to, direction);
+    from = segment.to;
+    progress = 0;
+    if (isEnd) direction = -direction as 1 | -1;
+    pauseRemaining = path.waypoints[from].pause ?? 0;
+    if (isEnd && getPathMode(path) === 'one-way') isMoving = false;
+    if (pauseRemaining > 0 || isMoving === false) break;
+  }
+
+  const position = getPathPosition(path, from, direction, progress);
+  return {
+    ...platform,
+    x: position.x,
+    y: position.y,
+    isMoving,
+    path: { ...path, from, direction, progress, pauseRemaining },
+  };
+}
+
+// The segment leaving `from`; its speed and easing belong to its first waypoint in path order
+function getSegment(path: PlatformPath, from: number, direction: 1 | -1) {
+  const to = getNextWaypoint(path, from, direction);
+  const start = path.waypoints[from];
+  const end = path.waypoints[to];
+  const owner = direction === 1 ? start : end;
+  return {
+    to,
+    start,
+    end,
+    length: Math.hypot(end.x - start.x, end.y - start.y),
+    speed: owner.speed ?? path.speed,
+    easing: owner.easing ?? path.easing ?? 'linear',
+  };
+}
+
+function getPathPosition(path: PlatformPath, from: number, direction: 1 | -1, progress: number): Vector2D {
+  if (progress === 0) return { x: path.waypoints[from].x, y: path.waypoints[from].y };
+  const { start, end, easing } = getSegment(path, from, direction);
+  const eased = applyEasing(easing, progress);
+  return { x: start.x + (end.x - start.x) * eased, y: start.y + (end.y - start.y) * eased };
+}
+
+// Waypoint positions traced by the platform's center, for drawing the route
+export function getPathPoints(platform: Platform): Vector2D[] {
+  if (!platform.path) return [];
+  const points = platform.path.waypoints.map((waypoint) => ({
+    x: waypoint.x + platform.width / 2,
+    y: waypoint.y + platform.height / 2,
+  }));
+  return getPathMode(platform.path) === 'loop' ? [...points, points[0]] : points;
+}
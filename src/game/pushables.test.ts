@@ -0,0 +1,122 @@
+// Pushable tests - mass, rolling, stacking, chains, tipping off ledges and riding platforms
+
+import { describe, it, expect } from 'vitest';
+import { LevelData, Platform, PushableObject } from '../types/game';
+import { createTestLevel, runSimulation, InputStep, NO_INPUT } from './headless';
+import { createInitialPlayer } from './simulation';
+import { updatePushablePhysics } from './pushables';
+import { getMovementDeltas } from './physics';
+import { updateMovingPlatforms } from './platformPaths';
+import { FIXED_TIMESTEP, PUSH_SPEED } from './constants';
+
+const FLOOR: Platform = { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' };
+const SETTLE: InputStep = { frames: 30 };
+
+function createPushable(id: string, x: number, y: number, type: PushableObject['type'] = 'box'): PushableObject {
+  return { id, x, y, width: 50, height: 50, type, velocity: { x: 0, y: 0 }, isBeingPushed: false };
+}
+
+const createPushableLevel = (pushableObjects: PushableObject[], platforms: Platform[] = [FLOOR]): LevelData =>
+  createTestLevel({ id: 'pushables', platforms, pushableObjects });
+
+// Step the objects alone, with the player parked out of the way
+function settle(pushables: PushableObject[], platforms: Platform[], frames: number): PushableObject[] {
+  const player = createInitialPlayer({ x: -500, y: 0 });
+  let current = pushables;
+  let currentPlatforms = platforms;
+  for (let i = 0; i < frames; i++) {
+    const next = updateMovingPlatforms(currentPlatforms, FIXED_TIMESTEP);
+    const deltas = getMovementDeltas(currentPlatforms, next);
+    current = updatePushablePhysics(current, player, next, NO_INPUT, FIXED_TIMESTEP, deltas);
+    currentPlatforms = next;
+  }
+  return current;
+}
+
+const pushFor = (level: LevelData, frames: number) =>
+  runSimulation(level, [SETTLE, { frames, input: { right: true, action: true } }]).state.levelData!.pushableObjects;
+
+describe('pushable types', () => {
+  it('pushes heavier objects more slowly', () => {
+    const [box] = pushFor(createPushableLevel([createPushable('box', 130, 570)]), 60);
+    const [boulder] = pushFor(createPushableLevel([createPushable('boulder', 130, 570, 'boulder')]), 60);
+
+    expect(boulder.x - 130).toBeLessThan((box.x - 130) / 2);
+  });
+
+  it('keeps boulders rolling after a shove while boxes scrape to a stop', () => {
+    const shoved = (type: PushableObject['type']) => {
+      const pushable = { ...createPushable(type, 500, 570, type), velocity: { x: 4, y: 0 }, restingOn: 'floor' };
+      return settle([pushable], [FLOOR], 60)[0];
+    };
+    const box = shoved('box');
+    const boulder = shoved('boulder');
+
+    expect(boulder.x).toBeGreaterThan(box.x + 50);
+    expect(boulder.rotation).toBeGreaterThan(1);
+    expect(box.rotation).toBe(0);
+  });
+});
+
+describe('stacking and chains', () => {
+  it('lands a falling object on top of another', () => {
+    const [bottom, top] = settle([createPushable('bottom', 500, 570), createPushable('top', 510, 400)], [FLOOR], 60);
+
+    expect(bottom.y).toBe(570);
+    expect(top.y).toBe(520);
+    expect(top.restingOn).toBe('bottom');
+  });
+
+  it('shoves a line of touching objects together at their combined mass', () => {
+    const [first, second] = pushFor(createPushableLevel([createPushable('a', 130, 570), createPushable('b', 180, 570)]), 60);
+
+    expect(second.x - first.x).toBeCloseTo(50);
+    expect(first.velocity.x).toBeCloseTo(PUSH_SPEED / 2);
+  });
+
+  it('carries a stacked object along with the one being pushed', () => {
+    const [bottom, top] = pushFor(createPushableLevel([createPushable('bottom', 130, 570), createPushable('top', 130, 520)]), 60);
+
+    expect(bottom.x).toBeGreaterThan(160);
+    expect(top.x).toBeCloseTo(bottom.x);
+    expect(top.y).toBe(520);
+  });
+});
+
+describe('ledges and platforms', () => {
+  it('tips off a ledge once pushed past its edge and lands square', () => {
+    const ledge: Platform = { id: 'ledge', x: 0, y: 500, width: 300, height: 220, type: 'solid' };
+    const level = createPushableLevel([createPushable('box', 200, 450)], [ledge, FLOOR]);
+    const result = runSimulation(level, [SETTLE, { frames: 40, input: { right: true, action: true } }, { frames: 90 }], {
+      startPosition: { x: 160, y: 450 },
+    });
+    const [box] = result.state.levelData!.pushableObjects;
+
+    expect(box.y).toBe(570);
+    expect(box.restingOn).toBe('floor');
+    expect(Math.abs(box.rotation! % (Math.PI / 2))).toBeCloseTo(0);
+  });
+
+  it('rides along on a moving platform', () => {
+    const lift: Platform = {
+      id: 'lift',
+      x: 300,
+      y: 500,
+      width: 200,
+      height: 20,
+      type: 'moving',
+      path: {
+        waypoints: [
+          { x: 300, y: 500 },
+          { x: 600, y: 500 },
+        ],
+        speed: 2,
+      },
+    };
+    const [box] = settle([createPushable('box', 350, 450)], [lift, FLOOR], 60);
+
+    expect(box.y).toBe(450);
+    expect(box.restingOn).toBe('lift');
+    expect(box.x - 350).toBeGreaterThan(110);
+  });
+});
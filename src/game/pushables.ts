@@ -0,0 +1,254 @@
+// Pushable objects - pushing and pulling, per-type mass and friction, rolling, stacking,
+// shoving lines of objects, tumbling off ledges and riding moving platforms
+
+import { InputState, Platform, Player, PushableObject, Rectangle, Vector2D } from '../types/game';
+import {
+  GAME_CONFIG,
+  PULL_SPEED,
+  PUSH_SPEED,
+  PUSHABLE_TIP_SPEED,
+  PUSHABLE_TUMBLE_SPEED,
+  PUSHABLE_TYPES,
+} from './constants';
+import { clamp, isPlatformSolid, rectIntersect } from '../utils/collision';
+
+// Which pushables the player is moving this step, and how fast
+interface PlayerDrive {
+  grabbedId: string | null;
+  pulledId: string | null;
+  velocities: Map<string, number>;
+}
+
+type Contact = 'top' | 'bottom' | 'side';
+
+export function getPushableMass(pushable: PushableObject): number {
+  return pushable.mass ?? PUSHABLE_TYPES[pushable.type].mass;
+}
+
+export function updatePushablePhysics(
+  pushables: PushableObject[],
+  player: Player,
+  platforms: Platform[],
+  input: InputState,
+  deltaTime: number,
+  carrierDeltas: Map<string, Vector2D> = new Map()
+): PushableObject[] {
+  const dt = deltaTime / 16.67;
+  const drive = getPlayerDrive(pushables, player, platforms, input, dt);
+  const solids = platforms.filter(isPlatformSolid);
+  const result = pushables.map((pushable) => ({ ...pushable, velocity: { ...pushable.velocity } }));
+  const moved = new Map<string, Vector2D>();
+
+  // Lowest objects first, so anything stacked on them follows this step's move. Side by side,
+  // the front of a shoved line goes first so the ones behind don't bump into it.
+  const direction = Math.sign([...drive.velocities.values()][0] ?? 0);
+  const order = result
+    .map((_, index) => index)
+    .sort((a, b) => {
+      const bottomA = result[a].y + result[a].height;
+      const bottomB = result[b].y + result[b].height;
+      return bottomA !== bottomB ? bottomB - bottomA : (result[b].x - result[a].x) * direction;
+    });
+
+  for (const index of order) {
+    const pushable = result[index];
+    const config = PUSHABLE_TYPES[pushable.type];
+    const start = { x: pushable.x, y: pushable.y };
+
+    // Ride along with the platform or object underneath
+    const carry = pushable.restingOn
+      ? (carrierDeltas.get(pushable.restingOn) ?? moved.get(pushable.restingOn))
+      : undefined;
+    if (carry) {
+      pushable.x += carry.x;
+      pushable.y += carry.y;
+    }
+    const before: Rectangle = { x: pushable.x, y: pushable.y, width: pushable.width, height: pushable.height };
+
+    const driven = drive.velocities.get(pushable.id);
+    if (driven !== undefined) {
+      pushable.velocity.x = driven;
+    } else if (pushable.restingOn) {
+      pushable.velocity.x *= Math.pow(config.friction, dt);
+    }
+    pushable.isBeingPushed = driven !== undefined || drive.grabbedId === pushable.id;
+    pushable.isBeingPulled = drive.pulledId === pushable.id;
+
+    // Apply gravity to pushables
+    pushable.velocity.y += GAME_CONFIG.gravity * dt;
+    pushable.velocity.y = clamp(pushable.velocity.y, -20, 20);
+
+    // Update position
+    pushable.x += pushable.velocity.x * dt;
+    pushable.y += pushable.velocity.y * dt;
+
+    pushable.restingOn = null;
+    const supports: Rectangle[] = [];
+
+    for (const platform of solids) {
+      const contact = separate(pushable, before, platform, platform.type === 'one-way');
+      if (contact === 'top') {
+        pushable.restingOn = platform.id;
+        supports.push(platform);
+      }
+    }
+
+    // Other objects - ones already moved this step are at their new spot
+    for (const other of result) {
+      if (other === pushable) continue;
+      const velocityX = pushable.velocity.x;
+      const contact = separate(pushable, before, other, false);
+      if (contact === 'top') {
+        pushable.restingOn = other.id;
+        supports.push(other);
+      } else if (contact === 'side' && driven === undefined) {
+        // Bumping into another object shares the momentum between them
+        const mass = getPushableMass(pushable);
+        const otherMass = getPushableMass(other);
+        const shared = (mass * velocityX + otherMass * other.velocity.x) / (mass + otherMass);
+        pushable.velocity.x = shared;
+        other.velocity.x = shared;
+      }
+    }
+
+    // Tip off an edge once the center of mass hangs past everything holding it up
+    let isTipping = false;
+    if (supports.length > 0) {
+      const centerX = pushable.x + pushable.width / 2;
+      const left = Math.min(...supports.map((s) => s.x));
+      const right = Math.max(...supports.map((s) => s.x + s.width));
+      if (centerX < left || centerX > right) {
+        const tipDirection = centerX < left ? -1 : 1;
+        pushable.velocity.x = tipDirection * Math.max(Math.abs(pushable.velocity.x), PUSHABLE_TIP_SPEED);
+        isTipping = true;
+        if (!config.rolls) pushable.angularVelocity = tipDirection * PUSHABLE_TUMBLE_SPEED;
+      }
+    }
+
+    // Round objects turn with the distance they roll; boxes tumble while falling and land square
+    if (config.rolls && supports.length > 0) {
+      pushable.angularVelocity = pushable.velocity.x / (pushable.height / 2);
+    } else if (!config.rolls && supports.length > 0 && !isTipping) {
+      const quarterTurn = Math.PI / 2;
+      pushable.rotation = Math.round((pushable.rotation ?? 0) / quarterTurn) * quarterTurn;
+      pushable.angularVelocity = 0;
+    }
+    pushable.rotation = (pushable.rotation ?? 0) + (pushable.angularVelocity ?? 0) * dt;
+
+    moved.set(pushable.id, { x: pushable.x - start.x, y: pushable.y - start.y });
+  }
+
+  return result;
+}
+
+// Pushing shoves everything lined up in front, slower the heavier the line.
+// Pulling drags only the held object, and only as far as the player has room to back into.
+function getPlayerDrive(
+  pushables: PushableObject[],
+  player: Player,
+  platforms: Platform[],
+  input: InputState,
+  dt: number
+): PlayerDrive {
+  const drive: PlayerDrive = { grabbedId: null, pulledId: null, velocities: new Map() };
+  if (!input.action || !player.isGrounded) return drive;
+
+  const playerRight = player.position.x + player.width;
+  const playerBottom = player.position.y + player.height;
+
+  for (const pushable of pushables) {
+    const isRightOfPlayer = Math.abs(playerRight - pushable.x) < 10;
+    const isLeftOfPlayer = Math.abs(player.position.x - (pushable.x + pushable.width)) < 10;
+    const isOverlappingY = playerBottom > pushable.y + 10 && player.position.y < pushable.y + pushable.height - 10;
+    if (!(isRightOfPlayer || isLeftOfPlayer) || !isOverlappingY) continue;
+
+    drive.grabbedId = pushable.id;
+
+    if ((input.right && isRightOfPlayer) || (input.left && isLeftOfPlayer)) {
+      const direction = input.right ? 1 : -1;
+      const chain = getPushChain(pushables, pushable, direction);
+      const speed = PUSH_SPEED / chain.reduce((total, p) => total + getPushableMass(p), 0);
+      chain.forEach((p) => drive.velocities.set(p.id, direction * speed));
+    } else if ((input.left && isRightOfPlayer) || (input.right && isLeftOfPlayer)) {
+      const direction = input.left ? -1 : 1;
+      const speed = PULL_SPEED / getPushableMass(pushable);
+      const behind: Rectangle = { ...player.position, width: player.width, height: player.height };
+      behind.x += direction * speed * dt;
+      const isBlocked =
+        platforms.some((p) => p.type !== 'one-way' && isPlatformSolid(p) && rectIntersect(behind, p)) ||
+        pushables.some((other) => other.id !== pushable.id && rectIntersect(behind, other));
+      drive.velocities.set(pushable.id, isBlocked ? 0 : direction * speed);
+      drive.pulledId = isBlocked ? null : pushable.id;
+    }
+    return drive;
+  }
+
+  return drive;
+}
+
+// The held object plus every object touching the next one along in the push direction
+function getPushChain(pushables: PushableObject[], first: PushableObject, direction: number): PushableObject[] {
+  const chain = [first];
+  let next = findTouchingAhead(pushables, first, direction, chain);
+  while (next) {
+    chain.push(next);
+    next = findTouchingAhead(pushables, next, direction, chain);
+  }
+  return chain;
+}
+
+function findTouchingAhead(
+  pushables: PushableObject[],
+  from: PushableObject,
+  direction: number,
+  exclude: PushableObject[]
+): PushableObject | undefined {
+  return pushables.find((other) => {
+    if (exclude.includes(other)) return false;
+    const gap = direction > 0 ? other.x - (from.x + from.width) : from.x - (other.x + other.width);
+    const isOverlappingY = from.y < other.y + other.height - 1 && other.y < from.y + from.height - 1;
+    return gap >= -1 && gap <= 1 && isOverlappingY;
+  });
+}
+
+// Move an object back out of a solid it ran into. Which face it hit is judged from where it
+// came from; one-way platforms only catch objects landing on top.
+function separate(pushable: PushableObject, before: Rectangle, solid: Rectangle, isOneWay: boolean): Contact | null {
+  if (!rectIntersect(pushable, solid)) return null;
+
+  if (before.y + before.height <= solid.y + 1) {
+    pushable.y = solid.y - pushable.height;
+    pushable.velocity.y = 0;
+    return 'top';
+  }
+  if (isOneWay) return null;
+
+  if (before.y >= solid.y + solid.height - 1) {
+    pushable.y = solid.y + solid.height;
+    pushable.velocity.y = Math.max(0, pushable.velocity.y);
+    return 'bottom';
+  }
+  if (before.x + before.width <= solid.x + 1) {
+    pushable.x = solid.x - pushable.width;
+    pushable.velocity.x = 0;
+    return 'side';
+  }
+  if (before.x >= solid.x + solid.width - 1) {
+    pushable.x = solid.x + solid.width;
+    pushable.velocity.x = 0;
+    return 'side';
+  }
+
+  // Already overlapping before it moved (placed inside, or shoved by a door) - shortest way out
+  const overlapTop = pushable.y + pushable.height - solid.y;
+  const overlapLeft = pushable.x + pushable.width - solid.x;
+  const overlapRight = solid.x + solid.width - pushable.x;
+  if (overlapTop < overlapLeft && overlapTop < overlapRight) {
+    pushable.y = solid.y - pushable.height;
+    pushable.velocity.y = 0;
+    return 'top';
+  }
+  pushable.x = overlapLeft < overlapRight ? solid.x - pushable.width : solid.x + solid.width;
+  pushable.velocity.x = 0;
+  return 'side';
+}
@@ -0,0 +1,17 @@
+// Seeded random number generator for the simulation
+// Anything random that affects gameplay must come from here so replays stay deterministic.
+
+// Pick a fresh seed for a new play session (not for use inside the simulation)
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+// Mulberry32 - returns a value in [0, 1) and the next generator state
+export function nextRandom(rngState: number): { value: number; rngState: number } {
+  const next = (rngState + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return { value, rngState: next };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { GameState } from '../types/game';
+import { level1 } from '../levels';
+import { expandInputScript, createHeadlessState } from './headless';
+import { stepWorld } from './simulation';
+import {
+  createReplay,
+  createReplayStartState,
+  applyReplayFrame,
+  encodeInput,
+  decodeInput,
+  serializeReplay,
+  parseReplay,
+  seekReplay,
+  REPLAY_KEYFRAME_INTERVAL,
+  REPLAY_KILL_BIT,
+} from './replay';
+
+const inputs = expandInputScript([
+  { frames: 30 },
+  { frames: 90, input: { right: true } },
+  { frames: 12, input: { right: true, jump: true } },
+  { frames: 200, input: { right: true, action: true } },
+]);
+
+describe('replay', () => {
+  it('round-trips input bitmasks', () => {
+    const input = { left: true, right: false, jump: true, action: true };
+    expect(decodeInput(encodeInput(input))).toEqual(input);
+  });
+
+  it('run-length encodes frames and parses them back', () => {
+    const replay = createReplay(level1.id, 42);
+    replay.frames = inputs.map(encodeInput);
+
+    const text = serializeReplay(replay);
+    expect(JSON.parse(text).inputs).toHaveLength(4);
+    expect(parseReplay(text)).toEqual(replay);
+  });
+
+  it('starts replays recorded from a saved checkpoint at that checkpoint', () => {
+    const replay = createReplay(level1.id, 3, 'cp-1');
+    expect(parseReplay(serializeReplay(replay)).checkpointId).toBe('cp-1');
+
+    const startState = createReplayStartState(replay, level1, 0);
+    const checkpoint = level1.checkpoints.find((cp) => cp.id === 'cp-1')!;
+    expect(startState.player.position.x).toBe(checkpoint.x);
+    expect(startState.levelData!.checkpoints.find((cp) => cp.id === 'cp-1')!.isActivated).toBe(true);
+  });
+
+  it('starts from the saved snapshot the live game resumed with', () => {
+    const checkpoint = level1.checkpoints.find((cp) => cp.id === 'cp-1')!;
+    const snapshot = { ...level1, pushableObjects: level1.pushableObjects.map((obj) => ({ ...obj, x: obj.x + 40 })) };
+    const replay = parseReplay(serializeReplay(createReplay(level1.id, 3, checkpoint.id, snapshot)));
+
+    expect(replay.checkpointSnapshot).toEqual(snapshot);
+    expect(createReplayStartState(replay, level1, 0).levelData!.pushableObjects[0].x).toBe(snapshot.pushableObjects[0].x);
+  });
+
+  it('replays a debug kill as a death at the step it was recorded', () => {
+    const replay = createReplay(level1.id, 7);
+    replay.frames = [...inputs.slice(0, 60).map(encodeInput), REPLAY_KILL_BIT, ...inputs.slice(60, 90).map(encodeInput)];
+
+    const startState = createReplayStartState(replay, level1, 0);
+    const beforeKill = seekReplay(replay, startState, 60, []);
+    const afterKill = seekReplay(replay, startState, 61, []);
+    expect(beforeKill.player.isDead).toBe(false);
+    expect(afterKill.player.isDead).toBe(true);
+    expect(afterKill.deathCount).toBe(1);
+    expect(applyReplayFrame(beforeKill, REPLAY_KILL_BIT).events).toEqual([{ type: 'death', hazardId: 'debug' }]);
+
+    // Dead until restarted, however much input follows
+    const end = seekReplay(replay, startState, replay.frames.length, []);
+    expect(end.player.position).toEqual(afterKill.player.position);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseReplay('not json')).toThrow('not valid JSON');
+    expect(() => parseReplay(JSON.stringify({ version: 99 }))).toThrow('Unsupported replay version');
+    expect(() =>
+      parseReplay(JSON.stringify({ version: 1, levelId: 'x', seed: 0, frameCount: 5, inputs: [[0, 2]] }))
+    ).toThrow('frame count mismatch');
+  });
+
+  it('reproduces the recorded session when seeking', () => {
+    const replay = createReplay(level1.id, 7);
+    replay.frames = inputs.map(encodeInput);
+
+    let live = createHeadlessState(level1, { seed: 7 });
+    for (const input of inputs) live = stepWorld(live, input).state;
+
+    const keyframes: GameState[] = [];
+    const startState = createReplayStartState(replay, level1, 0);
+    const end = seekReplay(replay, startState, inputs.length, keyframes);
+
+    expect(end.player).toEqual(live.player);
+    expect(end.levelData).toEqual(live.levelData);
+    expect(keyframes.length).toBe(Math.floor(inputs.length / REPLAY_KEYFRAME_INTERVAL) + 1);
+
+    // Seeking backwards reuses keyframes and lands on the same state as a fresh run
+    const middle = seekReplay(replay, startState, 150, keyframes);
+    expect(middle).toEqual(seekReplay(replay, startState, 150, []));
+  });
+});
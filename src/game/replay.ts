@@ -0,0 +1,159 @@
+// Input recording and deterministic replay
+// A replay is the level id, the RNG seed and one packed input per fixed step.
+// Feeding those inputs back through stepWorld reproduces the session exactly.
+
+import { GameState, InputState, LevelData, ReplayData, ReplayFile, WorldStepResult } from '../types/game';
+import { createInitialGameState, killPlayer, respawnPlayer, startAtCheckpoint, stepWorld } from './simulation';
+import { validateLevel } from '../levels/loader';
+
+export const REPLAY_VERSION = 1;
+
+// Snapshot spacing used to make scrubbing cheap on long replays
+export const REPLAY_KEYFRAME_INTERVAL = 120;
+
+const INPUT_BITS = {
+  left: 1,
+  right: 2,
+  jump: 4,
+  action: 8,
+};
+
+// Not an input: marks the point where the player pressed restart after dying
+export const REPLAY_RESTART_BIT = 16;
+// Not an input either: the debug kill, so a replay dies where the session did
+export const REPLAY_KILL_BIT = 32;
+const DEBUG_KILL_ID = 'debug';
+
+export function encodeInput(input: InputState): number {
+  return (
+    (input.left ? INPUT_BITS.left : 0) |
+    (input.right ? INPUT_BITS.right : 0) |
+    (input.jump ? INPUT_BITS.jump : 0) |
+    (input.action ? INPUT_BITS.action : 0)
+  );
+}
+
+export function decodeInput(bits: number): InputState {
+  return {
+    left: (bits & INPUT_BITS.left) !== 0,
+    right: (bits & INPUT_BITS.right) !== 0,
+    jump: (bits & INPUT_BITS.jump) !== 0,
+    action: (bits & INPUT_BITS.action) !== 0,
+  };
+}
+
+export function createReplay(
+  levelId: string,
+  seed: number,
+  checkpointId?: string,
+  checkpointSnapshot?: LevelData
+): ReplayData {
+  return { levelId, seed, checkpointId, checkpointSnapshot, frames: [] };
+}
+
+// The state a replay starts from - must match how the live game starts a level
+export function createReplayStartState(replay: ReplayData, levelData: LevelData, levelIndex: number): GameState {
+  const state = { ...createInitialGameState(levelData, levelIndex, replay.seed), isPlaying: true };
+  return replay.checkpointId ? startAtCheckpoint(state, replay.checkpointId, replay.checkpointSnapshot) : state;
+}
+
+// Apply one recorded frame: a restart, a debug kill or a regular simulation step
+export function applyReplayFrame(state: GameState, bits: number): WorldStepResult {
+  if (bits & REPLAY_RESTART_BIT) {
+    return { state: respawnPlayer(state), events: [] };
+  }
+  if (bits & REPLAY_KILL_BIT) {
+    return killPlayer(state, DEBUG_KILL_ID);
+  }
+  return stepWorld(state, decodeInput(bits));
+}
+
+// Simulate from the start (or the nearest cached keyframe) up to a frame.
+// keyframes[i] holds the state before frame i * REPLAY_KEYFRAME_INTERVAL and is filled in as we go.
+export function seekReplay(
+  replay: ReplayData,
+  startState: GameState,
+  targetFrame: number,
+  keyframes: GameState[]
+): GameState {
+  const frame = Math.max(0, Math.min(targetFrame, replay.frames.length));
+  if (keyframes.length === 0) keyframes.push(startState);
+
+  let index = Math.min(Math.floor(frame / REPLAY_KEYFRAME_INTERVAL), keyframes.length - 1);
+  let state = keyframes[index];
+
+  for (let f = index * REPLAY_KEYFRAME_INTERVAL; f < frame; f++) {
+    state = applyReplayFrame(state, replay.frames[f]).state;
+    if ((f + 1) % REPLAY_KEYFRAME_INTERVAL === 0) {
+      index = (f + 1) / REPLAY_KEYFRAME_INTERVAL;
+      keyframes[index] = state;
+    }
+  }
+
+  return state;
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  const inputs: [number, number][] = [];
+  for (const bits of replay.frames) {
+    const last = inputs[inputs.length - 1];
+    if (last && last[0] === bits) {
+      last[1] += 1;
+    } else {
+      inputs.push([bits, 1]);
+    }
+  }
+
+  const file: ReplayFile = {
+    version: REPLAY_VERSION,
+    levelId: replay.levelId,
+    seed: replay.seed,
+    checkpointId: replay.checkpointId,
+    checkpointSnapshot: replay.checkpointSnapshot,
+    frameCount: replay.frames.length,
+    inputs,
+  };
+  return JSON.stringify(file);
+}
+
+export function parseReplay(text: string): ReplayData {
+  let file: Partial<ReplayFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (file.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${file.version}`);
+  }
+  if (typeof file.levelId !== 'string' || typeof file.seed !== 'number' || !Array.isArray(file.inputs)) {
+    throw new Error('Replay file is missing levelId, seed or inputs');
+  }
+  if (file.checkpointId !== undefined && typeof file.checkpointId !== 'string') {
+    throw new Error('Replay file has an invalid checkpointId');
+  }
+  if (file.checkpointSnapshot !== undefined && validateLevel(file.checkpointSnapshot).length > 0) {
+    throw new Error('Replay file has an invalid checkpointSnapshot');
+  }
+
+  const frames: number[] = [];
+  for (const run of file.inputs) {
+    if (!Array.isArray(run) || !Number.isInteger(run[0]) || !Number.isInteger(run[1]) || run[1] < 1) {
+      throw new Error('Replay file has a malformed input run');
+    }
+    for (let i = 0; i < run[1]; i++) frames.push(run[0]);
+  }
+
+  if (file.frameCount !== undefined && file.frameCount !== frames.length) {
+    throw new Error(`Replay frame count mismatch: expected ${file.frameCount}, got ${frames.length}`);
+  }
+
+  return {
+    levelId: file.levelId,
+    seed: file.seed,
+    checkpointId: file.checkpointId,
+    checkpointSnapshot: file.checkpointSnapshot,
+    frames,
+  };
+}
@@ -0,0 +1,131 @@
+// Rope tests - swinging, climbing, letting go, draping over edges and loads tied to the end
+
+import { describe, it, expect } from 'vitest';
+import { LevelData, PushableObject, Rope } from '../types/game';
+import { createTestLevel, InputStep, runSimulation } from './headless';
+
+// A rope hanging at x=1000 beside a block whose lower-left corner is at (1010, 200)
+const ROPE: Rope = { id: 'rope', anchorX: 1000, anchorY: 100, length: 300 };
+
+const createRopeLevel = (ropes: Rope[], pushableObjects: PushableObject[] = []): LevelData =>
+  createTestLevel({
+    id: 'ropes',
+    width: 3000,
+    platforms: [
+      { id: 'floor', x: 0, y: 620, width: 3000, height: 100, type: 'solid' },
+      { id: 'block', x: 1010, y: 60, width: 200, height: 140, type: 'solid' },
+    ],
+    pushableObjects,
+    ropes,
+    exitZone: { x: 2950, y: 0, width: 50, height: 50 },
+  });
+
+// Grabbed three quarters of the way down, hanging still
+const GRAB: InputStep = { frames: 5, input: { action: true } };
+const onRope = { startPosition: { x: 985, y: 300 } };
+const center = (state: { player: { position: { x: number; y: number } } }) => ({
+  x: state.player.position.x + 15,
+  y: state.player.position.y + 25,
+});
+
+describe('hanging and swinging', () => {
+  it('pulls the rope out of line when swung on, keeping within its length', () => {
+    const { state } = runSimulation(createRopeLevel([ROPE]), [GRAB, { frames: 60, input: { left: true } }], onRope);
+    const hands = center(state);
+
+    expect(state.player.isOnRope).toBe(true);
+    expect(hands.x).toBeLessThan(980);
+    expect(Math.hypot(hands.x - 1000, hands.y - 100)).toBeLessThanOrEqual(state.player.ropeGrip!.distance + 0.5);
+  });
+
+  it('climbs up with jump and down with grab, but not on presses held from the grab', () => {
+    const level = createRopeLevel([ROPE]);
+    const held = runSimulation(level, [{ frames: 35, input: { action: true, jump: true } }], onRope);
+    expect(held.state.player.ropeGrip!.distance).toBeCloseTo(225, 0);
+
+    const up = runSimulation(level, [GRAB, { frames: 5 }, { frames: 30, input: { jump: true } }], onRope);
+    const down = runSimulation(level, [GRAB, { frames: 5 }, { frames: 30, input: { action: true } }], onRope);
+    expect(up.state.player.ropeGrip!.distance).toBeCloseTo(165, 0);
+    expect(down.state.player.ropeGrip!.distance).toBeCloseTo(285, 0);
+  });
+
+  it('uses per-rope tuning over the defaults', () => {
+    const level = createRopeLevel([{ ...ROPE, climbSpeed: 4 }]);
+    const { state } = runSimulation(level, [GRAB, { frames: 5 }, { frames: 10, input: { jump: true } }], onRope);
+    expect(state.player.ropeGrip!.distance).toBeCloseTo(185, 0);
+  });
+
+  it('lets go with jump and a direction, carrying the swing', () => {
+    const level = createRopeLevel([ROPE]);
+    const swinging: InputStep[] = [GRAB, { frames: 40, input: { left: true } }];
+    const before = runSimulation(level, swinging, onRope).state.player.velocity;
+    const { state } = runSimulation(level, [...swinging, { frames: 1, input: { left: true, jump: true } }], onRope);
+
+    expect(state.player.isOnRope).toBe(false);
+    expect(state.player.ropeGrip).toBeNull();
+    expect(Math.sign(state.player.velocity.x)).toBe(Math.sign(before.x));
+    expect(state.player.velocity.y).toBeLessThan(-2);
+  });
+
+  it('does not catch the rope again with the grab held through the release', () => {
+    const level = createRopeLevel([ROPE]);
+    const held = { left: true, action: true };
+    let framesOnRope = 0;
+    runSimulation(level, [GRAB, { frames: 40, input: held }, { frames: 1, input: { ...held, jump: true } }, { frames: 10, input: held }], {
+      ...onRope,
+      until: (state) => {
+        framesOnRope = state.player.isOnRope ? framesOnRope + 1 : 0;
+        return false;
+      },
+    });
+
+    expect(framesOnRope).toBe(0);
+  });
+});
+
+describe('draping and loads', () => {
+  it('wraps around a corner and swings about it', () => {
+    const { state } = runSimulation(
+      createRopeLevel([ROPE]),
+      [GRAB, { frames: 5 }, { frames: 60, input: { action: true } }, { frames: 120, input: { right: true } }],
+      onRope
+    );
+    const hands = center(state);
+    const points = state.levelData!.ropes[0].points!;
+    const isInsideBlock = points.some((p) => p.x > 1010 && p.x < 1210 && p.y > 60 && p.y < 200);
+
+    expect(hands.x).toBeGreaterThan(1010);
+    expect(isInsideBlock).toBe(false);
+    // Only the rope left past the corner reaches
+    const pastCorner = 300 - Math.hypot(10, 100);
+    expect(Math.hypot(hands.x - 1010, hands.y - 200)).toBeLessThanOrEqual(pastCorner + 1);
+  });
+
+  it('swings a tied box that would otherwise fall', () => {
+    const box: PushableObject = {
+      id: 'box',
+      x: 1675,
+      y: 200,
+      width: 50,
+      height: 50,
+      type: 'box',
+      velocity: { x: 0, y: 0 },
+      isBeingPushed: false,
+    };
+    const tied: Rope = { id: 'tied', anchorX: 1500, anchorY: 100, length: 200, angle: 1.2, loadId: 'box' };
+    let lowest = 0;
+    let leftmost = Infinity;
+    runSimulation(createRopeLevel([tied], [box]), [{ frames: 120 }], {
+      until: (state) => {
+        const [b] = state.levelData!.pushableObjects;
+        expect(Math.hypot(b.x + 25 - 1500, b.y - 100)).toBeLessThanOrEqual(200.5);
+        lowest = Math.max(lowest, b.y);
+        leftmost = Math.min(leftmost, b.x);
+        return false;
+      },
+    });
+
+    expect(lowest).toBeGreaterThan(295);
+    expect(leftmost).toBeLessThan(1400);
+  });
+});
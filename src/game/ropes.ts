@@ -0,0 +1,407 @@
+// Ropes - verlet chains pinned at the anchor. They drape around platforms, swing with whoever
+// hangs on them and with loads tied to their end. The player climbs up with jump, slides down
+// with grab and lets go with jump plus a direction, keeping the hands' speed.
+
+import { InputFrame, Platform, Player, PushableObject, Rope, RopeConfig, RopePoint, Vector2D } from '../types/game';
+import { GAME_CONFIG, ROPE_DEFAULTS, ROPE_ITERATIONS, ROPE_MIN_GRIP } from './constants';
+import { clamp, isPlatformSolid, rectIntersect } from '../utils/collision';
+
+// A spot along the chain: between points[index] and points[index + 1]
+interface RopeSpot extends Vector2D {
+  index: number;
+  fraction: number;
+}
+
+// Something hanging on the rope, `distance` down it from the anchor
+interface RopePin extends RopeSpot {
+  distance: number;
+}
+
+export function getRopeConfig(rope: Rope): RopeConfig {
+  return {
+    segments: rope.segments ?? ROPE_DEFAULTS.segments,
+    grabDistance: rope.grabDistance ?? ROPE_DEFAULTS.grabDistance,
+    swingAccel: rope.swingAccel ?? ROPE_DEFAULTS.swingAccel,
+    damping: rope.damping ?? ROPE_DEFAULTS.damping,
+    maxSwingSpeed: rope.maxSwingSpeed ?? ROPE_DEFAULTS.maxSwingSpeed,
+    climbSpeed: rope.climbSpeed ?? ROPE_DEFAULTS.climbSpeed,
+  };
+}
+
+// The chain as it is, or laid out straight from the anchor at its starting lean
+export function getRopePoints(rope: Rope): RopePoint[] {
+  if (rope.points) return rope.points;
+
+  const { segments } = getRopeConfig(rope);
+  const angle = rope.angle ?? 0;
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const distance = (rope.length * i) / segments;
+    const x = rope.anchorX + Math.sin(angle) * distance;
+    const y = rope.anchorY + Math.cos(angle) * distance;
+    return { x, y, prevX: x, prevY: y };
+  });
+}
+
+export function updateRopes(
+  ropes: Rope[],
+  player: Player,
+  pushables: PushableObject[],
+  platforms: Platform[],
+  input: InputFrame,
+  deltaTime: number
+): { ropes: Rope[]; player: Player; pushableObjects: PushableObject[] } {
+  const dt = deltaTime / 16.67;
+  const solids = platforms.filter((p) => p.type !== 'one-way' && isPlatformSolid(p));
+  let newPlayer = player;
+  let pushableObjects = pushables;
+
+  const newRopes = ropes.map((rope) => {
+    if (rope.isEnabled === false) return rope;
+
+    const config = getRopeConfig(rope);
+    const segmentLength = rope.length / config.segments;
+    const before = getRopePoints(rope);
+    const points = before.map((p) => ({ ...p }));
+
+    // Whatever hangs on the rope pins it, held within reach of the anchor - or of the last
+    // edge the rope is draped over, which is what it swings around
+    const pins: RopePin[] = [];
+    let pivot: RopePin = { x: rope.anchorX, y: rope.anchorY, index: 0, fraction: 0, distance: 0 };
+
+    const isHeld = newPlayer.isOnRope && newPlayer.attachedRopeId === rope.id && newPlayer.ropeGrip !== null;
+    const grip = isHeld ? climb(newPlayer, rope, input, config, dt) : 0;
+    if (isHeld) {
+      const spot = getSpotAt(before, grip, segmentLength);
+      const hands = swing(newPlayer, before[Math.max(0, spot.index - 1)], input, config, dt);
+      pivot = findPivot(before, pivot, spot.index, segmentLength, solids);
+      holdWithin(hands, pivot, grip - pivot.distance);
+      keepBodyClear(hands, newPlayer, solids);
+      pivot = { ...spot, ...hands, distance: grip };
+      pins.push(pivot);
+    }
+
+    const load = rope.loadId ? pushableObjects.find((p) => p.id === rope.loadId) : undefined;
+    let loadVelocity = load?.velocity;
+    if (load) {
+      const knot = { x: load.x + load.width / 2, y: load.y };
+      pivot = findPivot(before, pivot, before.length - 2, segmentLength, solids);
+      if (holdWithin(knot, pivot, rope.length - pivot.distance)) loadVelocity = stopOutward(load.velocity, knot, pivot);
+      pins.push({ index: points.length - 2, fraction: 1, ...knot, distance: rope.length });
+    }
+
+    integrate(points, config.damping, dt);
+    solve(points, pins, segmentLength, solids);
+
+    if (load) {
+      const knot = pins[pins.length - 1];
+      pushableObjects = pushableObjects.map((p) =>
+        p.id === load.id ? { ...p, x: knot.x - p.width / 2, y: knot.y, velocity: loadVelocity ?? p.velocity } : p
+      );
+    }
+
+    if (isHeld) {
+      newPlayer = hangAt(newPlayer, pins[0], grip, dt);
+    }
+
+    return { ...rope, points };
+  });
+
+  return { ropes: newRopes, player: newPlayer, pushableObjects };
+}
+
+// Check if player can grab a rope and handle attachment
+export function checkRopeGrab(player: Player, ropes: Rope[], input: InputFrame): { player: Player; ropes: Rope[] } {
+  // Hands are busy hanging from a ledge
+  if (player.ledge) {
+    return { player, ropes };
+  }
+
+  // If already on rope, check for jump release
+  if (player.isOnRope) {
+    // A rope pulled up by a signal drops whoever is hanging on it
+    const attachedRope = ropes.find((r) => r.id === player.attachedRopeId);
+    if (attachedRope?.isEnabled === false) {
+      return { player: letGoOfRope(player), ropes };
+    }
+
+    // Jump with a direction lets go - jump alone climbs. Only a fresh press counts.
+    const { jump, action, left, right } = input.actions;
+    if (jump.pressed && left.held !== right.held) {
+      // Keep the swing's momentum, plus a small upward boost
+      const released = letGoOfRope(player);
+      released.velocity.y = Math.min(released.velocity.y - 5, -3);
+      released.consumedJumpPress = jump.pressedAt;
+      released.consumedGrabPress = action.pressedAt;
+      released.facingRight = right.held;
+      released.isJumping = true;
+      released.animationState = 'jumping';
+      return { player: released, ropes };
+    }
+    return { player, ropes };
+  }
+
+  // Check for rope grab (action button while in air or jumping)
+  // Allow grab if pressing action and either not grounded OR moving upward (jumping).
+  // A grab held through letting go doesn't count - it would catch the same rope straight back.
+  const isInAir = !player.isGrounded || player.velocity.y < 0;
+  const { action } = input.actions;
+  if (!action.held || action.pressedAt <= player.consumedGrabPress || !isInAir) {
+    return { player, ropes };
+  }
+
+  const center = { x: player.position.x + player.width / 2, y: player.position.y + player.height / 2 };
+
+  for (const rope of ropes) {
+    if (rope.isEnabled === false) continue;
+
+    const config = getRopeConfig(rope);
+    const segmentLength = rope.length / config.segments;
+    const points = getRopePoints(rope);
+    const grip = findClosestDistance(points, center, segmentLength);
+    const spot = getSpotAt(points, grip, segmentLength);
+    if (Math.hypot(center.x - spot.x, center.y - spot.y) >= config.grabDistance) continue;
+
+    // The hands pull the rope to them, and it takes on the player's momentum
+    const shift = { x: center.x - spot.x, y: center.y - spot.y };
+    const grabbed = points.map((point, i) => {
+      if (i === 0 || (i !== spot.index && i !== spot.index + 1)) return point;
+      const x = point.x + shift.x;
+      const y = point.y + shift.y;
+      return { x, y, prevX: x - player.velocity.x, prevY: y - player.velocity.y };
+    });
+
+    return {
+      player: {
+        ...player,
+        isOnRope: true,
+        attachedRopeId: rope.id,
+        ropeGrip: { distance: grip, grabbedAt: input.frame },
+        isGrounded: false,
+        groundId: null,
+        isJumping: false,
+        animationState: 'swinging',
+      },
+      ropes: ropes.map((r) => (r.id === rope.id ? { ...r, points: grabbed } : r)),
+    };
+  }
+
+  return { player, ropes };
+}
+
+// Move the grip up while jump is held, down while grab is held - only for presses made on the rope
+function climb(player: Player, rope: Rope, input: InputFrame, config: RopeConfig, dt: number): number {
+  const { jump, action, left, right } = input.actions;
+  const { distance, grabbedAt } = player.ropeGrip!;
+  const isClimbingUp = jump.held && jump.pressedAt > grabbedAt && left.held === right.held;
+  const isClimbingDown = action.held && action.pressedAt > grabbedAt;
+  const step = (Number(isClimbingDown) - Number(isClimbingUp)) * config.climbSpeed * dt;
+  return clamp(distance + step, ROPE_MIN_GRIP, rope.length);
+}
+
+function integrate(points: RopePoint[], damping: number, dt: number): void {
+  const drag = Math.pow(damping, dt);
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const vx = (point.x - point.prevX) * drag;
+    const vy = (point.y - point.prevY) * drag;
+    point.prevX = point.x;
+    point.prevY = point.y;
+    point.x += vx;
+    point.y += vy + GAME_CONFIG.gravity * dt * dt;
+  }
+}
+
+// Where the hands go this step: momentum, gravity and pumping across the rope, under the speed cap
+function swing(player: Player, above: Vector2D, input: InputFrame, config: RopeConfig, dt: number): Vector2D {
+  const hands = { x: player.position.x + player.width / 2, y: player.position.y + player.height / 2 };
+  const drag = Math.pow(config.damping, dt);
+  let vx = player.velocity.x * drag;
+  let vy = player.velocity.y * drag + GAME_CONFIG.gravity * 0.8 * dt; // Slightly reduced for better feel
+
+  const dx = hands.x - above.x;
+  const dy = hands.y - above.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const direction = Number(input.actions.right.held) - Number(input.actions.left.held);
+  vx += (dy / length) * direction * config.swingAccel * dt;
+  vy += (-dx / length) * direction * config.swingAccel * dt;
+  vx = clamp(vx, -config.maxSwingSpeed, config.maxSwingSpeed);
+
+  return { x: hands.x + vx * dt, y: hands.y + vy * dt };
+}
+
+// A taut rope: no further from the pivot than the length of rope between them. True if it pulled.
+function holdWithin(point: Vector2D, pivot: Vector2D, reach: number): boolean {
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance <= reach) return false;
+  point.x = pivot.x + (dx / distance) * reach;
+  point.y = pivot.y + (dy / distance) * reach;
+  return true;
+}
+
+// Drop the part of a velocity heading away from the pivot - a taut rope only lets it swing around
+function stopOutward(velocity: Vector2D, point: Vector2D, pivot: Vector2D): Vector2D {
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  const outward = (velocity.x * dx + velocity.y * dy) / distance;
+  if (outward <= 0) return velocity;
+  return { x: velocity.x - (outward * dx) / distance, y: velocity.y - (outward * dy) / distance };
+}
+
+function solve(points: RopePoint[], pins: RopePin[], segmentLength: number, solids: Platform[]): void {
+  for (let iteration = 0; iteration < ROPE_ITERATIONS; iteration++) {
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance === 0) continue;
+
+      // The anchor never moves, so the point below it takes the whole correction
+      const correction = (distance - segmentLength) / distance;
+      const share = i === 0 ? 0 : 0.5;
+      a.x += dx * correction * share;
+      a.y += dy * correction * share;
+      b.x -= dx * correction * (1 - share);
+      b.y -= dy * correction * (1 - share);
+    }
+
+    for (let i = 1; i < points.length; i++) pushOutOfSolids(points[i], solids);
+    pins.forEach((pin) => pinTo(points, pin));
+  }
+
+  // Nothing holds the tail below the last pin taut - stop it stretching under its own weight
+  const lastPinned = pins.length > 0 ? pins[pins.length - 1].index + 1 : 0;
+  for (let i = lastPinned + 1; i < points.length; i++) {
+    const above = points[i - 1];
+    const point = points[i];
+    const dx = point.x - above.x;
+    const dy = point.y - above.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance <= segmentLength) continue;
+    point.x = above.x + (dx / distance) * segmentLength;
+    point.y = above.y + (dy / distance) * segmentLength;
+  }
+}
+
+// Shift the links either side of a pin so the rope passes through it
+function pinTo(points: RopePoint[], pin: RopePin): void {
+  const a = points[pin.index];
+  const b = points[pin.index + 1];
+  if (pin.index === 0 || pin.fraction >= 1) {
+    b.x = pin.x;
+    b.y = pin.y;
+    return;
+  }
+  const dx = pin.x - (a.x + (b.x - a.x) * pin.fraction);
+  const dy = pin.y - (a.y + (b.y - a.y) * pin.fraction);
+  a.x += dx;
+  a.y += dy;
+  b.x += dx;
+  b.y += dy;
+}
+
+// The last link between the current pivot and `upTo` lying against a solid, if the rope touches any
+function findPivot(points: RopePoint[], pivot: RopePin, upTo: number, segmentLength: number, solids: Platform[]): RopePin {
+  for (let i = upTo; i > pivot.index; i--) {
+    const { x, y } = points[i];
+    const isTouching = solids.some(
+      (s) => x >= s.x - 1 && x <= s.x + s.width + 1 && y >= s.y - 1 && y <= s.y + s.height + 1
+    );
+    if (isTouching) return { x, y, index: i, fraction: 0, distance: i * segmentLength };
+  }
+  return pivot;
+}
+
+// Swinging into a wall or under a ledge stops the body rather than passing through
+function keepBodyClear(hands: Vector2D, player: Player, solids: Platform[]): void {
+  for (const solid of solids) {
+    const body = { x: hands.x - player.width / 2, y: hands.y - player.height / 2, width: player.width, height: player.height };
+    if (!rectIntersect(body, solid)) continue;
+
+    const left = body.x + body.width - solid.x;
+    const right = solid.x + solid.width - body.x;
+    const up = body.y + body.height - solid.y;
+    const down = solid.y + solid.height - body.y;
+    const nearest = Math.min(left, right, up, down);
+    if (nearest === left) hands.x -= left;
+    else if (nearest === right) hands.x += right;
+    else if (nearest === up) hands.y -= up;
+    else hands.y += down;
+  }
+}
+
+// Out through the nearest face, losing speed into that face - this is what wraps the rope over edges
+function pushOutOfSolids(point: RopePoint, solids: Platform[]): void {
+  for (const solid of solids) {
+    const isInside =
+      point.x > solid.x && point.x < solid.x + solid.width && point.y > solid.y && point.y < solid.y + solid.height;
+    if (!isInside) continue;
+
+    const left = point.x - solid.x;
+    const right = solid.x + solid.width - point.x;
+    const top = point.y - solid.y;
+    const bottom = solid.y + solid.height - point.y;
+    const nearest = Math.min(left, right, top, bottom);
+    if (nearest === top || nearest === bottom) {
+      point.y = nearest === top ? solid.y : solid.y + solid.height;
+      point.prevY = point.y;
+    } else {
+      point.x = nearest === left ? solid.x : solid.x + solid.width;
+      point.prevX = point.x;
+    }
+  }
+}
+
+function getSpotAt(points: RopePoint[], distance: number, segmentLength: number): RopeSpot {
+  const index = clamp(Math.floor(distance / segmentLength), 0, points.length - 2);
+  const fraction = clamp(distance / segmentLength - index, 0, 1);
+  const a = points[index];
+  const b = points[index + 1];
+  return { x: a.x + (b.x - a.x) * fraction, y: a.y + (b.y - a.y) * fraction, index, fraction };
+}
+
+// Distance down the rope of the point nearest to `target`, never closer to the anchor than the minimum grip
+function findClosestDistance(points: RopePoint[], target: Vector2D, segmentLength: number): number {
+  let best = { distance: ROPE_MIN_GRIP, gap: Infinity };
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy || 1;
+    const t = clamp(((target.x - a.x) * dx + (target.y - a.y) * dy) / lengthSquared, 0, 1);
+    const gap = Math.hypot(target.x - (a.x + dx * t), target.y - (a.y + dy * t));
+    if (gap < best.gap) best = { distance: Math.max((i + t) * segmentLength, ROPE_MIN_GRIP), gap };
+  }
+  return best.distance;
+}
+
+// Centered on the hands, moving as fast as they did this step
+function hangAt(player: Player, hands: Vector2D, grip: number, dt: number): Player {
+  const position = { x: hands.x - player.width / 2, y: hands.y - player.height / 2 };
+  return {
+    ...player,
+    position,
+    velocity: { x: (position.x - player.position.x) / dt, y: (position.y - player.position.y) / dt },
+    ropeGrip: { ...player.ropeGrip!, distance: grip },
+    facingRight: player.velocity.x > 0.5 ? true : player.velocity.x < -0.5 ? false : player.facingRight,
+    animationState: 'swinging',
+    isGrounded: false,
+    isJumping: false,
+  };
+}
+
+function letGoOfRope(player: Player): Player {
+  return {
+    ...player,
+    velocity: { ...player.velocity },
+    isOnRope: false,
+    attachedRopeId: null,
+    ropeGrip: null,
+    animationState: 'falling',
+  };
+}
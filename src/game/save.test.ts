@@ -0,0 +1,125 @@
+// Save game tests - storage round trips, migrations and progress updates
+
+import { describe, it, expect } from 'vitest';
+import {
+  SAVE_VERSION,
+  SAVE_SLOT_COUNT,
+  createEmptySaveFile,
+  createSaveSlot,
+  loadSaveFile,
+  writeSaveFile,
+  migrateSaveFile,
+  recordCheckpoint,
+  recordLevelComplete,
+  recordLevelStart,
+  recordPlaySession,
+} from './save';
+import { level2 } from '../levels';
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const items = { ...initial };
+  return {
+    items,
+    getItem: (key: string) => items[key] ?? null,
+    setItem: (key: string, value: string) => {
+      items[key] = value;
+    },
+  };
+}
+
+describe('save storage', () => {
+  it('starts empty when nothing has been saved', () => {
+    expect(loadSaveFile(createMemoryStorage())).toEqual(createEmptySaveFile());
+  });
+
+  it('round-trips a save file', () => {
+    const storage = createMemoryStorage();
+    const file = createEmptySaveFile();
+    file.activeSlot = 1;
+    file.slots[1] = recordCheckpoint(createSaveSlot(), 'level-1', 'cp-2');
+
+    writeSaveFile(file, storage);
+    expect(loadSaveFile(storage)).toEqual(file);
+  });
+
+  it('ignores corrupt saves and saves from a newer version', () => {
+    const key = 'shadow-save';
+    expect(loadSaveFile(createMemoryStorage({ [key]: '{not json' }))).toEqual(createEmptySaveFile());
+    expect(loadSaveFile(createMemoryStorage({ [key]: JSON.stringify({ version: SAVE_VERSION + 1 }) }))).toEqual(
+      createEmptySaveFile()
+    );
+  });
+});
+
+describe('save migration', () => {
+  const oldSlot = {
+    unlockedLevelIds: ['forest', 'factory', 'deleted-level'],
+    currentLevelId: 'factory',
+    checkpoints: { factory: 'cp-5', 'deleted-level': 'cp-9' },
+    checkpointSnapshots: { factory: level2, forest: { id: 'broken' } },
+    totalDeaths: 12,
+    playTime: 90000,
+    updatedAt: 1,
+  };
+  const renames = { forest: 'level-1', factory: 'level-2' };
+  const known = ['level-1', 'level-2'];
+
+  it('follows renamed level ids and drops levels that no longer exist', () => {
+    const file = migrateSaveFile({ version: SAVE_VERSION, activeSlot: 0, slots: [oldSlot] }, renames, known);
+
+    expect(file.slots[0]).toEqual({
+      unlockedLevelIds: ['level-1', 'level-2'],
+      currentLevelId: 'level-2',
+      checkpoints: { 'level-2': 'cp-5' },
+      checkpointSnapshots: { 'level-2': level2 },
+      totalDeaths: 12,
+      playTime: 90000,
+      updatedAt: 1,
+    });
+    expect(file.slots).toHaveLength(SAVE_SLOT_COUNT);
+  });
+
+  it('forgets Continue when the current level is gone', () => {
+    const file = migrateSaveFile(
+      { version: SAVE_VERSION, activeSlot: 0, slots: [{ ...oldSlot, currentLevelId: 'deleted-level' }] },
+      renames,
+      known
+    );
+
+    expect(file.slots[0]!.currentLevelId).toBeNull();
+  });
+});
+
+describe('save progress', () => {
+  it('unlocks the next chapter and clears the finished chapter checkpoint', () => {
+    let slot = recordCheckpoint(createSaveSlot(), 'level-1', 'cp-2');
+    slot = recordLevelComplete(slot, 'level-1', 'level-2');
+
+    expect(slot.unlockedLevelIds).toEqual(['level-1', 'level-2']);
+    expect(slot.currentLevelId).toBe('level-2');
+    expect(slot.checkpoints).toEqual({});
+  });
+
+  it('restarting a chapter from the start forgets its checkpoint', () => {
+    const slot = recordLevelStart(recordCheckpoint(createSaveSlot(), 'level-1', 'cp-2'), 'level-1');
+
+    expect(slot.checkpoints).toEqual({});
+    expect(slot.currentLevelId).toBe('level-1');
+  });
+
+  it('keeps the level snapshot of the last checkpoint until the chapter is restarted or finished', () => {
+    const slot = recordCheckpoint(createSaveSlot(), 'level-2', 'cp-5', level2);
+
+    expect(slot.checkpointSnapshots).toEqual({ 'level-2': level2 });
+    expect(recordLevelStart(slot, 'level-2', 'cp-5').checkpointSnapshots).toEqual({ 'level-2': level2 });
+    expect(recordLevelStart(slot, 'level-2').checkpointSnapshots).toEqual({});
+    expect(recordLevelComplete(slot, 'level-2', null).checkpointSnapshots).toEqual({});
+  });
+
+  it('accumulates deaths and play time', () => {
+    const slot = recordPlaySession(recordPlaySession(createSaveSlot(), 2, 1000), 1, 500);
+
+    expect(slot.totalDeaths).toBe(3);
+    expect(slot.playTime).toBe(1500);
+  });
+});
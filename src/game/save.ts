@@ -0,0 +1,181 @@
+// Save games - versioned progress in localStorage with a few independent slots
+
+import { LevelData, SaveFile, SaveSlot } from '../types/game';
+import { allLevels, levels } from '../levels';
+import { validateLevel } from '../levels/loader';
+
+export const SAVE_VERSION = 1;
+export const SAVE_SLOT_COUNT = 3;
+const SAVE_STORAGE_KEY = 'shadow-save';
+
+// Level ids that have been renamed since saves were written (old id -> new id).
+// Add an entry here whenever a LevelData id changes so existing saves keep their progress.
+export const LEVEL_ID_RENAMES: Record<string, string> = {};
+
+// Upgrades from each older save version to the next one
+const SAVE_MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+type SaveStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export function createEmptySaveFile(): SaveFile {
+  return { version: SAVE_VERSION, activeSlot: 0, slots: Array(SAVE_SLOT_COUNT).fill(null) };
+}
+
+export function createSaveSlot(): SaveSlot {
+  return {
+    unlockedLevelIds: levels.length > 0 ? [levels[0].id] : [],
+    currentLevelId: null,
+    checkpoints: {},
+    totalDeaths: 0,
+    playTime: 0,
+    updatedAt: Date.now(),
+  };
+}
+
+// A missing or unreadable save is treated as a fresh one rather than an error
+export function loadSaveFile(storage: SaveStorage | undefined = getStorage()): SaveFile {
+  try {
+    const text = storage?.getItem(SAVE_STORAGE_KEY);
+    return text ? migrateSaveFile(JSON.parse(text)) : createEmptySaveFile();
+  } catch {
+    return createEmptySaveFile();
+  }
+}
+
+export function writeSaveFile(file: SaveFile, storage: SaveStorage | undefined = getStorage()): void {
+  try {
+    storage?.setItem(SAVE_STORAGE_KEY, JSON.stringify(file));
+  } catch {
+    // Storage full or disabled (private browsing) - progress just isn't kept
+  }
+}
+
+// Bring a stored save up to the current version and level ids
+export function migrateSaveFile(
+  raw: unknown,
+  renames: Record<string, string> = LEVEL_ID_RENAMES,
+  knownLevelIds: string[] = allLevels.map((level) => level.id)
+): SaveFile {
+  if (!raw || typeof raw !== 'object') return createEmptySaveFile();
+
+  let file = raw as Record<string, unknown>;
+  let version = typeof file.version === 'number' ? file.version : 0;
+  if (version > SAVE_VERSION) return createEmptySaveFile();
+  while (version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[version];
+    if (!migrate) return createEmptySaveFile();
+    file = migrate(file);
+    version += 1;
+  }
+
+  const slots = Array.isArray(file.slots) ? file.slots : [];
+  const activeSlot = typeof file.activeSlot === 'number' ? file.activeSlot : 0;
+
+  return {
+    version: SAVE_VERSION,
+    activeSlot: Math.max(0, Math.min(SAVE_SLOT_COUNT - 1, activeSlot)),
+    slots: Array.from({ length: SAVE_SLOT_COUNT }, (_, i) =>
+      slots[i] ? migrateSlot(slots[i] as SaveSlot, renames, knownLevelIds) : null
+    ),
+  };
+}
+
+function migrateSlot(slot: SaveSlot, renames: Record<string, string>, knownLevelIds: string[]): SaveSlot {
+  const rename = (id: string) => renames[id] ?? id;
+  const isKnown = (id: string) => knownLevelIds.includes(id);
+
+  const checkpoints: Record<string, string> = {};
+  for (const [levelId, checkpointId] of Object.entries(slot.checkpoints ?? {})) {
+    if (isKnown(rename(levelId))) checkpoints[rename(levelId)] = checkpointId;
+  }
+
+  const checkpointSnapshots: Record<string, LevelData> = {};
+  for (const [levelId, snapshot] of Object.entries(slot.checkpointSnapshots ?? {})) {
+    // A snapshot that no longer loads just means resuming from the checkpoint alone
+    if (checkpoints[rename(levelId)] && validateLevel(snapshot).length === 0) checkpointSnapshots[rename(levelId)] = snapshot;
+  }
+
+  const currentLevelId = slot.currentLevelId ? rename(slot.currentLevelId) : null;
+  const unlocked = (slot.unlockedLevelIds ?? []).map(rename).filter(isKnown);
+
+  return {
+    unlockedLevelIds: Array.from(new Set([...createSaveSlot().unlockedLevelIds, ...unlocked])),
+    currentLevelId: currentLevelId && isKnown(currentLevelId) ? currentLevelId : null,
+    checkpoints,
+    checkpointSnapshots,
+    totalDeaths: slot.totalDeaths ?? 0,
+    playTime: slot.playTime ?? 0,
+    updatedAt: slot.updatedAt ?? 0,
+  };
+}
+
+// Progress updates - each returns a new slot
+
+// Starting a level (fresh or from a checkpoint) makes it the one Continue returns to
+export function recordLevelStart(slot: SaveSlot, levelId: string, checkpointId?: string): SaveSlot {
+  const checkpoints = { ...slot.checkpoints };
+  const checkpointSnapshots = { ...slot.checkpointSnapshots };
+  if (checkpointId) {
+    checkpoints[levelId] = checkpointId;
+  } else {
+    delete checkpoints[levelId];
+    delete checkpointSnapshots[levelId];
+  }
+
+  return { ...slot, currentLevelId: levelId, checkpoints, checkpointSnapshots, updatedAt: Date.now() };
+}
+
+// The snapshot is the whole level as it was on reaching the checkpoint, so Continue can bring it back
+export function recordCheckpoint(slot: SaveSlot, levelId: string, checkpointId: string, snapshot?: LevelData): SaveSlot {
+  const checkpointSnapshots = { ...slot.checkpointSnapshots };
+  if (snapshot) {
+    checkpointSnapshots[levelId] = snapshot;
+  } else {
+    delete checkpointSnapshots[levelId];
+  }
+
+  return {
+    ...slot,
+    currentLevelId: levelId,
+    checkpoints: { ...slot.checkpoints, [levelId]: checkpointId },
+    checkpointSnapshots,
+    updatedAt: Date.now(),
+  };
+}
+
+// Finishing a level unlocks the next one, which becomes where Continue starts
+export function recordLevelComplete(slot: SaveSlot, levelId: string, nextLevelId: string | null): SaveSlot {
+  const checkpoints = { ...slot.checkpoints };
+  const checkpointSnapshots = { ...slot.checkpointSnapshots };
+  delete checkpoints[levelId];
+  delete checkpointSnapshots[levelId];
+
+  return {
+    ...slot,
+    currentLevelId: nextLevelId,
+    unlockedLevelIds:
+      nextLevelId && !slot.unlockedLevelIds.includes(nextLevelId)
+        ? [...slot.unlockedLevelIds, nextLevelId]
+        : slot.unlockedLevelIds,
+    checkpoints,
+    checkpointSnapshots,
+    updatedAt: Date.now(),
+  };
+}
+
+export function recordPlaySession(slot: SaveSlot, deaths: number, playTime: number): SaveSlot {
+  return {
+    ...slot,
+    totalDeaths: slot.totalDeaths + deaths,
+    playTime: slot.playTime + playTime,
+    updatedAt: Date.now(),
+  };
+}
+
+function getStorage(): SaveStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}
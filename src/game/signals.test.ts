@@ -0,0 +1,191 @@
+// Signal wiring tests - emitters, link actions, delays, gates and timers
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import { FIXED_TIMESTEP } from './constants';
+import { createTestLevel, runSimulation } from './headless';
+import { emitSignal, updateSignals } from './signals';
+
+function createSignalLevel(overrides: Partial<LevelData> = {}): LevelData {
+  return createTestLevel({
+    id: 'signals',
+    platforms: [
+      { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+      {
+        id: 'lift',
+        x: 600,
+        y: 400,
+        width: 100,
+        height: 20,
+        type: 'moving',
+        isMoving: false,
+        path: {
+          waypoints: [
+            { x: 600, y: 400 },
+            { x: 900, y: 400 },
+          ],
+          speed: 2,
+        },
+      },
+    ],
+    hazards: [{ id: 'saw', x: 1500, y: 560, width: 50, height: 50, type: 'saw', isActive: true }],
+    switches: [
+      { id: 'plate-a', x: 300, y: 610, width: 60, height: 10, type: 'pressurePlate', isActivated: false, targetIds: [] },
+      { id: 'plate-b', x: 400, y: 610, width: 60, height: 10, type: 'pressurePlate', isActivated: false, targetIds: [] },
+    ],
+    ropes: [{ id: 'rope', anchorX: 1200, anchorY: 200, length: 200 }],
+    lights: [{ id: 'lamp', x: 800, y: 200, radius: 150, isOn: false }],
+    ...overrides,
+  });
+}
+
+function stepSignals(level: LevelData, steps: number): LevelData {
+  let result = level;
+  for (let i = 0; i < steps; i++) result = updateSignals(result, FIXED_TIMESTEP);
+  return result;
+}
+
+describe('signal links', () => {
+  it('applies the action when the emitter turns on and undoes it when it turns off', () => {
+    const links = [{ targetId: 'lamp', action: 'enable' as const }];
+
+    const on = emitSignal(createSignalLevel(), links, true);
+    expect(on.lights![0].isOn).toBe(true);
+
+    const off = emitSignal(on, links, false);
+    expect(off.lights![0].isOn).toBe(false);
+  });
+
+  it('drives hazards, moving platforms and ropes by id', () => {
+    const level = emitSignal(
+      createSignalLevel(),
+      [
+        { targetId: 'saw', action: 'disable' },
+        { targetId: 'lift', action: 'start' },
+        { targetId: 'rope', action: 'disable' },
+      ],
+      true
+    );
+
+    expect(level.hazards[0].isActive).toBe(false);
+    expect(level.platforms.find((p) => p.id === 'lift')!.isMoving).toBe(true);
+    expect(level.ropes[0].isEnabled).toBe(false);
+  });
+
+  it('only toggles when the emitter turns on', () => {
+    const links = [{ targetId: 'lamp', action: 'toggle' as const }];
+
+    let level = emitSignal(createSignalLevel(), links, true);
+    level = emitSignal(level, links, false);
+    expect(level.lights![0].isOn).toBe(true);
+
+    level = emitSignal(level, links, true);
+    expect(level.lights![0].isOn).toBe(false);
+  });
+
+  it('reacts to the emitter turning off when inverted', () => {
+    const links = [{ targetId: 'lamp', action: 'enable' as const, inverted: true }];
+
+    expect(emitSignal(createSignalLevel(), links, true).lights![0].isOn).toBe(false);
+    expect(emitSignal(createSignalLevel(), links, false).lights![0].isOn).toBe(true);
+  });
+
+  it('holds delayed actions until the delay has passed', () => {
+    const level = emitSignal(createSignalLevel(), [{ targetId: 'lamp', action: 'enable', delay: 500 }], true);
+    expect(level.lights![0].isOn).toBe(false);
+
+    expect(stepSignals(level, 29).lights![0].isOn).toBe(false);
+    const landed = stepSignals(level, 31);
+    expect(landed.lights![0].isOn).toBe(true);
+    expect(landed.pendingSignals).toEqual([]);
+  });
+});
+
+describe('logic entities', () => {
+  it('opens an AND gate only while every input is on', () => {
+    const level = createSignalLevel({
+      logic: [
+        { id: 'both', type: 'and', inputIds: ['plate-a', 'plate-b'], isOn: false, links: [{ targetId: 'lamp', action: 'enable' }] },
+      ],
+    });
+    const pressA = { ...level, switches: level.switches.map((s) => (s.id === 'plate-a' ? { ...s, isActivated: true } : s)) };
+
+    expect(stepSignals(pressA, 1).lights![0].isOn).toBe(false);
+
+    const pressBoth = { ...pressA, switches: pressA.switches.map((s) => ({ ...s, isActivated: true })) };
+    expect(stepSignals(pressBoth, 1).lights![0].isOn).toBe(true);
+  });
+
+  it('opens an OR gate while any input is on', () => {
+    const level = createSignalLevel({
+      logic: [
+        { id: 'either', type: 'or', inputIds: ['plate-a', 'plate-b'], isOn: false, links: [{ targetId: 'lamp', action: 'enable' }] },
+      ],
+    });
+    const pressB = { ...level, switches: level.switches.map((s) => (s.id === 'plate-b' ? { ...s, isActivated: true } : s)) };
+
+    expect(stepSignals(level, 1).lights![0].isOn).toBe(false);
+    expect(stepSignals(pressB, 1).lights![0].isOn).toBe(true);
+  });
+
+  it('flips a running timer every interval and pauses it when stopped', () => {
+    const level = createSignalLevel({
+      logic: [
+        { id: 'clock', type: 'timer', interval: 250, isRunning: true, isOn: false, links: [{ targetId: 'saw', action: 'disable' }] },
+      ],
+    });
+
+    expect(stepSignals(level, 14).hazards[0].isActive).toBe(true);
+    expect(stepSignals(level, 16).hazards[0].isActive).toBe(false);
+    expect(stepSignals(level, 31).hazards[0].isActive).toBe(true);
+
+    const stopped = emitSignal(level, [{ targetId: 'clock', action: 'stop' }], true);
+    expect(stepSignals(stopped, 60).hazards[0].isActive).toBe(true);
+  });
+});
+
+describe('emitters in the simulation', () => {
+  it('starts a moving platform when the player steps on a pressure plate', () => {
+    const level = createSignalLevel({
+      switches: [
+        {
+          id: 'plate-a',
+          x: 300,
+          y: 610,
+          width: 60,
+          height: 10,
+          type: 'pressurePlate',
+          isActivated: false,
+          targetIds: [],
+          links: [{ targetId: 'lift', action: 'start' }],
+        },
+      ],
+    });
+
+    const idle = runSimulation(level, [{ frames: 60 }]);
+    expect(idle.state.levelData!.platforms.find((p) => p.id === 'lift')!.x).toBe(600);
+
+    const result = runSimulation(level, [{ frames: 60 }], { startPosition: { x: 315, y: 560 } });
+    expect(result.state.levelData!.platforms.find((p) => p.id === 'lift')!.x).toBeGreaterThan(600);
+  });
+
+  it('signals from trigger zones and checkpoints', () => {
+    const level = createSignalLevel({
+      checkpoints: [
+        { id: 'cp', x: 90, y: 570, width: 40, height: 50, isActivated: false, links: [{ targetId: 'lamp', action: 'enable' }] },
+      ],
+      zones: [
+        { id: 'zone', x: 0, y: 0, width: 300, height: 720, isOccupied: false, links: [{ targetId: 'saw', action: 'disable' }] },
+      ],
+    });
+
+    const result = runSimulation(level, [{ frames: 10 }]);
+    expect(result.state.levelData!.lights![0].isOn).toBe(true);
+    expect(result.state.levelData!.hazards[0].isActive).toBe(false);
+
+    // Leaving the zone turns it off again
+    const left = runSimulation(level, [{ frames: 60, input: { right: true } }]);
+    expect(left.state.levelData!.zones![0].isOccupied).toBe(false);
+    expect(left.state.levelData!.hazards[0].isActive).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+// Signal wiring - switches, checkpoints, trigger zones and logic entities drive
+// other entities (hazards, moving platforms, doors, ropes, lights, timers) by id.
+
+import { LevelData, LogicEntity, Rectangle, SignalAction, SignalLink, Switch } from '../types/game';
+import { rectIntersect } from '../utils/collision';
+
+// Turning off undoes what turning on did
+const OPPOSITE_ACTION: Record<SignalAction, SignalAction | null> = {
+  enable: 'disable',
+  disable: 'enable',
+  toggle: null,
+  start: 'stop',
+  stop: 'start',
+  open: 'close',
+  close: 'open',
+};
+
+// A switch's plain targetIds disable their targets while it is activated
+export function getSwitchLinks(sw: Switch): SignalLink[] {
+  const legacyLinks = sw.targetIds.map((targetId): SignalLink => ({ targetId, action: 'disable' }));
+  return [...legacyLinks, ...(sw.links ?? [])];
+}
+
+// Send an emitter's new on/off state down its links
+export function emitSignal(levelData: LevelData, links: SignalLink[], isOn: boolean): LevelData {
+  let result = levelData;
+
+  for (const link of links) {
+    const action = isOn !== !!link.inverted ? link.action : OPPOSITE_ACTION[link.action];
+    if (!action) continue;
+
+    if (link.delay && link.delay > 0) {
+      const pending = { targetId: link.targetId, action, remaining: link.delay };
+      result = { ...result, pendingSignals: [...(result.pendingSignals ?? []), pending] };
+    } else {
+      result = applySignalAction(result, link.targetId, action);
+    }
+  }
+
+  return result;
+}
+
+// Apply an action to whichever entity owns the id
+export function applySignalAction(levelData: LevelData, targetId: string, action: SignalAction): LevelData {
+  return {
+    ...levelData,
+    hazards: levelData.hazards.map((h) =>
+      h.id === targetId ? { ...h, isActive: resolveFlag(h.isActive, action) } : h
+    ),
+    platforms: levelData.platforms.map((p) =>
+      p.id === targetId && p.type === 'moving'
+        ? { ...p, isMoving: resolveFlag(p.isMoving !== false, action) }
+        : p
+    ),
+    ropes: levelData.ropes.map((r) =>
+      r.id === targetId ? { ...r, isEnabled: resolveFlag(r.isEnabled !== false, action) } : r
+    ),
+    doors: levelData.doors?.map((d) =>
+      d.id === targetId ? { ...d, isOpen: resolveFlag(d.isOpen, action) } : d
+    ),
+    lights: levelData.lights?.map((l) =>
+      l.id === targetId ? { ...l, isOn: resolveFlag(l.isOn, action) } : l
+    ),
+    logic: levelData.logic?.map((entity) =>
+      entity.id === targetId && entity.type === 'timer'
+        ? { ...entity, isRunning: resolveFlag(entity.isRunning, action) }
+        : entity
+    ),
+  };
+}
+
+function resolveFlag(current: boolean, action: SignalAction): boolean {
+  switch (action) {
+    case 'enable':
+    case 'start':
+    case 'open':
+      return true;
+    case 'disable':
+    case 'stop':
+    case 'close':
+      return false;
+    case 'toggle':
+      return !current;
+  }
+}
+
+// Current on/off state of any emitter - what gates read
+export function getSignalState(levelData: LevelData, id: string): boolean {
+  const sw = levelData.switches.find((s) => s.id === id);
+  if (sw) return sw.isActivated;
+  const cp = levelData.checkpoints.find((c) => c.id === id);
+  if (cp) return cp.isActivated;
+  const zone = levelData.zones?.find((z) => z.id === id);
+  if (zone) return zone.isOccupied;
+  const entity = levelData.logic?.find((l) => l.id === id);
+  return entity ? entity.isOn : false;
+}
+
+// Zones signal on while the player is inside them
+export function updateTriggerZones(levelData: LevelData, playerRect: Rectangle): LevelData {
+  let result = levelData;
+
+  for (const zone of levelData.zones ?? []) {
+    const isOccupied = rectIntersect(playerRect, zone);
+    if (isOccupied === zone.isOccupied) continue;
+
+    result = {
+      ...result,
+      zones: result.zones?.map((z) => (z.id === zone.id ? { ...z, isOccupied } : z)),
+    };
+    result = emitSignal(result, zone.links, isOccupied);
+  }
+
+  return result;
+}
+
+// Land delayed actions and advance gates and timers.
+// Logic is evaluated in declaration order, so a gate sees earlier gates' output this step.
+export function updateSignals(levelData: LevelData, deltaTime: number): LevelData {
+  let result = levelData;
+
+  if (levelData.pendingSignals && levelData.pendingSignals.length > 0) {
+    const due = [];
+    const waiting = [];
+    for (const pending of levelData.pendingSignals) {
+      const remaining = pending.remaining - deltaTime;
+      if (remaining <= 0) {
+        due.push(pending);
+      } else {
+        waiting.push({ ...pending, remaining });
+      }
+    }
+
+    result = { ...result, pendingSignals: waiting };
+    for (const pending of due) {
+      result = applySignalAction(result, pending.targetId, pending.action);
+    }
+  }
+
+  for (const entity of levelData.logic ?? []) {
+    // Re-read: an earlier link this step may have started or stopped this timer
+    const current = result.logic?.find((l) => l.id === entity.id) ?? entity;
+    const next = updateLogicEntity(result, current, deltaTime);
+    if (next === current) continue;
+
+    result = { ...result, logic: result.logic?.map((l) => (l.id === next.id ? next : l)) };
+    if (next.isOn !== current.isOn) {
+      result = emitSignal(result, next.links, next.isOn);
+    }
+  }
+
+  return result;
+}
+
+function updateLogicEntity(levelData: LevelData, entity: LogicEntity, deltaTime: number): LogicEntity {
+  if (entity.type === 'timer') {
+    if (!entity.isRunning || entity.interval <= 0) return entity;
+
+    let elapsed = (entity.elapsed ?? 0) + deltaTime;
+    let isOn = entity.isOn;
+    while (elapsed >= entity.interval) {
+      elapsed -= entity.interval;
+      isOn = !isOn;
+    }
+    return { ...entity, elapsed, isOn };
+  }
+
+  const inputs = entity.inputIds.map((id) => getSignalState(levelData, id));
+  const isOn = entity.type === 'and' ? inputs.length > 0 && inputs.every(Boolean) : inputs.some(Boolean);
+  return isOn === entity.isOn ? entity : { ...entity, isOn };
+}
@@ -0,0 +1,385 @@
+// Physics regression tests - play real levels headlessly with scripted input
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import { allLevels, level1, level2 } from '../levels';
+import { createTestLevel, runSimulation, findEventFrame, InputStep, NO_INPUT } from './headless';
+import { createInitialGameState, respawnPlayer, startAtCheckpoint, stepWorld } from './simulation';
+
+const SETTLE: InputStep = { frames: 30 };
+
+describe('level 1', () => {
+  it('settles the player on the ground at the start', () => {
+    const result = runSimulation(level1, [{ frames: 120 }]);
+
+    expect(result.state.player.isGrounded).toBe(true);
+    expect(result.state.player.position).toEqual({ x: 100, y: 570 });
+  });
+
+  it('blocks walking into box-1 without the action key', () => {
+    const result = runSimulation(level1, [SETTLE, { frames: 200, input: { right: true } }]);
+    const box = result.state.levelData!.pushableObjects.find((p) => p.id === 'box-1')!;
+
+    expect(box.x).toBe(500);
+    expect(result.state.player.position.x).toBeCloseTo(470);
+  });
+
+  it('pushes box-1 while holding action', () => {
+    const result = runSimulation(level1, [SETTLE, { frames: 100, input: { right: true, action: true } }]);
+    const box = result.state.levelData!.pushableObjects.find((p) => p.id === 'box-1')!;
+
+    expect(box.x).toBeGreaterThan(540);
+    expect(result.state.player.animationState).toBe('pushing');
+  });
+
+  it('pulls box-1 back while holding action and walking away', () => {
+    const result = runSimulation(level1, [
+      SETTLE,
+      { frames: 100, input: { right: true, action: true } },
+      { frames: 60, input: { left: true, action: true } },
+    ]);
+    const box = result.state.levelData!.pushableObjects.find((p) => p.id === 'box-1')!;
+    const { player } = result.state;
+
+    expect(box.isBeingPulled).toBe(true);
+    expect(box.x).toBeLessThan(540);
+    expect(player.position.x + player.width).toBeCloseTo(box.x);
+    expect(player.facingRight).toBe(true);
+    expect(player.animationState).toBe('pulling');
+  });
+
+  it('stops pulling when the player backs into a wall', () => {
+    const level = createTestLevel({
+      platforms: [
+        { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+        { id: 'wall', x: 0, y: 400, width: 50, height: 220, type: 'solid' },
+      ],
+      pushableObjects: [
+        { id: 'crate', x: 120, y: 560, width: 60, height: 60, type: 'box', velocity: { x: 0, y: 0 }, isBeingPushed: false },
+      ],
+      playerStart: { x: 89, y: 570 },
+    });
+    const result = runSimulation(level, [SETTLE, { frames: 120, input: { left: true, action: true } }]);
+    const crate = result.state.levelData!.pushableObjects[0];
+
+    const playerRight = result.state.player.position.x + result.state.player.width;
+
+    expect(result.state.player.position.x).toBeGreaterThanOrEqual(50);
+    expect(crate.isBeingPulled).toBe(false);
+    expect(crate.x - playerRight).toBeLessThan(2);
+  });
+
+  it('drags heavier objects more slowly', () => {
+    const pullFor = (mass: number) => {
+      const level = createTestLevel({
+        platforms: [{ id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' }],
+        pushableObjects: [
+          { id: 'crate', x: 600, y: 560, width: 60, height: 60, type: 'box', velocity: { x: 0, y: 0 }, isBeingPushed: false, mass },
+        ],
+        playerStart: { x: 570, y: 570 },
+      });
+      const result = runSimulation(level, [SETTLE, { frames: 60, input: { left: true, action: true } }]);
+      return 600 - result.state.levelData!.pushableObjects[0].x;
+    };
+
+    expect(pullFor(2)).toBeCloseTo(pullFor(1) / 2, 0);
+  });
+
+  it('activates cp-1 and records it as the respawn point', () => {
+    const result = runSimulation(level1, [SETTLE, { frames: 60, input: { right: true } }], {
+      startPosition: { x: 900, y: 500 },
+    });
+
+    expect(findEventFrame(result, (e) => e.type === 'checkpoint' && e.checkpointId === 'cp-1')).toBeGreaterThan(0);
+    expect(result.state.lastCheckpoint).toEqual({ x: 950, y: 570 });
+  });
+
+  it('disables saw-1 with the lever', () => {
+    const result = runSimulation(level1, [SETTLE, { frames: 5, input: { action: true } }], {
+      startPosition: { x: 2655, y: 570 },
+    });
+    const { hazards, switches } = result.state.levelData!;
+
+    expect(switches.find((s) => s.id === 'switch-1')!.isActivated).toBe(true);
+    expect(hazards.find((h) => h.id === 'saw-1')!.isActive).toBe(false);
+  });
+
+  it('grabs rope-1 when jumping from rope-plat with action held', () => {
+    const result = runSimulation(
+      level1,
+      [SETTLE, { frames: 20, input: { right: true, jump: true, action: true } }, { frames: 60, input: { action: true } }],
+      { startPosition: { x: 1740, y: 430 }, until: (state) => state.player.isOnRope }
+    );
+
+    expect(result.state.player.isOnRope).toBe(true);
+    expect(result.state.player.attachedRopeId).toBe('rope-1');
+    expect(result.frames).toBeLessThan(60);
+  });
+
+  it('reaches the exit zone from plat-11 within 60 frames', () => {
+    const result = runSimulation(
+      level1,
+      [SETTLE, { frames: 20, input: { right: true, jump: true } }, { frames: 200, input: { right: true } }],
+      { startPosition: { x: 3760, y: 370 }, until: (_, events) => events.some((e) => e.type === 'levelComplete') }
+    );
+
+    const exitFrame = findEventFrame(result, (e) => e.type === 'levelComplete');
+    expect(exitFrame).toBeGreaterThan(0);
+    expect(exitFrame).toBeLessThan(60);
+  });
+});
+
+describe('level 2', () => {
+  it('dies on spike-5 when dropping onto it', () => {
+    const result = runSimulation(level2, [{ frames: 60 }], { startPosition: { x: 3730, y: 500 } });
+
+    expect(result.state.player.isDead).toBe(true);
+    expect(result.events.filter((e) => e.event.type === 'death')).toEqual([
+      { frame: expect.any(Number), event: { type: 'death', hazardId: 'spike-5' } },
+    ]);
+    expect(result.state.deathCount).toBe(1);
+  });
+
+  it('holds the gate open only while the pressure plate is pressed', () => {
+    const gate = (steps: InputStep[]) => {
+      const result = runSimulation(level2, steps, { startPosition: { x: 3070, y: 565 } });
+      return result.state.levelData!.doors!.find((d) => d.id === 'gate-1')!;
+    };
+
+    expect(gate([SETTLE]).isOpen).toBe(true);
+    expect(gate([SETTLE, { frames: 90 }]).openAmount).toBe(1);
+    expect(gate([SETTLE, { frames: 90 }, { frames: 90, input: { left: true } }])).toMatchObject({
+      isOpen: false,
+      openAmount: 0,
+    });
+  });
+});
+
+describe('built-in checkpoints', () => {
+  it('resumes at every checkpoint on safe ground', () => {
+    for (const level of allLevels) {
+      for (const checkpoint of level.checkpoints) {
+        let state = startAtCheckpoint({ ...createInitialGameState(level), isPlaying: true }, checkpoint.id);
+        for (let frame = 0; frame < 120; frame++) state = stepWorld(state, NO_INPUT).state;
+
+        expect(state.player.isDead, checkpoint.id).toBe(false);
+        expect(state.player.isGrounded, checkpoint.id).toBe(true);
+      }
+    }
+  });
+});
+
+describe('moving platforms', () => {
+  const lift = (config: { endX?: number; endY?: number; speed?: number }): LevelData =>
+    createTestLevel({
+      platforms: [
+        { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+        {
+          id: 'lift',
+          x: 300,
+          y: 400,
+          width: 120,
+          height: 20,
+          type: 'moving',
+          path: {
+            waypoints: [
+              { x: 300, y: 400 },
+              { x: config.endX ?? 300, y: config.endY ?? 400 },
+            ],
+            speed: config.speed ?? 2,
+          },
+        },
+      ],
+    });
+  const onLift = { startPosition: { x: 340, y: 350 } };
+
+  it('carries the player standing on moving-3 along with it', () => {
+    const result = runSimulation(level2, [{ frames: 60 }], { startPosition: { x: 2730, y: 450 } });
+    const platform = result.state.levelData!.platforms.find((p) => p.id === 'moving-3')!;
+
+    expect(result.state.player.groundId).toBe('moving-3');
+    expect(Math.abs(result.state.player.position.x - platform.x - 30)).toBeLessThan(2);
+  });
+
+  it('keeps the player grounded the whole way down a descending platform', () => {
+    let airborneFrames = 0;
+    runSimulation(lift({ endY: 560 }), [{ frames: 80 }], {
+      ...onLift,
+      until: (state) => {
+        if (state.input.frame > 10 && !state.player.isGrounded) airborneFrames += 1;
+        return false;
+      },
+    });
+
+    expect(airborneFrames).toBe(0);
+  });
+
+  it("keeps the platform's momentum when jumping off", () => {
+    const jumpOff = (level: LevelData) => {
+      const result = runSimulation(level, [{ frames: 30 }, { frames: 1, input: { jump: true } }, { frames: 20 }], onLift);
+      return result.state.player.position.x;
+    };
+    const still = jumpOff(lift({}));
+    const moving = jumpOff(lift({ endX: 900 }));
+    const platformTravel = 2 * 30;
+
+    expect(moving - still).toBeGreaterThan(platformTravel + 5);
+  });
+
+  it('crushes the player between a platform and the floor', () => {
+    const result = runSimulation(lift({ endY: 620 }), [{ frames: 200 }], { startPosition: { x: 340, y: 570 } });
+
+    expect(result.state.player.isDead).toBe(true);
+    expect(result.events.map((e) => e.event)).toContainEqual({ type: 'death', hazardId: 'lift' });
+  });
+});
+
+describe('crumbling platforms', () => {
+  const level = createTestLevel({
+    playerStart: { x: 100, y: 500 },
+    platforms: [
+      { id: 'ground', x: 0, y: 700, width: 2000, height: 20, type: 'solid' },
+      {
+        id: 'crumble-1',
+        x: 50,
+        y: 560,
+        width: 120,
+        height: 20,
+        type: 'crumbling',
+        crumblingConfig: { breakDelay: 500, respawnDelay: 2000 },
+      },
+    ],
+  });
+  const crumble = (result: ReturnType<typeof runSimulation>) =>
+    result.state.levelData!.platforms.find((p) => p.id === 'crumble-1')!.crumble;
+
+  it('shakes under the player and holds until the break delay', () => {
+    const result = runSimulation(level, [{ frames: 30 }]);
+
+    expect(crumble(result)?.phase).toBe('shaking');
+    expect(result.state.player.position.y).toBe(510);
+  });
+
+  it('breaks and drops the player after the break delay', () => {
+    const result = runSimulation(level, [{ frames: 90 }]);
+
+    expect(crumble(result)?.phase).toBe('falling');
+    expect(result.state.player.position.y).toBe(650);
+  });
+
+  it('reforms after the respawn delay', () => {
+    const result = runSimulation(level, [{ frames: 200 }]);
+
+    expect(crumble(result)?.phase).toBe('intact');
+  });
+
+  it('reforms when respawning at a checkpoint', () => {
+    const result = runSimulation(level, [{ frames: 90 }]);
+    const respawned = respawnPlayer(result.state);
+
+    // Rolled back to the level start, before it had any crumble state
+    const platform = respawned.levelData!.platforms.find((p) => p.id === 'crumble-1')!;
+    expect(platform.crumble?.phase ?? 'intact').toBe('intact');
+  });
+});
+
+describe('moving hazards', () => {
+  const crusherLevel = createTestLevel({
+    platforms: [{ id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' }],
+    hazards: [
+      {
+        id: 'crusher',
+        x: 80,
+        y: 300,
+        width: 80,
+        height: 100,
+        type: 'crusher',
+        isActive: true,
+        motion: { type: 'crusher', period: 2000, travel: 200 },
+      },
+    ],
+  });
+
+  it('leaves the player alone while the crusher is raised', () => {
+    const result = runSimulation(crusherLevel, [{ frames: 40 }]);
+
+    expect(result.state.player.isDead).toBe(false);
+    expect(result.state.levelData!.hazards[0].offset?.y).toBe(0);
+  });
+
+  it('kills the player once the crusher head slams down', () => {
+    const result = runSimulation(crusherLevel, [{ frames: 90 }]);
+
+    const deathFrame = findEventFrame(result, (event) => event.type === 'death');
+    expect(deathFrame).toBeGreaterThan(48);
+    expect(deathFrame).toBeLessThan(60);
+  });
+
+  it('freezes a switched-off crusher in place', () => {
+    const level = createTestLevel({
+      ...crusherLevel,
+      hazards: [{ ...crusherLevel.hazards[0], isActive: false }],
+    });
+    const result = runSimulation(level, [{ frames: 90 }]);
+
+    expect(result.state.player.isDead).toBe(false);
+    expect(result.state.levelData!.hazards[0].offset).toBeUndefined();
+  });
+
+  it('moves a rail saw along its path and back', () => {
+    const level = createTestLevel({
+      hazards: [
+        {
+          id: 'saw',
+          x: 500,
+          y: 300,
+          width: 50,
+          height: 50,
+          type: 'saw',
+          isActive: true,
+          motion: { type: 'rail', period: 1000, path: [{ x: 500, y: 300 }, { x: 700, y: 300 }] },
+        },
+      ],
+    });
+
+    const halfway = runSimulation(level, [{ frames: 30 }]).state.levelData!.hazards[0];
+    expect(halfway.offset?.x).toBeCloseTo(200, 0);
+
+    const back = runSimulation(level, [{ frames: 60 }]).state.levelData!.hazards[0];
+    expect(back.offset?.x).toBeCloseTo(0, 0);
+  });
+});
+
+describe('determinism', () => {
+  it('produces identical worlds for identical input', () => {
+    const script: InputStep[] = [
+      SETTLE,
+      { frames: 40, input: { right: true } },
+      { frames: 15, input: { right: true, jump: true } },
+      { frames: 120, input: { right: true, action: true } },
+      { frames: 30, input: { left: true } },
+    ];
+
+    const first = runSimulation(level1, script);
+    const second = runSimulation(level1, script);
+
+    expect(second.state).toEqual(first.state);
+    expect(second.events).toEqual(first.events);
+  });
+
+  it('shakes the camera from the seed', () => {
+    const dieOnSpikes = (seed: number) =>
+      runSimulation(level2, [{ frames: 60 }], { seed, startPosition: { x: 3730, y: 500 } }).state.camera.shakeOffset;
+
+    expect(dieOnSpikes(1)).toBeDefined();
+    expect(dieOnSpikes(1)).toEqual(dieOnSpikes(1));
+    expect(dieOnSpikes(2)).not.toEqual(dieOnSpikes(1));
+  });
+
+  it('does not mutate the shared level data', () => {
+    const before = JSON.stringify(level1);
+    runSimulation(level1, [SETTLE, { frames: 200, input: { right: true, action: true } }]);
+
+    expect(JSON.stringify(level1)).toBe(before);
+  });
+});
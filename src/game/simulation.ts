@@ -0,0 +1,419 @@
+// Deterministic world simulation - advances a GameState by one fixed step
+// Pure: no React, no timers, no randomness. Same state + input => same result.
+
+import {
+  GameState,
+  Player,
+  Platform,
+  Rectangle,
+  LevelData,
+  Vector2D,
+  InputState,
+  Camera,
+  WorldEvent,
+  WorldStepResult,
+} from '../types/game';
+import {
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  FIXED_TIMESTEP,
+  PINCH_TOLERANCE,
+  CAMERA_SHAKE_MIN,
+  CAMERA_SHAKE_STRENGTH,
+} from './constants';
+import {
+  updatePlayerPhysics,
+  getMovementDeltas,
+  updateCrumblingPlatforms,
+  resetCrumblingPlatforms,
+} from './physics';
+import { updateHazards } from './hazards';
+import { updatePushablePhysics } from './pushables';
+import { checkRopeGrab, updateRopes } from './ropes';
+import { updateMovingPlatforms } from './platformPaths';
+import { getDoorPlatforms, updateDoors } from './doors';
+import { applySavedSnapshot, restoreCheckpointSnapshot } from './checkpoints';
+import { mergeLevelStream, streamLevel, updateLevelStream } from './streaming';
+import { emitSignal, updateSignals, updateTriggerZones } from './signals';
+import { updateSwitches, resetSwitches } from './switches';
+import { createInputFrame, updateInputFrame } from './input';
+import { nextRandom } from './random';
+import { checkHazardCollision, getPlayerRect, isPlatformSolid, rectIntersect, clamp } from '../utils/collision';
+
+export const createInitialPlayer = (startPosition: Vector2D): Player => ({
+  position: { ...startPosition },
+  velocity: { x: 0, y: 0 },
+  width: PLAYER_WIDTH,
+  height: PLAYER_HEIGHT,
+  isGrounded: false,
+  groundId: null,
+  isJumping: false,
+  isDead: false,
+  isGrabbing: false,
+  isOnRope: false,
+  attachedRopeId: null,
+  ropeGrip: null,
+  ledge: null,
+  lastGroundedFrame: -Infinity,
+  consumedJumpPress: -Infinity,
+  consumedGrabPress: -Infinity,
+  facingRight: true,
+  animationState: 'idle',
+});
+
+export function createInitialGameState(levelData: LevelData, levelIndex: number = 0, seed: number = 0): GameState {
+  const player = createInitialPlayer(levelData.playerStart);
+  const camera: Camera = {
+    x: levelData.playerStart.x,
+    y: levelData.playerStart.y,
+    zoom: 1,
+    shake: 0,
+  };
+  const streamed = streamLevel(levelData, camera, player);
+
+  return {
+    isPlaying: false,
+    isPaused: false,
+    currentLevel: levelIndex,
+    player,
+    camera,
+    lastCheckpoint: null,
+    checkpointSnapshot: levelData,
+    deathCount: 0,
+    levelData: streamed.levelData,
+    stream: streamed.stream,
+    rngState: seed,
+    input: createInputFrame(),
+  };
+}
+
+// Start a fresh level at a saved checkpoint, as if the player had just reached it. The saved
+// snapshot brings back what the player had done by then - pressed plates, open gates, moved boxes.
+export function startAtCheckpoint(state: GameState, checkpointId: string, savedSnapshot?: LevelData): GameState {
+  const checkpoint = state.levelData?.checkpoints.find((cp) => cp.id === checkpointId);
+  if (!state.levelData || !checkpoint) return state;
+
+  const pristine = mergeLevelStream(state.levelData, state.stream);
+  const fullLevel = savedSnapshot?.id === pristine.id ? applySavedSnapshot(pristine, savedSnapshot) : pristine;
+  const levelData: LevelData = {
+    ...fullLevel,
+    checkpoints: fullLevel.checkpoints.map((cp) => (cp.id === checkpointId ? { ...cp, isActivated: true } : cp)),
+  };
+
+  return respawnPlayer({
+    ...state,
+    levelData,
+    stream: null,
+    checkpointSnapshot: levelData,
+    lastCheckpoint: { x: checkpoint.x, y: checkpoint.y + checkpoint.height - PLAYER_HEIGHT },
+  });
+}
+
+// Kill the player outside the normal hazard checks (the debug kill), raising the same death event
+export function killPlayer(state: GameState, killedBy: string): WorldStepResult {
+  if (!state.levelData || state.player.isDead) return { state, events: [] };
+  return {
+    state: {
+      ...state,
+      player: { ...state.player, isDead: true, animationState: 'dying' },
+      deathCount: state.deathCount + 1,
+      camera: { ...state.camera, shake: 1 },
+    },
+    events: [{ type: 'death', hazardId: killedBy }],
+  };
+}
+
+// Bring the player back at the last checkpoint (or level start), with the level
+// rolled back to how it was when they got there
+export function respawnPlayer(state: GameState): GameState {
+  if (!state.levelData) return state;
+  const respawnPoint = state.lastCheckpoint || state.levelData.playerStart;
+  const fullLevel = mergeLevelStream(state.levelData, state.stream);
+  const levelData = state.checkpointSnapshot
+    ? restoreCheckpointSnapshot(fullLevel, state.checkpointSnapshot)
+    : fullLevel;
+
+  // A jump pressed just before dying doesn't fire on respawn
+  const player = { ...createInitialPlayer(respawnPoint), consumedJumpPress: state.input.actions.jump.pressedAt };
+  const camera: Camera = {
+    x: respawnPoint.x,
+    y: respawnPoint.y,
+    zoom: 1,
+    shake: 0,
+  };
+  // The respawn point may be far from where the player died, so stream around it afresh
+  const streamed = streamLevel(
+    resetSwitches({ ...levelData, platforms: resetCrumblingPlatforms(levelData.platforms) }),
+    camera,
+    player
+  );
+
+  return {
+    ...state,
+    levelData: streamed.levelData,
+    stream: streamed.stream,
+    player,
+    camera,
+    isPaused: false,
+  };
+}
+
+// Advance the world by one fixed step
+export function stepWorld(
+  state: GameState,
+  input: InputState,
+  fixedDt: number = FIXED_TIMESTEP
+): WorldStepResult {
+  const events: WorldEvent[] = [];
+
+  if (!state.levelData) return { state, events };
+  // Don't update if dead (wait for restart) - only the view keeps shaking
+  if (state.player.isDead) {
+    if (state.camera.shake < CAMERA_SHAKE_MIN) return { state, events };
+    return { state: { ...state, ...shakeCamera(state.camera, state.rngState) }, events };
+  }
+
+  const inputFrame = updateInputFrame(state.input, input);
+  // Load the segments coming into range and put the ones left behind to sleep
+  const streamed = updateLevelStream(state.levelData, state.stream, state.camera, state.player);
+  const levelBefore = streamed.levelData;
+  let levelData: LevelData = { ...levelBefore };
+  let deathCount = state.deathCount;
+  let lastCheckpoint = state.lastCheckpoint;
+  let reachedCheckpoint = false;
+  let shake = state.camera.shake;
+
+  // Update moving and crumbling platforms
+  levelData.platforms = updateMovingPlatforms(levelData.platforms, fixedDt);
+  levelData.platforms = updateCrumblingPlatforms(levelData.platforms, state.player, fixedDt);
+  const platformDeltas = getMovementDeltas(levelBefore.platforms, levelData.platforms);
+
+  // Advance crushers, swinging and sliding saws
+  levelData.hazards = updateHazards(levelData.hazards, fixedDt);
+
+  // Open and close doors, shoving anything in a closing door's way
+  let crushedBy: string | null = null;
+  let player = state.player;
+  if (levelData.doors) {
+    const doorResult = updateDoors(levelData.doors, player, levelData.pushableObjects, levelData.platforms, fixedDt);
+    levelData.doors = doorResult.doors;
+    levelData.pushableObjects = doorResult.pushableObjects;
+    player = doorResult.player;
+    crushedBy = doorResult.crushedBy;
+  }
+
+  // Closed doors collide like platforms
+  const solids = [...levelData.platforms, ...getDoorPlatforms(levelData.doors)];
+
+  // Update pushable objects
+  levelData.pushableObjects = updatePushablePhysics(
+    levelData.pushableObjects,
+    player,
+    solids,
+    input,
+    fixedDt,
+    platformDeltas
+  );
+
+  // Check for rope grab/release, then swing every rope with whoever or whatever hangs on it
+  const ropeResult = checkRopeGrab(player, levelData.ropes, inputFrame);
+  const ropeStep = updateRopes(ropeResult.ropes, ropeResult.player, levelData.pushableObjects, solids, inputFrame, fixedDt);
+  const currentPlayer = ropeStep.player;
+  levelData.ropes = ropeStep.ropes;
+  levelData.pushableObjects = ropeStep.pushableObjects;
+
+  // Update player physics (skipped if on rope), carried by whatever moved under them
+  const carrierDeltas = new Map([
+    ...platformDeltas,
+    ...getMovementDeltas(levelBefore.pushableObjects, levelData.pushableObjects),
+  ]);
+  const newPlayer = {
+    ...updatePlayerPhysics(currentPlayer, inputFrame, { ...levelData, platforms: solids }, fixedDt, carrierDeltas),
+  };
+  const playerRect = getPlayerRect(newPlayer);
+
+  // Check hazard collisions (a door closing on the player, or a platform pinching them, counts as one)
+  const killedBy =
+    crushedBy ??
+    findPinchingPlatform(newPlayer, solids, platformDeltas)?.id ??
+    levelData.hazards.find((hazard) => checkHazardCollision(newPlayer, hazard))?.id;
+  if (killedBy) {
+    newPlayer.isDead = true;
+    newPlayer.animationState = 'dying';
+    deathCount += 1;
+    shake = 1;
+    events.push({ type: 'death', hazardId: killedBy });
+  }
+
+  // Check checkpoint collisions
+  for (const cp of levelData.checkpoints) {
+    if (cp.isActivated || !rectIntersect(playerRect, cp)) continue;
+
+    lastCheckpoint = { x: cp.x, y: cp.y + cp.height - newPlayer.height };
+    reachedCheckpoint = true;
+    events.push({ type: 'checkpoint', checkpointId: cp.id });
+    levelData = {
+      ...levelData,
+      checkpoints: levelData.checkpoints.map((c) => (c.id === cp.id ? { ...c, isActivated: true } : c)),
+    };
+    if (cp.links) levelData = emitSignal(levelData, cp.links, true);
+  }
+
+  // Check switch interactions
+  const switchResult = updateSwitches(levelData, playerRect, inputFrame, fixedDt);
+  levelData = switchResult.levelData;
+  events.push(...switchResult.events);
+
+  // Trigger zones, delayed actions, gates and timers
+  levelData = updateTriggerZones(levelData, playerRect);
+  levelData = updateSignals(levelData, fixedDt);
+
+  // Check exit zones - the main one, then any alternate or secret ways out
+  const exit = [levelData.exitZone, ...(levelData.exits ?? [])].find((zone) => rectIntersect(playerRect, zone));
+  if (exit) {
+    events.push({ type: 'levelComplete', exit });
+  }
+
+  return {
+    state: {
+      ...state,
+      ...shakeCamera(updateCamera(state.camera, newPlayer, levelData, shake), state.rngState),
+      player: newPlayer,
+      lastCheckpoint,
+      // The finished level of this step (all of it, not just what's loaded) is the snapshot to come back to
+      checkpointSnapshot: reachedCheckpoint ? mergeLevelStream(levelData, streamed.stream) : state.checkpointSnapshot,
+      deathCount,
+      levelData,
+      stream: streamed.stream,
+      input: inputFrame,
+    },
+    events,
+  };
+}
+
+// A solid the player is still stuck inside after collisions - squeezed between a moving platform and
+// something else, since normal contact always ends flush. A moving platform against them gets the blame.
+function findPinchingPlatform(
+  player: Player,
+  solids: Platform[],
+  platformDeltas: Map<string, Vector2D>
+): Platform | undefined {
+  const rect = getPlayerRect(player);
+  const pinching = solids.filter((platform) => {
+    if (platform.type === 'one-way' || !isPlatformSolid(platform) || !rectIntersect(rect, platform)) return false;
+    const overlapX = Math.min(rect.x + rect.width, platform.x + platform.width) - Math.max(rect.x, platform.x);
+    const overlapY = Math.min(rect.y + rect.height, platform.y + platform.height) - Math.max(rect.y, platform.y);
+    return Math.min(overlapX, overlapY) > PINCH_TOLERANCE;
+  });
+  if (pinching.length === 0) return undefined;
+
+  const touching: Rectangle = { x: rect.x - 1, y: rect.y - 1, width: rect.width + 2, height: rect.height + 2 };
+  return solids.find((platform) => platformDeltas.has(platform.id) && rectIntersect(touching, platform)) ?? pinching[0];
+}
+
+function updateCamera(camera: Camera, player: Player, levelData: LevelData, shake: number): Camera {
+  const targetCameraX = player.position.x + player.width / 2;
+  const targetCameraY = player.position.y + player.height / 2;
+
+  // Smooth camera follow
+  const cameraSpeed = 0.08;
+  const newCameraX = camera.x + (targetCameraX - camera.x) * cameraSpeed;
+  const newCameraY = camera.y + (targetCameraY - camera.y) * cameraSpeed;
+
+  // Clamp camera to level bounds
+  const halfWidth = CANVAS_WIDTH / 2 / camera.zoom;
+  const halfHeight = CANVAS_HEIGHT / 2 / camera.zoom;
+
+  return {
+    x: clamp(newCameraX, halfWidth, levelData.width - halfWidth),
+    y: clamp(newCameraY, halfHeight, levelData.height - halfHeight),
+    zoom: camera.zoom,
+    shake: shake * 0.9, // Decay shake
+  };
+}
+
+// Jolt the view by a random offset while it shakes. The offset comes from the seeded generator,
+// so a replay shakes exactly like the session it recorded.
+function shakeCamera(camera: Camera, rngState: number): { camera: Camera; rngState: number } {
+  if (camera.shake < CAMERA_SHAKE_MIN) return { camera: { ...camera, shakeOffset: undefined }, rngState };
+
+  const x = nextRandom(rngState);
+  const y = nextRandom(x.rngState);
+  const shakeOffset = {
+    x: camera.shake * (x.value - 0.5) * CAMERA_SHAKE_STRENGTH,
+    y: camera.shake * (y.value - 0.5) * CAMERA_SHAKE_STRENGTH,
+  };
+  return { camera: { ...camera, shakeOffset }, rngState: y.rngState };
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// Blend two consecutive simulation states for rendering between fixed steps.
+// Only visual positions are blended; everything else comes from the newer state.
+export function interpolateState(prev: GameState, curr: GameState, alpha: number): GameState {
+  if (alpha >= 1 || prev === curr || !prev.levelData || !curr.levelData) return curr;
+  // A level load or respawn is a hard cut, never blend across it
+  if (prev.levelData.id !== curr.levelData.id || prev.player.isDead !== curr.player.isDead) {
+    return curr;
+  }
+
+  const prevLevel = prev.levelData;
+  const currLevel = curr.levelData;
+
+  return {
+    ...curr,
+    player: {
+      ...curr.player,
+      position: {
+        x: lerp(prev.player.position.x, curr.player.position.x, alpha),
+        y: lerp(prev.player.position.y, curr.player.position.y, alpha),
+      },
+    },
+    camera: {
+      ...curr.camera,
+      x: lerp(prev.camera.x, curr.camera.x, alpha),
+      y: lerp(prev.camera.y, curr.camera.y, alpha),
+    },
+    levelData: {
+      ...currLevel,
+      platforms: currLevel.platforms.map((platform, i) => {
+        const before = prevLevel.platforms[i];
+        if (!before || before.id !== platform.id || platform.type !== 'moving') return platform;
+        return { ...platform, x: lerp(before.x, platform.x, alpha), y: lerp(before.y, platform.y, alpha) };
+      }),
+      ropes: currLevel.ropes.map((rope, i) => {
+        const before = prevLevel.ropes[i];
+        const prevPoints = before?.id === rope.id ? before.points : undefined;
+        if (!prevPoints || !rope.points || prevPoints.length !== rope.points.length) return rope;
+        return {
+          ...rope,
+          points: rope.points.map((point, j) => ({
+            ...point,
+            x: lerp(prevPoints[j].x, point.x, alpha),
+            y: lerp(prevPoints[j].y, point.y, alpha),
+          })),
+        };
+      }),
+      hazards: currLevel.hazards.map((hazard, i) => {
+        const before = prevLevel.hazards[i];
+        if (!before || before.id !== hazard.id || !hazard.offset || !before.offset) return hazard;
+        return {
+          ...hazard,
+          offset: { x: lerp(before.offset.x, hazard.offset.x, alpha), y: lerp(before.offset.y, hazard.offset.y, alpha) },
+        };
+      }),
+      doors: currLevel.doors?.map((door, i) => {
+        const before = prevLevel.doors?.[i];
+        if (!before || before.id !== door.id) return door;
+        return { ...door, openAmount: lerp(before.openAmount, door.openAmount, alpha) };
+      }),
+      pushableObjects: currLevel.pushableObjects.map((obj, i) => {
+        const before = prevLevel.pushableObjects[i];
+        if (!before || before.id !== obj.id) return obj;
+        return { ...obj, x: lerp(before.x, obj.x, alpha), y: lerp(before.y, obj.y, alpha) };
+      }),
+    },
+  };
+}
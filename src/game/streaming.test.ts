@@ -0,0 +1,103 @@
+// Level streaming tests - which entities are loaded, crossing segment boundaries and respawning far away
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import { createTestLevel, runSimulation } from './headless';
+import { createInitialGameState, respawnPlayer } from './simulation';
+import { mergeLevelStream } from './streaming';
+
+// Three 2000px segments, each with its own ground and moving platform
+function createStreamedLevel(): LevelData {
+  const lift = (id: string, x: number) => ({
+    id,
+    x,
+    y: 400,
+    width: 100,
+    height: 20,
+    type: 'moving' as const,
+    path: {
+      waypoints: [
+        { x, y: 400 },
+        { x: x + 300, y: 400 },
+      ],
+      speed: 2,
+    },
+  });
+
+  return createTestLevel({
+    width: 6000,
+    platforms: [
+      { id: 'ground-a', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+      lift('lift-a', 600),
+      { id: 'ground-b', x: 2000, y: 620, width: 2000, height: 100, type: 'solid' },
+      { id: 'ground-c', x: 4000, y: 620, width: 2000, height: 100, type: 'solid' },
+      lift('lift-c', 5000),
+    ],
+    hazards: [{ id: 'saw', x: 5500, y: 560, width: 60, height: 60, type: 'saw', isActive: true }],
+    switches: [
+      { id: 'lever', x: 300, y: 595, width: 40, height: 25, type: 'lever', isActivated: false, targetIds: ['saw'] },
+    ],
+    exitZone: { x: 5950, y: 0, width: 50, height: 620 },
+    segments: [
+      { id: 'a', x: 0, width: 2000 },
+      { id: 'b', x: 2000, width: 2000 },
+      { id: 'c', x: 4000, width: 2000 },
+    ],
+  });
+}
+
+const ids = (entities: { id: string }[]) => entities.map((entity) => entity.id);
+
+describe('level streaming', () => {
+  it('loads only the segments near the start, plus signal targets', () => {
+    const level = createStreamedLevel();
+    const state = createInitialGameState(level);
+
+    expect(ids(state.levelData!.platforms)).toEqual(['ground-a', 'lift-a']);
+    expect(ids(state.levelData!.hazards)).toEqual(['saw']);
+    expect(ids(state.stream!.dormant.platforms)).toEqual(['ground-b', 'ground-c', 'lift-c']);
+    expect(mergeLevelStream(state.levelData!, state.stream)).toEqual(level);
+  });
+
+  it('leaves levels without segments fully loaded', () => {
+    const level = { ...createStreamedLevel(), segments: undefined };
+    const state = createInitialGameState(level);
+
+    expect(state.stream).toBeNull();
+    expect(state.levelData).toBe(level);
+  });
+
+  it('freezes far platforms while near ones keep moving', () => {
+    const level = createStreamedLevel();
+    const { state } = runSimulation(level, [{ frames: 60 }]);
+
+    expect(state.levelData!.platforms.find((p) => p.id === 'lift-a')!.x).toBeGreaterThan(600);
+    expect(state.stream!.dormant.platforms.find((p) => p.id === 'lift-c')).toEqual(level.platforms[4]);
+  });
+
+  it('walks across a segment boundary onto ground loaded on the way', () => {
+    const { state } = runSimulation(createStreamedLevel(), [{ frames: 600, input: { right: true } }], {
+      startPosition: { x: 1500, y: 570 },
+      until: (s) => s.player.position.x > 2500,
+    });
+
+    expect(state.player.isGrounded).toBe(true);
+    expect(state.player.isDead).toBe(false);
+    expect(state.stream!.lastSegment).toBe(1);
+    expect(ids(state.levelData!.platforms)).toContain('ground-b');
+    expect(ids(state.stream!.dormant.platforms)).toEqual(['ground-c', 'lift-c']);
+  });
+
+  it('streams around the respawn point, with the whole level rolled back', () => {
+    const level = createStreamedLevel();
+    const { state } = runSimulation(level, [{ frames: 600, input: { right: true } }], {
+      startPosition: { x: 3000, y: 570 },
+      until: (s) => s.player.position.x > 4500,
+    });
+    expect(state.stream!.firstSegment).toBe(1);
+
+    const respawned = respawnPlayer({ ...state, player: { ...state.player, isDead: true } });
+    expect(respawned.stream).toMatchObject({ firstSegment: 0, lastSegment: 0 });
+    expect(mergeLevelStream(respawned.levelData!, respawned.stream)).toEqual(level);
+  });
+});
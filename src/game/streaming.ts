@@ -0,0 +1,138 @@
+// Level streaming - long levels are split into segments, and only the entities of the segments
+// near the camera and player are simulated. The rest wait, frozen as they were, until the
+// player comes close again. Crossing a segment boundary swaps entities in and out mid-step,
+// so there is never a loading screen.
+
+import { Camera, LevelData, LevelSegment, LevelStream, Player, Rope } from '../types/game';
+import { CANVAS_WIDTH, STREAM_MARGIN } from './constants';
+import { getHazardRect } from './hazards';
+import { getSwitchLinks } from './signals';
+
+const STREAMED_LISTS = ['platforms', 'hazards', 'pushableObjects', 'ropes'] as const;
+
+interface Span {
+  left: number;
+  right: number;
+}
+
+// Split a complete level into the loaded entities (kept in levelData) and the dormant rest.
+// Levels without segments are always fully loaded.
+export function streamLevel(
+  levelData: LevelData,
+  camera: Camera,
+  player: Player
+): { levelData: LevelData; stream: LevelStream | null } {
+  const segments = levelData.segments ?? [];
+  if (segments.length < 2) return { levelData, stream: null };
+
+  const [firstSegment, lastSegment] = getSegmentRange(segments, getFocusSpan(camera, player));
+  const loaded: Span = {
+    left: segments[firstSegment].x,
+    right: segments[lastSegment].x + segments[lastSegment].width,
+  };
+  const pinned = getPinnedIds(levelData);
+  const isLoaded = (id: string, span: Span) => pinned.has(id) || (span.right > loaded.left && span.left < loaded.right);
+
+  const order: Record<string, number> = {};
+  for (const list of STREAMED_LISTS) {
+    levelData[list].forEach((entity, i) => (order[entity.id] = i));
+  }
+
+  const [platforms, dormantPlatforms] = partition(levelData.platforms, (p) =>
+    isLoaded(p.id, { left: p.x, right: p.x + p.width })
+  );
+  const [hazards, dormantHazards] = partition(levelData.hazards, (h) => {
+    const rect = getHazardRect(h);
+    return isLoaded(h.id, { left: rect.x, right: rect.x + rect.width });
+  });
+  const [pushableObjects, dormantPushables] = partition(levelData.pushableObjects, (o) =>
+    isLoaded(o.id, { left: o.x, right: o.x + o.width })
+  );
+  const [ropes, dormantRopes] = partition(levelData.ropes, (r) => isLoaded(r.id, getRopeSpan(r)));
+
+  return {
+    levelData: { ...levelData, platforms, hazards, pushableObjects, ropes },
+    stream: {
+      firstSegment,
+      lastSegment,
+      order,
+      dormant: { platforms: dormantPlatforms, hazards: dormantHazards, pushableObjects: dormantPushables, ropes: dormantRopes },
+    },
+  };
+}
+
+// Restream once the camera or player has moved far enough to change which segments are loaded
+export function updateLevelStream(
+  levelData: LevelData,
+  stream: LevelStream | null,
+  camera: Camera,
+  player: Player
+): { levelData: LevelData; stream: LevelStream | null } {
+  if (!stream || !levelData.segments) return { levelData, stream };
+
+  const [firstSegment, lastSegment] = getSegmentRange(levelData.segments, getFocusSpan(camera, player));
+  if (firstSegment === stream.firstSegment && lastSegment === stream.lastSegment) {
+    return { levelData, stream };
+  }
+  return streamLevel(mergeLevelStream(levelData, stream), camera, player);
+}
+
+// The complete level - loaded and dormant entities back together, in their original order
+export function mergeLevelStream(levelData: LevelData, stream: LevelStream | null): LevelData {
+  if (!stream) return levelData;
+
+  const inOrder = <T extends { id: string }>(loaded: T[], dormant: T[]): T[] =>
+    [...loaded, ...dormant].sort((a, b) => stream.order[a.id] - stream.order[b.id]);
+  return {
+    ...levelData,
+    platforms: inOrder(levelData.platforms, stream.dormant.platforms),
+    hazards: inOrder(levelData.hazards, stream.dormant.hazards),
+    pushableObjects: inOrder(levelData.pushableObjects, stream.dormant.pushableObjects),
+    ropes: inOrder(levelData.ropes, stream.dormant.ropes),
+  };
+}
+
+// The stretch of level that needs to be live: what the camera sees and where the player is, plus a margin
+function getFocusSpan(camera: Camera, player: Player): Span {
+  const halfWidth = CANVAS_WIDTH / 2 / camera.zoom;
+  return {
+    left: Math.min(camera.x - halfWidth, player.position.x) - STREAM_MARGIN,
+    right: Math.max(camera.x + halfWidth, player.position.x + player.width) + STREAM_MARGIN,
+  };
+}
+
+// First and last segment overlapping the span, clamped to the level
+function getSegmentRange(segments: LevelSegment[], span: Span): [number, number] {
+  let first = segments.findIndex((segment) => segment.x + segment.width > span.left);
+  if (first === -1) first = segments.length - 1;
+  let last = first;
+  while (last < segments.length - 1 && segments[last + 1].x < span.right) last++;
+  return [first, last];
+}
+
+function getRopeSpan(rope: Rope): Span {
+  const xs = [rope.anchorX - rope.length, rope.anchorX + rope.length, ...(rope.points ?? []).map((p) => p.x)];
+  return { left: Math.min(...xs), right: Math.max(...xs) };
+}
+
+// Entities that stay loaded wherever the player is - signal targets, which can be driven from
+// anywhere in the level, and ropes with their loads, which move together
+function getPinnedIds(levelData: LevelData): Set<string> {
+  const links = [
+    ...levelData.switches.flatMap(getSwitchLinks),
+    ...levelData.checkpoints.flatMap((cp) => cp.links ?? []),
+    ...(levelData.zones ?? []).flatMap((zone) => zone.links),
+    ...(levelData.logic ?? []).flatMap((entity) => entity.links),
+  ];
+  const pinned = new Set(links.map((link) => link.targetId));
+  for (const rope of levelData.ropes) {
+    if (!rope.loadId) continue;
+    pinned.add(rope.id);
+    pinned.add(rope.loadId);
+  }
+  return pinned;
+}
+
+function partition<T>(entities: T[], isLoaded: (entity: T) => boolean): [T[], T[]] {
+  return [entities.filter(isLoaded), entities.filter((entity) => !isLoaded(entity))];
+}
@@ -0,0 +1,129 @@
+// Switch mode tests - toggle, momentary, timed and one-shot levers and buttons
+
+import { describe, it, expect } from 'vitest';
+import { InputState, LevelData, Switch, SwitchMode } from '../types/game';
+import { FIXED_TIMESTEP } from './constants';
+import { NO_INPUT, createHeadlessState, createTestLevel } from './headless';
+import { respawnPlayer, stepWorld } from './simulation';
+import { updateSwitches } from './switches';
+import { createInputFrame, updateInputFrame } from './input';
+import { level2 } from '../levels';
+
+const IN_REACH = { x: 100, y: 570, width: 30, height: 50 };
+const OUT_OF_REACH = { x: 500, y: 570, width: 30, height: 50 };
+const ACTION: InputState = { ...NO_INPUT, action: true };
+
+function createSwitchLevel(mode: SwitchMode, duration?: number): LevelData {
+  return createTestLevel({
+    id: 'switches',
+    hazards: [{ id: 'saw', x: 1500, y: 560, width: 50, height: 50, type: 'saw', isActive: true }],
+    switches: [
+      { id: 'lever', x: 90, y: 580, width: 40, height: 40, type: 'lever', isActivated: false, targetIds: ['saw'], mode, duration },
+    ],
+  });
+}
+
+// Feed a sequence of (in reach + holding action?) steps through updateSwitches
+function press(level: LevelData, held: boolean[]): { level: LevelData; ticks: number } {
+  let ticks = 0;
+  let input = createInputFrame();
+  for (const isHeld of held) {
+    input = updateInputFrame(input, isHeld ? ACTION : NO_INPUT);
+    const result = updateSwitches(level, isHeld ? IN_REACH : OUT_OF_REACH, input, FIXED_TIMESTEP);
+    level = result.levelData;
+    ticks += result.events.filter((event) => event.type === 'switchTick').length;
+  }
+  return { level, ticks };
+}
+
+const lever = (level: LevelData): Switch => level.switches[0];
+const repeat = (value: boolean, count: number): boolean[] => Array(count).fill(value);
+
+describe('switch modes', () => {
+  it('latches a one-shot lever on for good', () => {
+    const { level } = press(createSwitchLevel('one-shot'), [true, false, true, false]);
+
+    expect(lever(level).isActivated).toBe(true);
+    expect(level.hazards[0].isActive).toBe(false);
+  });
+
+  it('keeps a momentary lever on only while held', () => {
+    const held = press(createSwitchLevel('momentary'), [true, true]).level;
+    expect(lever(held).isActivated).toBe(true);
+    expect(held.hazards[0].isActive).toBe(false);
+
+    const released = press(held, [false]).level;
+    expect(lever(released).isActivated).toBe(false);
+    expect(released.hazards[0].isActive).toBe(true);
+  });
+
+  it('flips a toggle lever once per press, not per frame held', () => {
+    const once = press(createSwitchLevel('toggle'), [...repeat(true, 10), false]).level;
+    expect(lever(once).isActivated).toBe(true);
+
+    const twice = press(once, [true, true, false]).level;
+    expect(lever(twice).isActivated).toBe(false);
+    expect(twice.hazards[0].isActive).toBe(true);
+  });
+
+  it('counts a timed lever down after release and ticks while it does', () => {
+    const level = createSwitchLevel('timed', 1000);
+
+    const running = press(level, [true, ...repeat(false, 36)]);
+    expect(lever(running.level).isActivated).toBe(true);
+    expect(lever(running.level).timeRemaining).toBeCloseTo(400, 0);
+    expect(running.level.hazards[0].isActive).toBe(false);
+    expect(running.ticks).toBe(1);
+
+    const expired = press(level, [true, ...repeat(false, 61)]);
+    expect(lever(expired.level).isActivated).toBe(false);
+    expect(expired.level.hazards[0].isActive).toBe(true);
+  });
+
+  it('treats a lever without a mode as one-shot', () => {
+    const level = createSwitchLevel('one-shot');
+    const legacy = { ...level, switches: [{ ...lever(level), mode: undefined }] };
+
+    expect(lever(press(legacy, [true, false]).level).isActivated).toBe(true);
+  });
+});
+
+describe('switches on respawn', () => {
+  it('turns timed switches off again and restores their targets', () => {
+    let state = createHeadlessState(createSwitchLevel('timed', 5000));
+    state = stepWorld(state, ACTION).state;
+    expect(state.levelData!.hazards[0].isActive).toBe(false);
+
+    state = respawnPlayer({ ...state, player: { ...state.player, isDead: true } });
+    expect(lever(state.levelData!).isActivated).toBe(false);
+    expect(state.levelData!.hazards[0].isActive).toBe(true);
+  });
+
+  it('rolls toggled levers back unless they persist across deaths', () => {
+    const toggled = (level: LevelData) => {
+      const state = stepWorld(createHeadlessState(level), ACTION).state;
+      return respawnPlayer(state).levelData!;
+    };
+
+    const level = createSwitchLevel('toggle');
+    expect(lever(toggled(level)).isActivated).toBe(false);
+    expect(toggled(level).hazards[0].isActive).toBe(true);
+
+    const persistent = { ...level, switches: [{ ...lever(level), persistAcrossDeaths: true }] };
+    expect(lever(toggled(persistent)).isActivated).toBe(true);
+  });
+});
+
+describe('level 2 crusher button', () => {
+  it('stops the crushers only for a while', () => {
+    let state = createHeadlessState(level2, { startPosition: { x: 2160, y: 570 } });
+    for (let i = 0; i < 30; i++) state = stepWorld(state, NO_INPUT).state;
+    state = stepWorld(state, ACTION).state;
+
+    const crushers = () => state.levelData!.hazards.filter((h) => h.type === 'crusher');
+    expect(crushers().every((h) => !h.isActive)).toBe(true);
+
+    for (let i = 0; i < 370; i++) state = stepWorld(state, NO_INPUT).state;
+    expect(crushers().every((h) => h.isActive)).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+// Switches - levers, buttons and pressure plates in their different modes
+
+import { InputFrame, LevelData, Rectangle, Switch, SwitchMode, WorldEvent } from '../types/game';
+import { SWITCH_TICK_INTERVAL, SWITCH_TIMED_DURATION } from './constants';
+import { emitSignal, getSwitchLinks } from './signals';
+import { rectIntersect } from '../utils/collision';
+
+export function getSwitchMode(sw: Switch): SwitchMode {
+  return sw.mode ?? (sw.type === 'pressurePlate' ? 'momentary' : 'one-shot');
+}
+
+export function getSwitchDuration(sw: Switch): number {
+  return sw.duration ?? SWITCH_TIMED_DURATION;
+}
+
+export function updateSwitches(
+  levelData: LevelData,
+  playerRect: Rectangle,
+  input: InputFrame,
+  deltaTime: number
+): { levelData: LevelData; events: WorldEvent[] } {
+  let result = levelData;
+  const events: WorldEvent[] = [];
+
+  for (const sw of levelData.switches) {
+    // Plates are held by weight (player or any pushable), levers and buttons by the action key.
+    // The press has to start within reach: walking up with action already held doesn't pull a lever.
+    const action = input.actions.action;
+    const isPressed =
+      sw.type === 'pressurePlate'
+        ? rectIntersect(playerRect, sw) || levelData.pushableObjects.some((pushable) => rectIntersect(pushable, sw))
+        : rectIntersect(playerRect, sw) && (action.pressed || (action.held && !!sw.isPressed));
+    const wasJustPressed = isPressed && !sw.isPressed;
+
+    const next: Switch = { ...sw, isPressed };
+    switch (getSwitchMode(sw)) {
+      case 'momentary':
+        next.isActivated = isPressed;
+        break;
+      case 'one-shot':
+        next.isActivated = sw.isActivated || isPressed;
+        break;
+      case 'toggle':
+        next.isActivated = wasJustPressed ? !sw.isActivated : sw.isActivated;
+        break;
+      case 'timed':
+        updateTimedSwitch(next, deltaTime, events);
+        break;
+    }
+
+    if (next.isActivated === sw.isActivated && next.isPressed === sw.isPressed && next.timeRemaining === sw.timeRemaining) {
+      continue;
+    }
+
+    result = { ...result, switches: result.switches.map((s) => (s.id === sw.id ? next : s)) };
+    if (next.isActivated !== sw.isActivated) {
+      result = emitSignal(result, getSwitchLinks(sw), next.isActivated);
+    }
+  }
+
+  return { levelData: result, events };
+}
+
+// Held: stay on with a full timer. Released: count down, ticking as it goes.
+function updateTimedSwitch(sw: Switch, deltaTime: number, events: WorldEvent[]): void {
+  if (sw.isPressed) {
+    sw.isActivated = true;
+    sw.timeRemaining = getSwitchDuration(sw);
+    return;
+  }
+  if (!sw.isActivated) return;
+
+  const before = sw.timeRemaining ?? 0;
+  const after = Math.max(0, before - deltaTime);
+  sw.timeRemaining = after;
+
+  if (after <= 0) {
+    sw.isActivated = false;
+  } else if (Math.ceil(after / SWITCH_TICK_INTERVAL) !== Math.ceil(before / SWITCH_TICK_INTERVAL)) {
+    events.push({ type: 'switchTick', switchId: sw.id, timeRemaining: after });
+  }
+}
+
+// On respawn nobody is holding anything: timed and momentary switches drop back
+// to off (and their targets with them). Toggled and one-shot switches keep their state.
+export function resetSwitches(levelData: LevelData): LevelData {
+  let result = levelData;
+
+  for (const sw of levelData.switches) {
+    const mode = getSwitchMode(sw);
+    const turnsOff = sw.isActivated && (mode === 'timed' || mode === 'momentary');
+    if (!turnsOff && !sw.isPressed) continue;
+
+    const next: Switch = turnsOff
+      ? { ...sw, isActivated: false, isPressed: false, timeRemaining: 0 }
+      : { ...sw, isPressed: false };
+    result = { ...result, switches: result.switches.map((s) => (s.id === sw.id ? next : s)) };
+    if (turnsOff) {
+      result = emitSignal(result, getSwitchLinks(sw), false);
+    }
+  }
+
+  return result;
+}
@@ -1,6 +1,7 @@
 // Audio system hook for ambient sounds and effects
 
 import { useEffect, useRef, useCallback } from 'react';
+import { ChapterAmbience, MusicCue } from '../types/game';
 import { getCurrentWeather } from '../components/game/renderers/EffectsRenderer';
 
 interface AudioState {
@@ -18,6 +19,22 @@ interface AudioState {
   weatherUpdateInterval: number | null;
 }
 
+// Chapter stings - a few slow notes, one after another, each ringing into the next
+const MUSIC_CUES: Record<MusicCue, { notes: number[]; wave: OscillatorType; spacing: number; volume: number }> = {
+  dread: { notes: [110, 103.8, 98, 82.4], wave: 'triangle', spacing: 0.9, volume: 0.12 },
+  wonder: { notes: [261.6, 392, 523.3, 784], wave: 'sine', spacing: 0.6, volume: 0.08 },
+  resolve: { notes: [196, 246.9, 293.7, 392], wave: 'sine', spacing: 0.5, volume: 0.1 },
+};
+
+// Chapter intro beds - filtered noise that swells in under the title card, with an optional hum
+const AMBIENCE_SWELLS: Record<ChapterAmbience, { filter: BiquadFilterType; frequency: number; q: number; hum?: number }> = {
+  wind: { filter: 'bandpass', frequency: 500, q: 0.8 },
+  rain: { filter: 'highpass', frequency: 1200, q: 0.5 },
+  machinery: { filter: 'lowpass', frequency: 250, q: 1, hum: 55 },
+  hollow: { filter: 'bandpass', frequency: 900, q: 8, hum: 110 },
+};
+const SWELL_DURATION = 6;
+
 export function useAudio(isPlaying: boolean, volume: number = 0.3) {
   const audioState = useRef<AudioState>({
     ambientContext: null,
@@ -681,6 +698,98 @@ export function useAudio(isPlaying: boolean, volume: number = 0.3) {
     });
   }, []);
 
+  // Play timed switch tick - a dry mechanical click, higher when time is nearly up
+  const playTickSound = useCallback((urgent: boolean = false) => {
+    const ctx = audioState.current.ambientContext;
+    const gainNode = audioState.current.gainNode;
+    if (!ctx || !gainNode) return;
+
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'square';
+    osc.frequency.value = urgent ? 1800 : 1200;
+
+    gain.gain.setValueAtTime(0.06, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.04);
+
+    osc.connect(gain);
+    gain.connect(gainNode);
+
+    osc.start();
+    osc.stop(ctx.currentTime + 0.05);
+  }, []);
+
+  // Play a chapter's music sting
+  const playMusicCue = useCallback((cue: MusicCue) => {
+    const ctx = audioState.current.ambientContext;
+    const gainNode = audioState.current.gainNode;
+    if (!ctx || !gainNode) return;
+
+    const { notes, wave, spacing, volume } = MUSIC_CUES[cue];
+    notes.forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+
+      osc.type = wave;
+      osc.frequency.value = freq;
+
+      const startTime = ctx.currentTime + i * spacing;
+      const endTime = startTime + spacing * 2.5;
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(volume, startTime + 0.2);
+      gain.gain.exponentialRampToValueAtTime(0.001, endTime);
+
+      osc.connect(gain);
+      gain.connect(gainNode);
+
+      osc.start(startTime);
+      osc.stop(endTime);
+    });
+  }, []);
+
+  // Swell a chapter's intro ambience in and back out
+  const playAmbienceSwell = useCallback((ambience: ChapterAmbience) => {
+    const ctx = audioState.current.ambientContext;
+    const gainNode = audioState.current.gainNode;
+    if (!ctx || !gainNode) return;
+
+    const { filter, frequency, q, hum } = AMBIENCE_SWELLS[ambience];
+    const now = ctx.currentTime;
+    const swellGain = ctx.createGain();
+    swellGain.gain.setValueAtTime(0, now);
+    swellGain.gain.linearRampToValueAtTime(0.15, now + SWELL_DURATION * 0.3);
+    swellGain.gain.linearRampToValueAtTime(0, now + SWELL_DURATION);
+    swellGain.connect(gainNode);
+
+    const noiseBuffer = ctx.createBuffer(1, ctx.sampleRate * SWELL_DURATION, ctx.sampleRate);
+    const noiseData = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < noiseData.length; i++) {
+      noiseData[i] = Math.random() * 2 - 1;
+    }
+    const noiseSource = ctx.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+    const noiseFilter = ctx.createBiquadFilter();
+    noiseFilter.type = filter;
+    noiseFilter.frequency.value = frequency;
+    noiseFilter.Q.value = q;
+    noiseSource.connect(noiseFilter);
+    noiseFilter.connect(swellGain);
+    noiseSource.start(now);
+
+    if (hum) {
+      const humOsc = ctx.createOscillator();
+      const humGain = ctx.createGain();
+      humOsc.type = 'sine';
+      humOsc.frequency.value = hum;
+      humGain.gain.value = 0.3;
+      humOsc.connect(humGain);
+      humGain.connect(swellGain);
+      humOsc.start(now);
+      humOsc.stop(now + SWELL_DURATION);
+    }
+  }, []);
+
   // Start/stop audio based on playing state
   useEffect(() => {
     if (isPlaying) {
@@ -724,5 +833,8 @@ export function useAudio(isPlaying: boolean, volume: number = 0.3) {
     playJumpSound,
     playLandSound,
     playCheckpointSound,
+    playTickSound,
+    playMusicCue,
+    playAmbienceSwell,
   };
 }
@@ -1,31 +1,47 @@
 // Custom hook for the game loop
+// Runs the simulation in fixed steps with an accumulator, then renders once per frame
+// with the leftover fraction of a step so motion stays smooth at any refresh rate.
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect } from 'react';
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from '../game/constants';
 
-export function useGameLoop(callback: (deltaTime: number) => void, isRunning: boolean) {
-  const requestRef = useRef<number>(undefined);
-  const previousTimeRef = useRef<number>(undefined);
+export function useGameLoop(
+  update: (fixedDt: number) => void,
+  isRunning: boolean,
+  render?: (alpha: number) => void
+) {
+  const updateRef = useRef(update);
+  const renderRef = useRef(render);
 
-  const animate = useCallback((time: number) => {
-    if (previousTimeRef.current !== undefined) {
-      const deltaTime = time - previousTimeRef.current;
-      // Cap delta time to prevent huge jumps
-      const cappedDelta = Math.min(deltaTime, 50);
-      callback(cappedDelta);
-    }
-    previousTimeRef.current = time;
-    requestRef.current = requestAnimationFrame(animate);
-  }, [callback]);
+  // Always call the latest callbacks without restarting the loop
+  useEffect(() => {
+    updateRef.current = update;
+    renderRef.current = render;
+  }, [update, render]);
 
   useEffect(() => {
-    if (isRunning) {
-      previousTimeRef.current = performance.now();
-      requestRef.current = requestAnimationFrame(animate);
-    }
-    return () => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
+    if (!isRunning) return;
+
+    let requestId = 0;
+    let previousTime = performance.now();
+    let accumulator = 0;
+
+    const animate = (time: number) => {
+      // Cap frame time to prevent a spiral of catch-up steps after a stall
+      const frameTime = Math.min(time - previousTime, MAX_FRAME_TIME);
+      previousTime = time;
+      accumulator += Math.max(0, frameTime);
+
+      while (accumulator >= FIXED_TIMESTEP) {
+        updateRef.current(FIXED_TIMESTEP);
+        accumulator -= FIXED_TIMESTEP;
       }
+
+      renderRef.current?.(accumulator / FIXED_TIMESTEP);
+      requestId = requestAnimationFrame(animate);
     };
-  }, [isRunning, animate]);
+
+    requestId = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(requestId);
+  }, [isRunning]);
 }
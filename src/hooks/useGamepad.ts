@@ -0,0 +1,104 @@
+// Custom hook for gamepad input
+// Polls navigator.getGamepads() every animation frame while a pad is connected.
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { InputBindings, InputCommand, InputState } from '../types/game';
+import { GAMEPAD_BINDINGS } from '../game/constants';
+import {
+  EMPTY_INPUT,
+  getConnectedGamepads,
+  isSameInput,
+  mergeInputStates,
+  readGamepadCommands,
+  readGamepadInput,
+} from '../utils/gamepad';
+
+export interface GamepadControls {
+  input: InputState;
+  isConnected: boolean;
+  // Short vibration on every connected pad that supports it
+  rumble: (strength: number, duration: number) => void;
+}
+
+// onCommand fires once each time a pause/restart button goes down
+export function useGamepad(
+  bindings: InputBindings['buttons'] = GAMEPAD_BINDINGS,
+  onCommand?: (command: InputCommand) => void,
+  rumbleEnabled: boolean = true
+): GamepadControls {
+  const [input, setInput] = useState<InputState>(EMPTY_INPUT);
+  const [isConnected, setIsConnected] = useState(() => getConnectedGamepads().length > 0);
+  const inputRef = useRef<InputState>(EMPTY_INPUT);
+  const onCommandRef = useRef(onCommand);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  // Hot-plugging: poll only while at least one pad is connected
+  useEffect(() => {
+    const handleChange = () => {
+      const connected = getConnectedGamepads().length > 0;
+      setIsConnected(connected);
+      // Unplugging mid-press must not leave a direction held
+      if (!connected) {
+        inputRef.current = EMPTY_INPUT;
+        setInput(EMPTY_INPUT);
+      }
+    };
+
+    window.addEventListener('gamepadconnected', handleChange);
+    window.addEventListener('gamepaddisconnected', handleChange);
+    return () => {
+      window.removeEventListener('gamepadconnected', handleChange);
+      window.removeEventListener('gamepaddisconnected', handleChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    let requestId = 0;
+    let heldCommands: InputCommand[] = [];
+    const poll = () => {
+      const pads = getConnectedGamepads();
+      const next = mergeInputStates(EMPTY_INPUT, ...pads.map((pad) => readGamepadInput(pad, undefined, bindings)));
+      // Only re-render when something actually changed
+      if (!isSameInput(next, inputRef.current)) {
+        inputRef.current = next;
+        setInput(next);
+      }
+
+      const commands = pads.flatMap((pad) => readGamepadCommands(pad, bindings));
+      for (const command of new Set(commands)) {
+        if (!heldCommands.includes(command)) onCommandRef.current?.(command);
+      }
+      heldCommands = commands;
+
+      requestId = requestAnimationFrame(poll);
+    };
+
+    requestId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(requestId);
+  }, [isConnected, bindings]);
+
+  const rumble = useCallback(
+    (strength: number, duration: number) => {
+      if (!rumbleEnabled) return;
+
+      for (const pad of getConnectedGamepads()) {
+        // Not every browser or controller has haptics
+        pad.vibrationActuator
+          ?.playEffect('dual-rumble', {
+            duration,
+            strongMagnitude: strength,
+            weakMagnitude: Math.min(1, strength * 1.5),
+          })
+          .catch(() => {});
+      }
+    },
+    [rumbleEnabled]
+  );
+
+  return { input, isConnected, rumble };
+}
@@ -1,58 +1,54 @@
 // Custom hook for handling keyboard input
+// Tracks which keys are held and maps them through the live bindings, so a rebind
+// takes effect immediately (even for a key that is already down).
 
-import { useState, useEffect, useCallback } from 'react';
-import { InputState } from '../types/game';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { InputBindings, InputState } from '../types/game';
 import { KEY_BINDINGS } from '../game/constants';
 
-export function useInput(): InputState {
-  const [inputState, setInputState] = useState<InputState>({
-    left: false,
-    right: false,
-    jump: false,
-    action: false,
-  });
-
-  const isKeyMatching = useCallback((code: string, keys: string[]): boolean => {
-    return keys.includes(code);
-  }, []);
+export function useInput(bindings: InputBindings['keys'] = KEY_BINDINGS): InputState {
+  const [heldKeys, setHeldKeys] = useState<string[]>([]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     // Prevent default for game keys
     if (
-      KEY_BINDINGS.left.includes(e.code) ||
-      KEY_BINDINGS.right.includes(e.code) ||
-      KEY_BINDINGS.jump.includes(e.code) ||
-      KEY_BINDINGS.action.includes(e.code)
+      bindings.left.includes(e.code) ||
+      bindings.right.includes(e.code) ||
+      bindings.jump.includes(e.code) ||
+      bindings.action.includes(e.code)
     ) {
       e.preventDefault();
     }
 
-    setInputState((prev) => ({
-      left: isKeyMatching(e.code, KEY_BINDINGS.left) ? true : prev.left,
-      right: isKeyMatching(e.code, KEY_BINDINGS.right) ? true : prev.right,
-      jump: isKeyMatching(e.code, KEY_BINDINGS.jump) ? true : prev.jump,
-      action: isKeyMatching(e.code, KEY_BINDINGS.action) ? true : prev.action,
-    }));
-  }, [isKeyMatching]);
+    setHeldKeys((prev) => (prev.includes(e.code) ? prev : [...prev, e.code]));
+  }, [bindings]);
 
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
-    setInputState((prev) => ({
-      left: isKeyMatching(e.code, KEY_BINDINGS.left) ? false : prev.left,
-      right: isKeyMatching(e.code, KEY_BINDINGS.right) ? false : prev.right,
-      jump: isKeyMatching(e.code, KEY_BINDINGS.jump) ? false : prev.jump,
-      action: isKeyMatching(e.code, KEY_BINDINGS.action) ? false : prev.action,
-    }));
-  }, [isKeyMatching]);
+    setHeldKeys((prev) => prev.filter((code) => code !== e.code));
+  }, []);
+
+  // Keys released while the window is unfocused never send keyup
+  const handleBlur = useCallback(() => setHeldKeys([]), []);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
     };
-  }, [handleKeyDown, handleKeyUp]);
-
-  return inputState;
+  }, [handleKeyDown, handleKeyUp, handleBlur]);
+
+  return useMemo(() => {
+    const isHeld = (keys: string[]) => keys.some((code) => heldKeys.includes(code));
+    return {
+      left: isHeld(bindings.left),
+      right: isHeld(bindings.right),
+      jump: isHeld(bindings.jump),
+      action: isHeld(bindings.action),
+    };
+  }, [heldKeys, bindings]);
 }
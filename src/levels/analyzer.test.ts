@@ -0,0 +1,129 @@
+// Level analyzer tests - jump reach, unreachable exits and switches, bad checkpoints, traps and overlaps
+
+import { describe, it, expect } from 'vitest';
+import { LevelData } from '../types/game';
+import { GAME_CONFIG } from '../game/constants';
+import { analyzeLevel, getJumpArc, getJumpReach } from './analyzer';
+import { createTestLevel } from '../game/headless';
+import { allLevels } from '.';
+
+// Two grounds with a jumpable gap, walled in at both ends
+const createWalledLevel = (): LevelData =>
+  createTestLevel({
+    height: 1000,
+    platforms: [
+      { id: 'wall-left', x: -40, y: 0, width: 40, height: 720, type: 'solid' },
+      { id: 'ground-1', x: 0, y: 620, width: 1000, height: 100, type: 'solid' },
+      { id: 'ground-2', x: 1100, y: 620, width: 900, height: 100, type: 'solid' },
+      { id: 'wall-right', x: 2000, y: 0, width: 40, height: 720, type: 'solid' },
+      { id: 'pit-floor', x: 1000, y: 720, width: 100, height: 20, type: 'solid' },
+    ],
+    exitZone: { x: 1900, y: 500, width: 100, height: 120 },
+  });
+
+function getErrors(level: LevelData): string[] {
+  return analyzeLevel(level)
+    .issues.filter((issue) => issue.severity === 'error')
+    .map((issue) => issue.message);
+}
+
+describe('jump arc', () => {
+  it('reaches as high as the jump force allows and no higher', () => {
+    const arc = getJumpArc();
+    expect(getJumpReach(arc, -arc.height)).toBeGreaterThan(0);
+    expect(getJumpReach(arc, -arc.height - 1)).toBe(-Infinity);
+    // Dropping further down gives the jump longer to carry across
+    expect(getJumpReach(arc, 200)).toBeGreaterThan(getJumpReach(arc, 0));
+    expect(getJumpArc({ ...GAME_CONFIG, playerJumpForce: 10 }).height).toBeLessThan(arc.height);
+  });
+});
+
+describe('analyzeLevel', () => {
+  it('finds nothing wrong with a level that can be finished', () => {
+    const report = analyzeLevel(createWalledLevel());
+    expect(report.issues).toEqual([]);
+    expect(report.reachableIds).toContain('ground-2');
+  });
+
+  it('has no errors in the built-in levels', () => {
+    for (const level of allLevels) {
+      expect(getErrors(level)).toEqual([]);
+    }
+  });
+
+  it('flags a gap wider than the jump and the exit behind it', () => {
+    const level = createWalledLevel();
+    level.platforms[2] = { ...level.platforms[2], x: 1400, width: 600 };
+    level.platforms.pop();
+    const issues = analyzeLevel(level).issues;
+
+    expect(issues).toContainEqual(expect.objectContaining({ severity: 'error', entityId: 'exitZone' }));
+    expect(issues.find((issue) => issue.entityId === 'ground-2')?.message).toMatch(/gap from "ground-1"/);
+  });
+
+  it('flags switches and platforms out of reach overhead', () => {
+    const level = createWalledLevel();
+    level.platforms.push({ id: 'high', x: 400, y: 400, width: 100, height: 20, type: 'solid' });
+    level.switches.push({ id: 'lever', x: 600, y: 300, width: 40, height: 25, type: 'lever', isActivated: false, targetIds: [] });
+    const issues = analyzeLevel(level).issues;
+
+    expect(issues.find((issue) => issue.entityId === 'high')?.message).toMatch(/above "ground-1"/);
+    expect(issues).toContainEqual(expect.objectContaining({ severity: 'error', entityId: 'lever' }));
+  });
+
+  it('counts a ledge grab and a rope swing as ways up', () => {
+    const level = createWalledLevel();
+    level.platforms.push({ id: 'ledge', x: 400, y: 450, width: 100, height: 20, type: 'solid' });
+    level.ropes.push({ id: 'rope', anchorX: 700, anchorY: 100, length: 300 });
+    const report = analyzeLevel(level);
+
+    expect(report.reachableIds).toEqual(expect.arrayContaining(['ledge', 'rope']));
+  });
+
+  it('flags checkpoints that respawn onto a hazard', () => {
+    const level = createWalledLevel();
+    level.hazards.push({ id: 'spikes', x: 500, y: 600, width: 100, height: 20, type: 'spike', isActive: true });
+    level.checkpoints.push({ id: 'cp', x: 520, y: 570, width: 40, height: 50, isActivated: false });
+
+    expect(getErrors(level)).toContain('Checkpoint "cp" respawns the player onto hazard "spikes"');
+  });
+
+  it('flags checkpoints inside a door, and lands respawns on closed ones', () => {
+    const level = createWalledLevel();
+    level.platforms.pop();
+    level.doors = [
+      { id: 'gate', x: 600, y: 300, width: 24, height: 320, style: 'portcullis', isOpen: false, openAmount: 0 },
+      { id: 'hatch', x: 1000, y: 600, width: 100, height: 20, style: 'slide-side', isOpen: false, openAmount: 0 },
+    ];
+    level.checkpoints.push(
+      { id: 'cp-gate', x: 590, y: 570, width: 40, height: 50, isActivated: false },
+      { id: 'cp-hatch', x: 1030, y: 550, width: 40, height: 50, isActivated: false }
+    );
+
+    expect(getErrors(level)).toEqual(['Checkpoint "cp-gate" overlaps door "gate"']);
+  });
+
+  it('flags pits the player can fall into but not climb out of', () => {
+    const level = createWalledLevel();
+    level.platforms[4] = { ...level.platforms[4], y: 900 };
+
+    expect(getErrors(level)).toEqual(['No way out after reaching "pit-floor"']);
+  });
+
+  it('flags pushables stuck in the ground and an exit over a hazard', () => {
+    const level = createWalledLevel();
+    level.pushableObjects.push({
+      id: 'box',
+      x: 300,
+      y: 580,
+      width: 50,
+      height: 50,
+      type: 'box',
+      velocity: { x: 0, y: 0 },
+      isBeingPushed: false,
+    });
+    level.hazards.push({ id: 'saw', x: 1920, y: 560, width: 50, height: 50, type: 'saw', isActive: true });
+
+    expect(getErrors(level)).toEqual(['Pushable "box" overlaps "ground-1"', 'The exit overlaps hazard "saw"']);
+  });
+});
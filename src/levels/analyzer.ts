@@ -0,0 +1,392 @@
+// Level analyzer - works out from the jump physics which surfaces the player can get onto,
+// then flags impossible jumps, unreachable switches and exits, checkpoints that respawn onto
+// hazards, pits with no way out and overlapping entities. It is deliberately optimistic
+// (ceilings and timing are ignored, and doors are taken to open on the way through), so
+// whatever it flags can't work even at best. Respawns and overlaps do count closed doors.
+
+import { Door, GameConfig, LevelData, LevelIssue, LevelReport, Rectangle, Vector2D } from '../types/game';
+import { GAME_CONFIG, LEDGE_GRAB_REACH, PLAYER_HEIGHT, PLAYER_WIDTH } from '../game/constants';
+import { getRopeConfig } from '../game/ropes';
+import { isPlatformSolid, rectIntersect } from '../utils/collision';
+
+// Somewhere the player can stand (or hang), as the strip along its top
+interface Surface {
+  id: string;
+  left: number;
+  right: number;
+  top: number;
+  canGrabLedge: boolean; // Corners of solid platforms catch the player's hands
+  catchArea?: Rectangle; // Ropes are caught anywhere along here rather than landed on
+  group?: string; // Stops of one moving platform, ridden between
+}
+
+// A running jump from take-off, one point per fixed step (y grows downward)
+export interface JumpArc {
+  points: Vector2D[];
+  height: number;
+}
+
+const MAX_ARC_STEPS = 600;
+const ROPE_RELEASE_ANGLE = Math.PI / 4; // How far up its swing a rope is let go of
+const BOTTOMLESS = 100000;
+
+export function getJumpArc(config: GameConfig = GAME_CONFIG): JumpArc {
+  const points: Vector2D[] = [];
+  let velocityY = -config.playerJumpForce;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < MAX_ARC_STEPS; i++) {
+    velocityY = Math.min(velocityY + config.gravity, config.maxFallSpeed);
+    x += config.playerSpeed;
+    y += velocityY;
+    points.push({ x, y });
+  }
+  return { points, height: -Math.min(...points.map((p) => p.y)) };
+}
+
+// How far across a jump carries by the time it comes down to `dy` below take-off
+// (negative = above). -Infinity when that's higher than the jump goes.
+export function getJumpReach(arc: JumpArc, dy: number): number {
+  if (dy < -arc.height) return -Infinity;
+  const landing = arc.points.find((p, i) => i > 0 && p.y > arc.points[i - 1].y && p.y >= dy);
+  return landing?.x ?? Infinity;
+}
+
+export function analyzeLevel(level: LevelData, config: GameConfig = GAME_CONFIG): LevelReport {
+  const arc = getJumpArc(config);
+  const surfaces = getSurfaces(level);
+  const start = findStartSurface(level, surfaces);
+  const nodes = [start, ...surfaces];
+
+  const edges = nodes.map((from) =>
+    nodes.flatMap((to, j) => (to !== from && ((from.group && from.group === to.group) || canReach(arc, from, to)) ? [j] : []))
+  );
+  const reachable = walk(edges, [0]);
+  const exits = [level.exitZone, ...(level.exits ?? [])];
+  const atExit = new Set(nodes.flatMap((node, i) => (exits.some((exit) => canTouch(arc, node, exit)) ? [i] : [])));
+  const issues: LevelIssue[] = [];
+  const isReachable = (id: string) => nodes.some((node, i) => node.id === id && reachable.has(i));
+  const canGetTo = (rect: Rectangle) => [...reachable].some((i) => canTouch(arc, nodes[i], rect));
+
+  for (const exit of level.exits ?? []) {
+    if (!canGetTo(exit)) issues.push({ severity: 'warning', message: `Exit "${exit.id}" can't be reached`, entityId: exit.id });
+  }
+  if (!canGetTo(level.exitZone)) {
+    issues.push({ severity: 'error', message: "The exit can't be reached from the player start", entityId: 'exitZone' });
+  } else {
+    // Everywhere that leads back to an exit; reachable surfaces outside it are dead ends
+    const escapes = new Set(atExit);
+    let isGrowing = true;
+    while (isGrowing) {
+      isGrowing = false;
+      edges.forEach((targets, i) => {
+        if (!escapes.has(i) && targets.some((j) => escapes.has(j))) {
+          escapes.add(i);
+          isGrowing = true;
+        }
+      });
+    }
+    const trapped = new Set([...reachable].filter((i) => !escapes.has(i)).map((i) => nodes[i].id));
+    trapped.forEach((id) => issues.push({ severity: 'error', message: `No way out after reaching "${id}"`, entityId: id }));
+  }
+
+  // Walls (taller than wide) are there to block, not to be stood on
+  for (const platform of level.platforms.filter((p) => p.width >= p.height)) {
+    const targets = surfaces.filter((s) => s.id === platform.id);
+    if (targets.length === 0 || isReachable(platform.id)) continue;
+    const reason = explainMiss(arc, [...reachable].map((i) => nodes[i]), targets[0]);
+    issues.push({ severity: 'warning', message: `Platform "${platform.id}" can't be reached${reason}`, entityId: platform.id });
+  }
+  for (const rope of level.ropes) {
+    if (!isReachable(rope.id)) {
+      issues.push({ severity: 'warning', message: `Rope "${rope.id}" can't be caught`, entityId: rope.id });
+    }
+  }
+  for (const sw of level.switches) {
+    if (!canGetTo(sw)) issues.push({ severity: 'error', message: `Switch "${sw.id}" can't be reached`, entityId: sw.id });
+  }
+  for (const cp of level.checkpoints) {
+    if (!canGetTo(cp)) issues.push({ severity: 'warning', message: `Checkpoint "${cp.id}" can't be reached`, entityId: cp.id });
+    const problem = checkRespawn(level, surfaces, cp);
+    if (problem) issues.push({ severity: 'error', message: `Checkpoint "${cp.id}" ${problem}`, entityId: cp.id });
+  }
+
+  issues.push(...findPits(level, [...reachable].map((i) => nodes[i])));
+  issues.push(...findOverlaps(level));
+
+  return {
+    levelId: level.id,
+    levelName: level.name,
+    jumpHeight: Math.round(arc.height),
+    jumpDistance: Math.round(getJumpReach(arc, 0)),
+    reachableIds: [...new Set([...reachable].map((i) => nodes[i].id))].filter((id) => id !== 'playerStart'),
+    issues,
+  };
+}
+
+// Plain-text report for the command line
+export function formatReport(report: LevelReport): string {
+  const lines = [
+    `${report.levelName} (${report.levelId})`,
+    `  Jump: ${report.jumpHeight}px high, ${report.jumpDistance}px across`,
+    `  Reachable: ${report.reachableIds.length} platforms, pushables and ropes`,
+  ];
+  if (report.issues.length === 0) lines.push('  No issues found');
+  for (const issue of report.issues) {
+    lines.push(`  ${issue.severity.padEnd(7)} ${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+function getSurfaces(level: LevelData): Surface[] {
+  const surfaces: Surface[] = [];
+
+  for (const platform of level.platforms) {
+    if (!isPlatformSolid(platform)) continue;
+    const isMoving = platform.type === 'moving' && platform.path;
+    const stops: Vector2D[] = isMoving ? [platform, ...platform.path!.waypoints] : [platform];
+    for (const stop of stops) {
+      surfaces.push({
+        id: platform.id,
+        left: stop.x,
+        right: stop.x + platform.width,
+        top: stop.y,
+        canGrabLedge: platform.type !== 'one-way',
+        group: isMoving ? platform.id : undefined,
+      });
+    }
+  }
+
+  for (const pushable of level.pushableObjects) {
+    surfaces.push({
+      id: pushable.id,
+      left: pushable.x,
+      right: pushable.x + pushable.width,
+      top: pushable.y,
+      canGrabLedge: true,
+    });
+  }
+
+  // A rope is let go of partway up its swing, anywhere across it
+  for (const rope of level.ropes) {
+    const { grabDistance } = getRopeConfig(rope);
+    const swing = rope.length * Math.sin(ROPE_RELEASE_ANGLE);
+    surfaces.push({
+      id: rope.id,
+      left: rope.anchorX - swing,
+      right: rope.anchorX + swing,
+      top: rope.anchorY + rope.length * Math.cos(ROPE_RELEASE_ANGLE) + PLAYER_HEIGHT / 2,
+      canGrabLedge: false,
+      catchArea: {
+        x: rope.anchorX - grabDistance,
+        y: rope.anchorY,
+        width: grabDistance * 2,
+        height: rope.length + grabDistance,
+      },
+    });
+  }
+
+  // Tops buried under a hazard aren't somewhere to stand
+  return surfaces.filter(
+    (surface) =>
+      surface.catchArea ||
+      !level.hazards.some(
+        (hazard) =>
+          hazard.isActive &&
+          hazard.x <= surface.left &&
+          hazard.x + hazard.width >= surface.right &&
+          rectIntersect(hazard, { x: surface.left, y: surface.top - 1, width: surface.right - surface.left, height: 2 })
+      )
+  );
+}
+
+// What the player lands on from the start, or the start itself if there's nothing under it
+function findStartSurface(level: LevelData, surfaces: Surface[]): Surface {
+  const { x, y } = level.playerStart;
+  const feet = y + PLAYER_HEIGHT;
+  const under = surfaces
+    .filter((s) => !s.catchArea && s.left < x + PLAYER_WIDTH && s.right > x && s.top >= feet - 1)
+    .sort((a, b) => a.top - b.top)[0];
+  return under ?? { id: 'playerStart', left: x, right: x + PLAYER_WIDTH, top: feet, canGrabLedge: false };
+}
+
+// Horizontal gap between a surface and a span (negative when they overlap)
+function getGap(from: Surface, left: number, right: number): number {
+  return Math.max(left - from.right, from.left - right);
+}
+
+function canReach(arc: JumpArc, from: Surface, to: Surface): boolean {
+  if (to.catchArea) return canTouch(arc, from, to.catchArea);
+  const gap = getGap(from, to.left, to.right);
+  const dy = to.top - from.top;
+  if (getJumpReach(arc, dy) >= Math.max(0, gap - PLAYER_WIDTH)) return true;
+  // Hands at the top of the player's box catch a corner they come past
+  return (
+    to.canGrabLedge &&
+    getJumpReach(arc, dy + PLAYER_HEIGHT) >= Math.max(0, gap - PLAYER_WIDTH - LEDGE_GRAB_REACH)
+  );
+}
+
+// Whether the player's box can get into an area, jumping or falling from a surface
+function canTouch(arc: JumpArc, from: Surface, area: Rectangle): boolean {
+  const gap = getGap(from, area.x, area.x + area.width);
+  // Lowest the feet can be with the box still inside the area - lower jumps carry further
+  const dy = area.y + area.height + PLAYER_HEIGHT - 1 - from.top;
+  return getJumpReach(arc, dy) >= Math.max(0, gap - PLAYER_WIDTH);
+}
+
+function walk(edges: number[][], from: number[]): Set<number> {
+  const seen = new Set(from);
+  const queue = [...from];
+  while (queue.length > 0) {
+    for (const next of edges[queue.shift()!]) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+// Why the nearest attempt at a surface falls short - too high, or too far at that height
+function explainMiss(arc: JumpArc, reachable: Surface[], target: Surface): string {
+  let best: { shortfall: number; reason: string } | null = null;
+  for (const from of reachable) {
+    if (from.catchArea) continue;
+    const rise = from.top - target.top;
+    const highest = arc.height + (target.canGrabLedge ? PLAYER_HEIGHT : 0);
+    const gap = Math.max(0, getGap(from, target.left, target.right) - PLAYER_WIDTH);
+    const reach = Math.max(getJumpReach(arc, -rise), target.canGrabLedge ? getJumpReach(arc, PLAYER_HEIGHT - rise) : -Infinity);
+    const attempt =
+      rise > highest
+        ? { shortfall: rise - highest, reason: `it's ${Math.round(rise)}px above "${from.id}" but the highest jump is ${Math.round(highest)}px` }
+        : { shortfall: gap - reach, reason: `the ${Math.round(gap)}px gap from "${from.id}" is wider than the ${Math.round(reach)}px jump at that height` };
+    if (!best || attempt.shortfall < best.shortfall) best = attempt;
+  }
+  return best ? ` - ${best.reason}` : '';
+}
+
+// Respawning at a checkpoint drops the player straight down from it, onto a platform or a closed door
+function checkRespawn(level: LevelData, surfaces: Surface[], checkpoint: Rectangle): string | null {
+  const y = checkpoint.y + checkpoint.height - PLAYER_HEIGHT;
+  const isBelow = (left: number, right: number, top: number) =>
+    left < checkpoint.x + PLAYER_WIDTH && right > checkpoint.x && top >= y + PLAYER_HEIGHT - 1;
+  const floorTops = [
+    ...surfaces.filter((s) => !s.catchArea && !s.group && isBelow(s.left, s.right, s.top)).map((s) => s.top),
+    ...getClosedDoors(level).filter((d) => isBelow(d.x, d.x + d.width, d.y)).map((d) => d.y),
+  ];
+  const floorTop = Math.min(...floorTops);
+  const fall: Rectangle = {
+    x: checkpoint.x,
+    y,
+    width: PLAYER_WIDTH,
+    height: (isFinite(floorTop) ? floorTop : BOTTOMLESS) - y,
+  };
+  const hazard = level.hazards.find((h) => h.isActive && rectIntersect(h, fall));
+  if (hazard) return `respawns the player onto hazard "${hazard.id}"`;
+  if (!isFinite(floorTop)) return 'respawns the player over a bottomless drop';
+  return null;
+}
+
+function getClosedDoors(level: LevelData): Door[] {
+  return (level.doors ?? []).filter((door) => door.openAmount < 1);
+}
+
+// Edges the player can walk off with nothing below - not a platform, a wall, or even a hazard
+// to end the fall - one issue per pit however many surfaces border it
+function findPits(level: LevelData, reachable: Surface[]): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const spans: [number, number][] = [];
+  // Falling into an exit (a secret below a pit) is a way out too
+  const blockers: Rectangle[] = [
+    ...level.platforms,
+    ...level.pushableObjects,
+    ...level.hazards,
+    level.exitZone,
+    ...(level.exits ?? []),
+  ];
+  const walls = level.platforms.filter((p) => p.type !== 'one-way');
+
+  for (const surface of reachable) {
+    if (surface.catchArea || surface.group || surface.id === 'playerStart') continue;
+    const below = blockers.filter((b) => b.y + b.height > surface.top - PLAYER_HEIGHT);
+    for (const side of ['left', 'right'] as const) {
+      // A wall standing on the edge keeps the player from getting to it
+      const edge: Rectangle = {
+        x: side === 'left' ? surface.left : surface.right - PLAYER_WIDTH,
+        y: surface.top - PLAYER_HEIGHT,
+        width: PLAYER_WIDTH,
+        height: PLAYER_HEIGHT - 1,
+      };
+      if (walls.some((wall) => rectIntersect(wall, edge))) continue;
+      const x = side === 'left' ? surface.left - PLAYER_WIDTH : surface.right;
+      const column: Rectangle = { x, y: surface.top - PLAYER_HEIGHT, width: PLAYER_WIDTH, height: BOTTOMLESS };
+      if (below.some((b) => rectIntersect(b, column))) continue;
+
+      const [from, to] =
+        side === 'left'
+          ? [Math.max(...below.map((b) => b.x + b.width).filter((r) => r <= surface.left)), surface.left]
+          : [surface.right, Math.min(...below.map((b) => b.x).filter((l) => l >= surface.right))];
+      if (spans.some(([left, right]) => from < right && to > left)) continue;
+      spans.push([from, to]);
+      const message = !isFinite(from)
+        ? `Nothing stops the player walking off the left of the level at x ${to}`
+        : !isFinite(to)
+          ? `Nothing stops the player walking off the right of the level at x ${from}`
+          : `The pit from x ${from} to ${to} has no floor - falling in leaves the player stuck`;
+      issues.push({ severity: 'warning', message, entityId: surface.id });
+    }
+  }
+
+  return issues;
+}
+
+function findOverlaps(level: LevelData): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const walls = level.platforms.filter((p) => p.type !== 'one-way' && p.type !== 'moving');
+  const closedDoors = getClosedDoors(level);
+
+  walls.forEach((platform, i) => {
+    for (const other of walls.slice(i + 1)) {
+      if (rectIntersect(platform, other)) {
+        issues.push({
+          severity: 'warning',
+          message: `Platforms "${platform.id}" and "${other.id}" overlap`,
+          entityId: other.id,
+        });
+      }
+    }
+  });
+
+  level.pushableObjects.forEach((pushable, i) => {
+    const stuckIn = [...walls, ...closedDoors, ...level.pushableObjects.slice(i + 1)].find((other) => rectIntersect(pushable, other));
+    if (stuckIn) {
+      issues.push({ severity: 'error', message: `Pushable "${pushable.id}" overlaps "${stuckIn.id}"`, entityId: pushable.id });
+    }
+  });
+
+  for (const entity of [...level.switches, ...level.checkpoints]) {
+    const wall = walls.find((p) => rectIntersect(entity, p));
+    if (wall) {
+      issues.push({ severity: 'warning', message: `"${entity.id}" is buried in platform "${wall.id}"`, entityId: entity.id });
+    }
+  }
+  for (const sw of level.switches) {
+    const door = closedDoors.find((d) => rectIntersect(sw, d));
+    if (door) issues.push({ severity: 'warning', message: `"${sw.id}" is buried in door "${door.id}"`, entityId: sw.id });
+  }
+  // Open or not, a door can close on whoever respawns inside it
+  for (const cp of level.checkpoints) {
+    const door = (level.doors ?? []).find((d) => rectIntersect(cp, d));
+    if (door) issues.push({ severity: 'error', message: `Checkpoint "${cp.id}" overlaps door "${door.id}"`, entityId: cp.id });
+  }
+
+  for (const exit of [level.exitZone, ...(level.exits ?? [])]) {
+    const hazard = level.hazards.find((h) => h.isActive && rectIntersect(h, exit));
+    const name = 'id' in exit ? `Exit "${exit.id}"` : 'The exit';
+    if (hazard) issues.push({ severity: 'error', message: `${name} overlaps hazard "${hazard.id}"`, entityId: hazard.id });
+  }
+
+  return issues;
+}
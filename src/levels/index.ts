@@ -1,15 +1,66 @@
-// Level exports
+// Level exports - the built-in levels ship as level files and go through the same loader
+// as levels players drop in
 
-import { LevelData } from '../types/game';
-import { level1 } from './level1';
-import { level2 } from './level2';
+import { ExitZone, LevelData } from '../types/game';
+import { parseLevel, loadLevel } from './loader';
+import level1File from './level1.json';
+import level2File from './level2.json';
+import secret1File from './secret1.json';
 
+export const level1: LevelData = loadLevel(level1File);
+export const level2: LevelData = loadLevel(level2File);
+export const secret1: LevelData = loadLevel(secret1File);
+
+// The chapters, in the order the story runs
 export const levels: LevelData[] = [level1, level2];
+// Areas only reached through secret exits - outside the chapter list
+export const secretLevels: LevelData[] = [secret1];
+// Everything playable; a GameState's currentLevel indexes into this, chapters first
+export const allLevels: LevelData[] = [...levels, ...secretLevels];
+
+// A typo in an exit's target would otherwise end the game early, so refuse to start with one
+const badExits = allLevels.flatMap(getUnknownExitTargets);
+if (badExits.length > 0) {
+  throw new Error(`Built-in levels have ${badExits.length} problem(s):\n${badExits.map((p) => `- ${p}`).join('\n')}`);
+}
 
 export function getLevelById(id: string): LevelData | undefined {
-  return levels.find((level) => level.id === id);
+  return allLevels.find((level) => level.id === id);
 }
 
 export function getLevelByIndex(index: number): LevelData | undefined {
-  return levels[index];
+  return allLevels[index];
+}
+
+// Exits that lead to a level id that doesn't exist, as readable messages
+export function getUnknownExitTargets(level: LevelData): string[] {
+  const exits: [string, ExitZone][] = [
+    ['The exit', level.exitZone],
+    ...(level.exits ?? []).map((exit): [string, ExitZone] => [`Exit "${exit.id}"`, exit]),
+  ];
+  return exits
+    .filter(([, exit]) => exit.nextLevelId !== undefined && !getLevelById(exit.nextLevelId))
+    .map(([name, exit]) => `${name} in "${level.id}" leads to unknown level "${exit.nextLevelId}"`);
+}
+
+// Where leaving a level through an exit leads: the exit's own target, else the chapter after
+// this one. Null when that was the end of the game.
+export function getNextLevel(level: LevelData, exit: ExitZone): LevelData | null {
+  if (exit.nextLevelId) {
+    const target = getLevelById(exit.nextLevelId);
+    if (!target) throw new Error(`Exit leads to unknown level "${exit.nextLevelId}"`);
+    return target;
+  }
+  const chapterIndex = levels.findIndex((chapter) => chapter.id === level.id);
+  return chapterIndex === -1 ? null : (levels[chapterIndex + 1] ?? null);
+}
+
+// Read a level file picked or dropped by the player - rejects with every problem found
+export async function readLevelFile(file: File): Promise<LevelData> {
+  const level = parseLevel(await file.text());
+  const problems = getUnknownExitTargets(level);
+  if (problems.length > 0) {
+    throw new Error(`Level "${level.id}" has ${problems.length} problem(s):\n${problems.map((p) => `- ${p}`).join('\n')}`);
+  }
+  return level;
 }
@@ -0,0 +1,218 @@
+// Level file tests - round-tripping, versions and the problems the loader reports
+
+import { describe, it, expect } from 'vitest';
+import { LEVEL_FORMAT_VERSION, loadLevel, parseLevel, serializeLevel, validateLevel } from './loader';
+import { allLevels, getNextLevel, getUnknownExitTargets, level1, level2, secret1 } from '.';
+import { createTestLevel } from '../game/headless';
+
+describe('level files', () => {
+  it('round-trips every built-in level', () => {
+    for (const level of allLevels) {
+      expect(parseLevel(serializeLevel(level))).toEqual(level);
+    }
+  });
+
+  it('chains the built-in levels through their exits, ending after the last chapter', () => {
+    for (const level of allLevels) {
+      for (const exit of level.exits ?? []) {
+        expect(getNextLevel(level, exit)).not.toBeNull();
+      }
+    }
+    expect(getNextLevel(level1, level1.exitZone)).toBe(level2);
+    expect(getNextLevel(level1, level1.exits![0])).toBe(secret1);
+    expect(getNextLevel(secret1, secret1.exitZone)).toBe(level2);
+    expect(getNextLevel(level2, level2.exitZone)).toBeNull();
+  });
+
+  it('refuses exits that lead to unknown levels instead of ending the game', () => {
+    const level = createTestLevel({
+      exitZone: { x: 1950, y: 0, width: 50, height: 620, nextLevelId: 'levle-2' },
+      exits: [{ id: 'secret', x: 1000, y: 500, width: 50, height: 50, nextLevelId: 'secret-1' }],
+    });
+
+    expect(allLevels.flatMap(getUnknownExitTargets)).toEqual([]);
+    expect(getUnknownExitTargets(level)).toEqual(['The exit in "test" leads to unknown level "levle-2"']);
+    expect(() => getNextLevel(level, level.exitZone)).toThrow('unknown level "levle-2"');
+    expect(getNextLevel(level, level.exits![0])).toBe(secret1);
+  });
+
+  it('writes the current version and strips it on load', () => {
+    const text = serializeLevel(createTestLevel());
+    expect(JSON.parse(text).version).toBe(LEVEL_FORMAT_VERSION);
+    expect(parseLevel(text)).not.toHaveProperty('version');
+  });
+
+  it('rejects files that are not JSON or from a newer version', () => {
+    expect(() => parseLevel('{ nope')).toThrow('not valid JSON');
+    expect(() => loadLevel({ ...createTestLevel(), version: LEVEL_FORMAT_VERSION + 1 })).toThrow('newer');
+  });
+
+  it('lists every problem in one error', () => {
+    const level = createTestLevel({
+      hazards: [{ id: 'floor', x: 500, y: 600, width: 40, height: 20, type: 'spike', isActive: true }],
+      exitZone: { x: 1990, y: 0, width: 50, height: 620 },
+    });
+    expect(() => loadLevel({ ...level, version: 1 })).toThrow(/Level "test" has 2 problem\(s\):\n- Duplicate id/);
+  });
+});
+
+describe('validation', () => {
+  it('accepts a well-formed level', () => {
+    expect(validateLevel(createTestLevel())).toEqual([]);
+  });
+
+  it('reports fields with the wrong type or value', () => {
+    const level = {
+      ...createTestLevel(),
+      width: '2000',
+      chapter: { title: 'Test', musicCue: 'jazz' },
+      hazards: [{ id: 'h', x: 0, y: 0, width: 1, height: 1, type: 'lava', isActive: true }],
+    };
+    expect(validateLevel(level)).toEqual([
+      'Level: width must be a number',
+      'Level chapter: musicCue must be one of dread, wonder, resolve',
+      'Hazard "h": type must be one of spike, saw, water, bearTrap, crusher',
+    ]);
+  });
+
+  it('checks the fields each hazard motion type needs', () => {
+    const saw = { id: 'saw', x: 0, y: 0, width: 40, height: 40, type: 'saw', isActive: true };
+    const level = {
+      ...createTestLevel(),
+      hazards: [
+        { ...saw, id: 'swing', motion: { type: 'pendulum', period: 2000 } },
+        { ...saw, id: 'rail', motion: { type: 'rail', period: 2000, path: [{ x: 0, y: 0 }, { x: 100 }] } },
+        { ...saw, id: 'spin', motion: { type: 'spin', period: 2000 } },
+      ],
+    };
+    expect(validateLevel(level)).toEqual([
+      'Hazard "swing" motion pivot must be an object',
+      'Hazard "swing" motion: amplitude must be a number',
+      'Hazard "rail" motion path #2: y must be a number',
+      'Hazard "spin" motion: type must be one of crusher, pendulum, rail',
+    ]);
+  });
+
+  it('checks every entry of waypoint and id lists', () => {
+    const level = {
+      ...createTestLevel(),
+      platforms: [
+        ...createTestLevel().platforms,
+        { id: 'lift', x: 0, y: 300, width: 100, height: 20, type: 'moving', path: { waypoints: [1, 2], speed: 2 } },
+      ],
+      logic: [{ id: 'gate', type: 'and', inputIds: ['lift', 3], links: [], isOn: false }],
+    };
+    expect(validateLevel(level)).toEqual([
+      'Platform "lift" path waypoints #1 must be an object',
+      'Platform "lift" path waypoints #2 must be an object',
+      'Logic "gate" inputIds: #2 must be a string',
+    ]);
+  });
+
+  it('reports sizes, speeds, periods, masses and rope segments that are not positive', () => {
+    const saw = { id: 'saw', x: 500, y: 500, width: 40, height: 40, type: 'saw' as const, isActive: true };
+    const level = createTestLevel({
+      platforms: [
+        ...createTestLevel().platforms,
+        {
+          id: 'lift',
+          x: 0,
+          y: 300,
+          width: 100,
+          height: 0,
+          type: 'moving',
+          path: { waypoints: [{ x: 0, y: 300 }, { x: 200, y: 300, speed: -1 }], speed: 0 },
+        },
+      ],
+      hazards: [{ ...saw, motion: { type: 'crusher', period: 0, travel: 100 } }],
+      pushableObjects: [
+        { id: 'box', x: 300, y: 570, width: 50, height: 50, type: 'box', velocity: { x: 0, y: 0 }, isBeingPushed: false, mass: 0 },
+      ],
+      ropes: [
+        { id: 'rope', anchorX: 1000, anchorY: 100, length: 300, segments: 0 },
+        { id: 'frayed', anchorX: 1200, anchorY: 100, length: -5, segments: 2.5 },
+      ],
+    });
+    expect(validateLevel(level)).toEqual([
+      'Platform "lift": height must be positive',
+      'Platform "lift" path: speed must be positive',
+      'Platform "lift" path waypoints #2: speed must be positive',
+      'Hazard "saw" motion: period must be positive',
+      'Pushable "box": mass must be positive',
+      'Rope "rope": segments must be a positive whole number',
+      'Rope "frayed": length must be positive',
+      'Rope "frayed": segments must be a positive whole number',
+    ]);
+  });
+
+  it('reports duplicate ids across entity lists', () => {
+    const level = createTestLevel({ checkpoints: [{ id: 'floor', x: 0, y: 0, width: 10, height: 10, isActivated: false }] });
+    expect(validateLevel(level)).toEqual(['Duplicate id "floor" (platform and checkpoint)']);
+  });
+
+  it('reports links to missing or undrivable entities', () => {
+    const level = createTestLevel({
+      switches: [
+        {
+          id: 'lever',
+          x: 300,
+          y: 580,
+          width: 20,
+          height: 40,
+          type: 'lever',
+          isActivated: false,
+          targetIds: ['gone'],
+          links: [{ targetId: 'cp', action: 'enable' }],
+        },
+      ],
+      checkpoints: [{ id: 'cp', x: 0, y: 0, width: 10, height: 10, isActivated: false }],
+      ropes: [{ id: 'rope', anchorX: 500, anchorY: 100, length: 200, loadId: 'floor' }],
+      logic: [{ id: 'gate', type: 'and', inputIds: ['rope'], links: [], isOn: false }],
+    });
+    expect(validateLevel(level)).toEqual([
+      'Switch "lever" targets missing entity "gone"',
+      `Switch "lever" targets checkpoint "cp", which signals can't drive`,
+      'Logic "gate" reads "rope", which is not a switch, checkpoint, zone or logic entity',
+      'Rope "rope" is tied to missing pushable "floor"',
+    ]);
+  });
+
+  it('reports exits outside the level and starts inside solids', () => {
+    const level = createTestLevel({
+      playerStart: { x: 100, y: 600 },
+      exitZone: { x: 1950, y: -10, width: 50, height: 620 },
+      exits: [{ id: 'secret', x: 1000, y: 700, width: 100, height: 40, isSecret: true }],
+    });
+    expect(validateLevel(level)).toEqual([
+      'Exit zone lies outside the level (2000 x 720)',
+      'Exit "secret" lies outside the level (2000 x 720)',
+      'Player start (100, 600) is inside "floor"',
+    ]);
+  });
+
+  it('reports segments with gaps, overlaps or short of the level width', () => {
+    const segments = [
+      { id: 'first', x: 0, width: 800 },
+      { id: 'second', x: 900, width: 0 },
+      { id: 'third', x: 850, width: 1000 },
+    ];
+    expect(validateLevel(createTestLevel({ segments }))).toEqual([
+      'Segment "second" must have a positive width',
+      'Segment "second" should start at x 800, where the last one ends',
+      'Segment "third" should start at x 900, where the last one ends',
+      'Segments end at x 1850 but the level is 2000 wide',
+    ]);
+  });
+
+  it('lets the player start on one-way platforms and inside open doors', () => {
+    const level = createTestLevel({
+      playerStart: { x: 100, y: 400 },
+      platforms: [
+        { id: 'floor', x: 0, y: 620, width: 2000, height: 100, type: 'solid' },
+        { id: 'ledge', x: 50, y: 420, width: 200, height: 20, type: 'one-way' },
+      ],
+      doors: [{ id: 'door', x: 90, y: 300, width: 40, height: 300, style: 'slide-up', isOpen: true, openAmount: 1 }],
+    });
+    expect(validateLevel(level)).toEqual([]);
+  });
+});
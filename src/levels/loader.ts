@@ -0,0 +1,490 @@
+// Level files - the versioned JSON format levels are stored in, and the loader that checks
+// them before they reach the simulation. Built-in levels and user files take the same path.
+
+import { LevelData, LevelField, LevelFile, Rectangle, SignalLink } from '../types/game';
+import { PLAYER_HEIGHT, PLAYER_WIDTH } from '../game/constants';
+import { isPlatformSolid, rectIntersect } from '../utils/collision';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+// Upgrades from each older format version to the next one
+const LEVEL_MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// What a field must hold; a trailing ? makes it optional
+type FieldType = 'number' | 'string' | 'boolean' | 'array';
+type FieldRule = FieldType | `${FieldType}?` | Shape | Choice | ListOf | Variants;
+type Shape = { [field: string]: FieldRule };
+interface Choice {
+  oneOf: readonly string[];
+  isOptional: boolean;
+}
+// An array whose every entry follows the same rule
+interface ListOf {
+  items: FieldRule;
+  isOptional: boolean;
+}
+// An object whose shape depends on its type field
+interface Variants {
+  variants: Record<string, Shape>;
+  isOptional: boolean;
+}
+
+const oneOf = (values: readonly string[], isOptional: boolean = false): Choice => ({ oneOf: values, isOptional });
+const listOf = (items: FieldRule, isOptional: boolean = false): ListOf => ({ items, isOptional });
+const byType = (variants: Record<string, Shape>, isOptional: boolean = false): Variants => ({ variants, isOptional });
+// A nested object that may be left out, flagged with a '?' key
+const optional = (shape: Shape): Shape => ({ ...shape, '?': 'boolean?' });
+
+const POINT: Shape = { x: 'number', y: 'number' };
+const RECT: Shape = { ...POINT, width: 'number', height: 'number' };
+const LINK: Shape = {
+  targetId: 'string',
+  action: oneOf(['enable', 'disable', 'toggle', 'start', 'stop', 'open', 'close']),
+  delay: 'number?',
+  inverted: 'boolean?',
+};
+const EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out'];
+const WAYPOINT: Shape = { ...POINT, pause: 'number?', speed: 'number?', easing: oneOf(EASINGS, true) };
+const MOTION_TIMING: Shape = { period: 'number', phase: 'number?' };
+const EXIT: Shape = { ...RECT, nextLevelId: 'string?', isSecret: 'boolean?' };
+const CHAPTER: Shape = optional({
+  title: 'string',
+  subtitle: 'string?',
+  ambience: oneOf(['wind', 'rain', 'machinery', 'hollow'], true),
+  musicCue: oneOf(['dread', 'wonder', 'resolve'], true),
+});
+
+const ENTITY_SHAPES = {
+  platforms: {
+    id: 'string',
+    ...RECT,
+    type: oneOf(['solid', 'one-way', 'moving', 'crumbling']),
+    path: optional({
+      waypoints: listOf(WAYPOINT),
+      speed: 'number',
+      mode: oneOf(['loop', 'ping-pong', 'one-way'], true),
+      easing: oneOf(EASINGS, true),
+    }),
+    isMoving: 'boolean?',
+    crumblingConfig: optional({ breakDelay: 'number', respawnDelay: 'number' }),
+  },
+  hazards: {
+    id: 'string',
+    ...RECT,
+    type: oneOf(['spike', 'saw', 'water', 'bearTrap', 'crusher']),
+    isActive: 'boolean',
+    motion: byType(
+      {
+        crusher: { ...MOTION_TIMING, travel: 'number' },
+        pendulum: { ...MOTION_TIMING, pivot: POINT, amplitude: 'number' },
+        rail: { ...MOTION_TIMING, path: listOf(POINT) },
+      },
+      true
+    ),
+  },
+  pushableObjects: {
+    id: 'string',
+    ...RECT,
+    type: oneOf(['box', 'boulder', 'log']),
+    velocity: { x: 'number', y: 'number' },
+    isBeingPushed: 'boolean',
+    mass: 'number?',
+  },
+  switches: {
+    id: 'string',
+    ...RECT,
+    type: oneOf(['lever', 'button', 'pressurePlate']),
+    isActivated: 'boolean',
+    targetIds: listOf('string'),
+    links: listOf(LINK, true),
+    mode: oneOf(['toggle', 'momentary', 'timed', 'one-shot'], true),
+    duration: 'number?',
+  },
+  ropes: {
+    id: 'string',
+    anchorX: 'number',
+    anchorY: 'number',
+    length: 'number',
+    angle: 'number?',
+    loadId: 'string?',
+    isEnabled: 'boolean?',
+    segments: 'number?',
+    grabDistance: 'number?',
+    swingAccel: 'number?',
+    damping: 'number?',
+    maxSwingSpeed: 'number?',
+    climbSpeed: 'number?',
+  },
+  checkpoints: { id: 'string', ...RECT, isActivated: 'boolean', links: listOf(LINK, true) },
+  exits: { id: 'string', ...EXIT },
+  doors: {
+    id: 'string',
+    ...RECT,
+    style: oneOf(['slide-up', 'slide-side', 'portcullis']),
+    isOpen: 'boolean',
+    openAmount: 'number',
+    openTime: 'number?',
+  },
+  zones: { id: 'string', ...RECT, isOccupied: 'boolean', links: listOf(LINK) },
+  lights: { id: 'string', x: 'number', y: 'number', radius: 'number', isOn: 'boolean' },
+  logic: {
+    id: 'string',
+    type: oneOf(['and', 'or', 'timer']),
+    links: listOf(LINK),
+    isOn: 'boolean',
+    inputIds: listOf('string', true),
+    interval: 'number?',
+    isRunning: 'boolean?',
+  },
+} satisfies Record<string, Shape>;
+
+export type EntityList = keyof typeof ENTITY_SHAPES;
+const OPTIONAL_LISTS: EntityList[] = ['exits', 'doors', 'zones', 'lights', 'logic'];
+
+// Singular names for messages
+const ENTITY_NAMES: Record<EntityList, string> = {
+  platforms: 'platform',
+  hazards: 'hazard',
+  pushableObjects: 'pushable',
+  switches: 'switch',
+  ropes: 'rope',
+  checkpoints: 'checkpoint',
+  exits: 'exit',
+  doors: 'door',
+  zones: 'zone',
+  lights: 'light',
+  logic: 'logic',
+};
+
+// Entities with a size, which must be positive
+const SIZED_LISTS: EntityList[] = ['platforms', 'hazards', 'pushableObjects', 'switches', 'checkpoints', 'exits', 'doors', 'zones'];
+
+// Entities that act on signals, and those that send them (what gates can read)
+const SIGNAL_TARGETS: EntityList[] = ['platforms', 'hazards', 'ropes', 'doors', 'lights', 'logic'];
+const SIGNAL_EMITTERS: EntityList[] = ['switches', 'checkpoints', 'zones', 'logic'];
+
+// Parse a level file's text - throws with every problem found
+export function parseLevel(text: string): LevelData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Level file is not valid JSON');
+  }
+  return loadLevel(raw);
+}
+
+// Bring already-parsed level JSON up to the current format and check it
+export function loadLevel(raw: unknown): LevelData {
+  if (!isObject(raw)) throw new Error('Level file must contain an object');
+
+  let file = raw;
+  let version = typeof file.version === 'number' ? file.version : 0;
+  if (version > LEVEL_FORMAT_VERSION) {
+    throw new Error(`Level file version ${version} is newer than this game supports (${LEVEL_FORMAT_VERSION})`);
+  }
+  while (version < LEVEL_FORMAT_VERSION) {
+    const migrate = LEVEL_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Unsupported level file version: ${file.version}`);
+    file = migrate(file);
+    version += 1;
+  }
+
+  const problems = validateLevel(file);
+  if (problems.length > 0) {
+    const name = typeof file.id === 'string' ? `Level "${file.id}"` : 'Level';
+    throw new Error(`${name} has ${problems.length} problem(s):\n${problems.map((p) => `- ${p}`).join('\n')}`);
+  }
+
+  const level: Partial<LevelFile> = { ...file };
+  delete level.version;
+  return level as LevelData;
+}
+
+// Everything wrong with a level, as readable messages. Empty when it's fine to play.
+export function validateLevel(raw: unknown): string[] {
+  if (!isObject(raw)) return ['Level must be an object'];
+
+  const problems: string[] = [];
+  checkShape(
+    raw,
+    {
+      id: 'string',
+      name: 'string',
+      width: 'number',
+      height: 'number',
+      playerStart: { x: 'number', y: 'number' },
+      exitZone: EXIT,
+      ambientEffects: 'array',
+      chapter: CHAPTER,
+      segments: 'array?',
+    },
+    'Level',
+    problems
+  );
+
+  for (const list of Object.keys(ENTITY_SHAPES) as EntityList[]) {
+    const entities = raw[list];
+    if (entities === undefined && OPTIONAL_LISTS.includes(list)) continue;
+    if (!Array.isArray(entities)) {
+      problems.push(`Level ${list} must be an array`);
+      continue;
+    }
+    entities.forEach((entity, i) => {
+      const where = isObject(entity) && typeof entity.id === 'string' ? `"${entity.id}"` : `#${i + 1}`;
+      checkShape(entity, ENTITY_SHAPES[list], `${capitalize(ENTITY_NAMES[list])} ${where}`, problems);
+    });
+  }
+  if (Array.isArray(raw.ambientEffects)) {
+    raw.ambientEffects.forEach((effect, i) =>
+      checkShape(effect, { type: oneOf(['fog', 'particles', 'rain', 'mist']), intensity: 'number' }, `Ambient effect #${i + 1}`, problems)
+    );
+  }
+  if (Array.isArray(raw.segments)) {
+    raw.segments.forEach((segment, i) =>
+      checkShape(segment, { id: 'string', x: 'number', width: 'number' }, `Segment #${i + 1}`, problems)
+    );
+  }
+
+  // The rest reads fields freely, so only once the structure is sound
+  if (problems.length > 0) return problems;
+  const level = raw as unknown as LevelData;
+  return [...checkRanges(level), ...checkReferences(level), ...checkPlacement(level)];
+}
+
+// Write a level in the file format - one entity per line so diffs stay readable
+export function serializeLevel(level: LevelData): string {
+  const file: LevelFile = { version: LEVEL_FORMAT_VERSION, ...level };
+  const fields = Object.entries(file).map(([key, value]) => {
+    const text = Array.isArray(value)
+      ? value.length === 0
+        ? '[]'
+        : `[\n${value.map((item) => `    ${JSON.stringify(item)}`).join(',\n')}\n  ]`
+      : JSON.stringify(value);
+    return `  ${JSON.stringify(key)}: ${text}`;
+  });
+  return `{\n${fields.join(',\n')}\n}\n`;
+}
+
+// The plain fields an entity list's entries can have - nested objects and lists are left out
+export function getEntityFields(list: EntityList): LevelField[] {
+  const fields: LevelField[] = [];
+  for (const [name, rule] of Object.entries(ENTITY_SHAPES[list] as Shape)) {
+    if (typeof rule === 'string') {
+      const type = rule.replace('?', '');
+      if (type === 'number' || type === 'string' || type === 'boolean') {
+        fields.push({ name, type, isOptional: rule.endsWith('?') });
+      }
+    } else if ('oneOf' in rule && Array.isArray(rule.oneOf)) {
+      const choice = rule as Choice;
+      fields.push({ name, type: 'choice', choices: choice.oneOf, isOptional: choice.isOptional });
+    }
+  }
+  return fields;
+}
+
+function checkShape(value: unknown, shape: Shape, where: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${where} must be an object`);
+    return;
+  }
+
+  for (const [field, rule] of Object.entries(shape)) {
+    if (field === '?') continue;
+    const fieldValue = value[field];
+
+    if (typeof rule === 'string') {
+      const isOptional = rule.endsWith('?');
+      const type = isOptional ? rule.slice(0, -1) : rule;
+      if (fieldValue === undefined && isOptional) continue;
+      const actual = Array.isArray(fieldValue) ? 'array' : typeof fieldValue;
+      if (actual !== type || (type === 'number' && !Number.isFinite(fieldValue))) {
+        problems.push(`${where}: ${field} must be a ${type}`);
+      }
+    } else if ('oneOf' in rule && Array.isArray(rule.oneOf)) {
+      const choice = rule as Choice;
+      if (fieldValue === undefined && choice.isOptional) continue;
+      if (!choice.oneOf.includes(fieldValue as string)) {
+        problems.push(`${where}: ${field} must be one of ${choice.oneOf.join(', ')}`);
+      }
+    } else if ('items' in rule && typeof rule.isOptional === 'boolean') {
+      const list = rule as ListOf;
+      if (fieldValue === undefined && list.isOptional) continue;
+      if (!Array.isArray(fieldValue)) {
+        problems.push(`${where}: ${field} must be a array`);
+        continue;
+      }
+      fieldValue.forEach((item, i) => checkShape({ [`#${i + 1}`]: item }, { [`#${i + 1}`]: list.items }, `${where} ${field}`, problems));
+    } else if ('variants' in rule && typeof rule.isOptional === 'boolean') {
+      const { variants, isOptional } = rule as Variants;
+      if (fieldValue === undefined && isOptional) continue;
+      const type = isObject(fieldValue) ? fieldValue.type : undefined;
+      if (typeof type !== 'string' || !Object.hasOwn(variants, type)) {
+        problems.push(`${where} ${field}: type must be one of ${Object.keys(variants).join(', ')}`);
+        continue;
+      }
+      checkShape(fieldValue, variants[type], `${where} ${field}`, problems);
+    } else {
+      const nested = rule as Shape;
+      if (fieldValue === undefined && nested['?']) continue;
+      checkShape(fieldValue, nested, `${where} ${field}`, problems);
+    }
+  }
+}
+
+// Sizes, speeds and counts the simulation divides by or steps through - zero or less breaks it
+function checkRanges(level: LevelData): string[] {
+  const problems: string[] = [];
+  const checkPositive = (where: string, field: string, value: number | undefined) => {
+    if (value !== undefined && value <= 0) problems.push(`${where}: ${field} must be positive`);
+  };
+
+  checkPositive('Exit zone', 'width', level.exitZone.width);
+  checkPositive('Exit zone', 'height', level.exitZone.height);
+  for (const list of SIZED_LISTS) {
+    for (const entity of (level[list] ?? []) as (Rectangle & { id: string })[]) {
+      const where = `${capitalize(ENTITY_NAMES[list])} "${entity.id}"`;
+      checkPositive(where, 'width', entity.width);
+      checkPositive(where, 'height', entity.height);
+    }
+  }
+
+  for (const platform of level.platforms) {
+    if (!platform.path) continue;
+    checkPositive(`Platform "${platform.id}" path`, 'speed', platform.path.speed);
+    platform.path.waypoints.forEach((waypoint, i) =>
+      checkPositive(`Platform "${platform.id}" path waypoints #${i + 1}`, 'speed', waypoint.speed)
+    );
+  }
+  for (const hazard of level.hazards) {
+    if (hazard.motion) checkPositive(`Hazard "${hazard.id}" motion`, 'period', hazard.motion.period);
+  }
+  for (const object of level.pushableObjects) checkPositive(`Pushable "${object.id}"`, 'mass', object.mass);
+  for (const rope of level.ropes) {
+    checkPositive(`Rope "${rope.id}"`, 'length', rope.length);
+    if (rope.segments !== undefined && !(Number.isInteger(rope.segments) && rope.segments > 0)) {
+      problems.push(`Rope "${rope.id}": segments must be a positive whole number`);
+    }
+  }
+
+  return problems;
+}
+
+function checkReferences(level: LevelData): string[] {
+  const problems: string[] = [];
+  const kinds = new Map<string, EntityList>();
+
+  for (const list of Object.keys(ENTITY_SHAPES) as EntityList[]) {
+    for (const { id } of (level[list] ?? []) as { id: string }[]) {
+      const existing = kinds.get(id);
+      if (existing) {
+        problems.push(`Duplicate id "${id}" (${ENTITY_NAMES[existing]} and ${ENTITY_NAMES[list]})`);
+      } else {
+        kinds.set(id, list);
+      }
+    }
+  }
+
+  const checkTarget = (where: string, targetId: unknown) => {
+    const kind = kinds.get(String(targetId));
+    if (!kind) {
+      problems.push(`${where} targets missing entity "${targetId}"`);
+    } else if (!SIGNAL_TARGETS.includes(kind)) {
+      problems.push(`${where} targets ${ENTITY_NAMES[kind]} "${targetId}", which signals can't drive`);
+    }
+  };
+  const checkLinks = (where: string, links: SignalLink[] | undefined) => {
+    for (const link of links ?? []) checkTarget(where, link.targetId);
+  };
+
+  for (const sw of level.switches) {
+    sw.targetIds.forEach((targetId) => checkTarget(`Switch "${sw.id}"`, targetId));
+    checkLinks(`Switch "${sw.id}"`, sw.links);
+  }
+  level.checkpoints.forEach((cp) => checkLinks(`Checkpoint "${cp.id}"`, cp.links));
+  level.zones?.forEach((zone) => checkLinks(`Zone "${zone.id}"`, zone.links));
+
+  for (const entity of level.logic ?? []) {
+    checkLinks(`Logic "${entity.id}"`, entity.links);
+    if (entity.type === 'timer') continue;
+    for (const inputId of entity.inputIds ?? []) {
+      const kind = kinds.get(inputId);
+      if (!kind || !SIGNAL_EMITTERS.includes(kind)) {
+        problems.push(`Logic "${entity.id}" reads "${inputId}", which is not a switch, checkpoint, zone or logic entity`);
+      }
+    }
+  }
+
+  for (const rope of level.ropes) {
+    if (rope.loadId && kinds.get(rope.loadId) !== 'pushableObjects') {
+      problems.push(`Rope "${rope.id}" is tied to missing pushable "${rope.loadId}"`);
+    }
+  }
+
+  for (const platform of level.platforms) {
+    if (platform.type === 'moving' && (platform.path?.waypoints.length ?? 0) < 2) {
+      problems.push(`Moving platform "${platform.id}" needs a path with at least two waypoints`);
+    }
+  }
+
+  return problems;
+}
+
+function checkPlacement(level: LevelData): string[] {
+  const problems: string[] = [];
+  if (level.width <= 0 || level.height <= 0) {
+    problems.push('Level width and height must be positive');
+  }
+
+  const bounds: Rectangle = { x: 0, y: 0, width: level.width, height: level.height };
+  if (!isInside(level.exitZone, bounds)) {
+    problems.push(`Exit zone lies outside the level (${level.width} x ${level.height})`);
+  }
+  for (const exit of level.exits ?? []) {
+    if (!isInside(exit, bounds)) problems.push(`Exit "${exit.id}" lies outside the level (${level.width} x ${level.height})`);
+  }
+
+  // Segments run left to right without gaps or overlaps, across the whole level
+  if (level.segments) {
+    let expectedX = 0;
+    for (const segment of level.segments) {
+      if (segment.width <= 0) problems.push(`Segment "${segment.id}" must have a positive width`);
+      if (segment.x !== expectedX) problems.push(`Segment "${segment.id}" should start at x ${expectedX}, where the last one ends`);
+      expectedX = segment.x + segment.width;
+    }
+    if (level.segments.length > 0 && expectedX !== level.width) {
+      problems.push(`Segments end at x ${expectedX} but the level is ${level.width} wide`);
+    }
+  }
+
+  const start: Rectangle = { ...level.playerStart, width: PLAYER_WIDTH, height: PLAYER_HEIGHT };
+  if (!isInside(start, bounds)) {
+    problems.push(`Player start (${level.playerStart.x}, ${level.playerStart.y}) lies outside the level`);
+  }
+  const blocking = [
+    ...level.platforms.filter((p) => p.type !== 'one-way' && isPlatformSolid(p)),
+    ...(level.doors ?? []).filter((d) => d.openAmount < 1),
+  ].find((solid) => rectIntersect(start, solid));
+  if (blocking) {
+    problems.push(`Player start (${level.playerStart.x}, ${level.playerStart.y}) is inside "${blocking.id}"`);
+  }
+
+  return problems;
+}
+
+function isInside(rect: Rectangle, bounds: Rectangle): boolean {
+  return (
+    rect.x >= bounds.x &&
+    rect.y >= bounds.y &&
+    rect.x + rect.width <= bounds.x + bounds.width &&
+    rect.y + rect.height <= bounds.y + bounds.height
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
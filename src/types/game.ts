@@ -18,16 +18,34 @@ export interface Player {
   width: number;
   height: number;
   isGrounded: boolean;
+  groundId: string | null; // Platform or pushable stood on - its movement carries the player
   isJumping: boolean;
   isDead: boolean;
   isGrabbing: boolean;
   isOnRope: boolean;
   attachedRopeId: string | null;
-  ropeGrabCooldown: number;
+  ropeGrip: RopeGrip | null; // Where on the attached rope the hands are
+  ledge: LedgeGrip | null; // Hanging from (or climbing onto) a platform edge
+  lastGroundedFrame: number; // Input frame the player last stood on something (coyote time)
+  consumedJumpPress: number; // pressedAt of the jump press already spent, so one press jumps once
+  consumedGrabPress: number; // pressedAt of the grab press held through letting go of a rope
   facingRight: boolean;
   animationState: PlayerAnimationState;
 }
 
+export interface RopeGrip {
+  distance: number; // Down the rope from the anchor
+  grabbedAt: number; // Input frame of the grab - jump or grab already held then doesn't climb
+}
+
+// Hold on a platform: at its top corner, or underneath it when the platform is thin enough to shimmy along
+export interface LedgeGrip {
+  platformId: string;
+  // Grip point from the platform's left edge: 0 or width at a corner, anywhere between when underneath
+  offsetX: number;
+  climbTime: number; // ms into climbing up onto the platform, 0 while just hanging
+}
+
 export type PlayerAnimationState =
   | 'idle'
   | 'walking'
@@ -36,27 +54,73 @@ export type PlayerAnimationState =
   | 'falling'
   | 'grabbing'
   | 'pushing'
+  | 'pulling'
   | 'swinging'
+  | 'hanging'
+  | 'climbing'
   | 'dying';
 
-export interface Platform {
+// Entities roll back to the last checkpoint snapshot when the player dies,
+// unless they opt out and keep whatever state they were left in.
+export interface Persistable {
+  persistAcrossDeaths?: boolean;
+}
+
+export interface Platform extends Persistable {
   id: string;
   x: number;
   y: number;
   width: number;
   height: number;
   type: 'solid' | 'one-way' | 'moving' | 'crumbling';
-  movingConfig?: {
-    startX: number;
-    endX: number;
-    startY: number;
-    endY: number;
-    speed: number;
-    currentDirection: 1 | -1;
-  };
+  path?: PlatformPath; // Route for moving platforms
+  isMoving?: boolean; // Moving platforms can be started and stopped by signals (default: moving)
+  crumblingConfig?: CrumblingConfig;
+  crumble?: CrumbleState;
+}
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+// loop: back to the first waypoint after the last. ping-pong: turn around at either end.
+// one-way: stop at the end; started again, it runs back the other way.
+export type PathMode = 'loop' | 'ping-pong' | 'one-way';
+
+// A stop on a moving platform's route - where the platform's top-left corner goes
+export interface Waypoint {
+  x: number;
+  y: number;
+  pause?: number; // ms to wait on arriving here
+  speed?: number; // Overrides the path speed on the segment leaving this waypoint
+  easing?: Easing; // Overrides the path easing on the segment leaving this waypoint
+}
+
+export interface PlatformPath {
+  waypoints: Waypoint[];
+  speed: number; // Average distance per step along a segment
+  mode?: PathMode; // Default: ping-pong
+  easing?: Easing; // Default: linear
+  // Runtime state
+  from?: number; // Waypoint the platform is travelling away from
+  direction?: 1 | -1;
+  progress?: number; // 0-1 along the current segment
+  pauseRemaining?: number; // ms left waiting at the current waypoint
 }
 
-export interface Hazard {
+export interface CrumblingConfig {
+  breakDelay: number; // ms of shaking after the player steps on it
+  respawnDelay: number; // ms after breaking until it reforms (0 = only on checkpoint respawn)
+}
+
+export type CrumblePhase = 'intact' | 'shaking' | 'falling';
+
+export interface CrumbleState {
+  phase: CrumblePhase;
+  timer: number; // ms spent in the current phase
+  fallOffset: number;
+  fallVelocity: number;
+}
+
+export interface Hazard extends Persistable {
   id: string;
   x: number;
   y: number;
@@ -65,9 +129,36 @@ export interface Hazard {
   type: 'spike' | 'saw' | 'water' | 'bearTrap' | 'crusher';
   isActive: boolean;
   animationPhase?: number;
+  motion?: HazardMotion;
+  // Runtime motion state, advanced by the simulation while the hazard is active
+  motionTime?: number;
+  offset?: Vector2D;
+  rotation?: number;
 }
 
-export interface PushableObject {
+// Scripted hazard movement. Positions are absolute world coordinates.
+export type HazardMotion =
+  | {
+      type: 'crusher';
+      period: number; // ms for a full raise-slam-hold-rise cycle
+      phase?: number; // 0-1 offset into the cycle
+      travel: number; // How far the head drops from its raised (defined) position
+    }
+  | {
+      type: 'pendulum';
+      period: number;
+      phase?: number;
+      pivot: Vector2D; // Arm hangs from here down to the saw's defined center
+      amplitude: number; // Max swing angle in radians
+    }
+  | {
+      type: 'rail';
+      period: number; // ms for a full out-and-back trip
+      phase?: number;
+      path: Vector2D[]; // Top-left waypoints, travelled ping-pong
+    };
+
+export interface PushableObject extends Persistable {
   id: string;
   x: number;
   y: number;
@@ -76,9 +167,21 @@ export interface PushableObject {
   type: 'box' | 'boulder' | 'log';
   velocity: Vector2D;
   isBeingPushed: boolean;
+  isBeingPulled?: boolean; // Dragged along by the player walking away from it
+  mass?: number; // Overrides the type's mass - heavier objects push and pull slower
+  restingOn?: string | null; // Platform or pushable it sits on, carried along when that moves
+  rotation?: number; // Radians - rolling, or tumbling off a ledge
+  angularVelocity?: number;
 }
 
-export interface Switch {
+// Handling shared by every pushable of a type
+export interface PushableTypeConfig {
+  mass: number;
+  friction: number; // Velocity kept per step while sliding on the ground
+  rolls: boolean; // Keeps rolling once let go instead of scraping to a stop
+}
+
+export interface Switch extends Persistable {
   id: string;
   x: number;
   y: number;
@@ -86,16 +189,45 @@ export interface Switch {
   height: number;
   type: 'lever' | 'button' | 'pressurePlate';
   isActivated: boolean;
-  targetIds: string[];
+  targetIds: string[]; // Shorthand for links that disable these targets while activated
+  links?: SignalLink[];
+  mode?: SwitchMode; // Default: momentary for pressure plates, one-shot otherwise
+  duration?: number; // ms a timed switch stays on after release
+  // Runtime state
+  isPressed?: boolean; // Held down (plate weighted, or action held in reach) last step
+  timeRemaining?: number;
+}
+
+// toggle: each press flips it. momentary: on only while held.
+// timed: on while held, then counts down. one-shot: latches on forever.
+export type SwitchMode = 'toggle' | 'momentary' | 'timed' | 'one-shot';
+
+// Tuning for a rope - any of it can be set per rope, the rest comes from ROPE_DEFAULTS
+export interface RopeConfig {
+  segments: number; // Links in the verlet chain
+  grabDistance: number; // How close the player's center must be to catch it
+  swingAccel: number; // How fast the player can pump the swing
+  damping: number; // Velocity kept per step
+  maxSwingSpeed: number; // Cap on horizontal speed of the player's hands
+  climbSpeed: number; // Climbing up or down the rope, per step
+}
+
+export interface RopePoint {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
 }
 
-export interface Rope {
+export interface Rope extends Persistable, Partial<RopeConfig> {
   id: string;
   anchorX: number;
   anchorY: number;
   length: number;
-  angle: number;
-  angularVelocity: number;
+  angle?: number; // Starting lean from vertical (radians)
+  loadId?: string; // Pushable tied to the free end
+  points?: RopePoint[]; // Verlet chain from the anchor down - built on the first step
+  isEnabled?: boolean; // Disabled ropes are pulled up out of reach (default: enabled)
 }
 
 export interface Checkpoint {
@@ -105,6 +237,80 @@ export interface Checkpoint {
   width: number;
   height: number;
   isActivated: boolean;
+  links?: SignalLink[];
+}
+
+// Blocks a doorway when closed. Signals open and close it; the panel retracts
+// into the frame, so only the part still inside the doorway is solid.
+export interface Door extends Persistable {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: 'slide-up' | 'slide-side' | 'portcullis';
+  isOpen: boolean; // Where the door is heading
+  openAmount: number; // 0 = closed, 1 = fully retracted
+  openTime?: number; // ms for a full open (and close, except portcullis drops)
+  slideDirection?: 1 | -1; // slide-side: retracts right (1) or left (-1)
+}
+
+// Invisible area that signals while the player is inside it
+export interface TriggerZone {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isOccupied: boolean;
+  links: SignalLink[];
+}
+
+export interface Light extends Persistable {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  isOn: boolean;
+}
+
+// Signal wiring - emitters (switches, checkpoints, zones, logic) drive targets by id.
+// When an emitter turns on, each link applies its action to the target; when it turns
+// off, the opposite action is applied (toggle only fires on turning on).
+export type SignalAction = 'enable' | 'disable' | 'toggle' | 'start' | 'stop' | 'open' | 'close';
+
+export interface SignalLink {
+  targetId: string;
+  action: SignalAction;
+  delay?: number; // ms before the action lands
+  inverted?: boolean; // React to the emitter turning off instead of on
+}
+
+// Logic entities combine or generate signals. Gates read the on/off state of
+// other emitters by id; timers flip their output every interval while running.
+export type LogicEntity =
+  | {
+      id: string;
+      type: 'and' | 'or';
+      inputIds: string[];
+      links: SignalLink[];
+      isOn: boolean;
+    }
+  | {
+      id: string;
+      type: 'timer';
+      interval: number; // ms between output flips
+      isRunning: boolean;
+      links: SignalLink[];
+      isOn: boolean;
+      elapsed?: number;
+    };
+
+// An action waiting out its link delay
+export interface PendingSignal {
+  targetId: string;
+  action: SignalAction;
+  remaining: number;
 }
 
 export interface LevelData {
@@ -119,8 +325,68 @@ export interface LevelData {
   switches: Switch[];
   ropes: Rope[];
   checkpoints: Checkpoint[];
-  exitZone: Rectangle;
+  exitZone: ExitZone;
   ambientEffects: AmbientEffect[];
+  chapter?: ChapterMeta;
+  exits?: LevelExit[]; // Extra ways out besides exitZone - alternate routes and secret areas
+  segments?: LevelSegment[]; // Long levels only simulate the segments near the camera
+  doors?: Door[];
+  zones?: TriggerZone[];
+  lights?: Light[];
+  logic?: LogicEntity[];
+  pendingSignals?: PendingSignal[];
+}
+
+// A stretch of a long level. Segments run left to right and cover the level's whole width.
+export interface LevelSegment {
+  id: string;
+  x: number;
+  width: number;
+}
+
+// The entities of a segmented level that are out of range - frozen until streamed back in
+export type StreamedEntities = Pick<LevelData, 'platforms' | 'hazards' | 'pushableObjects' | 'ropes'>;
+
+export interface LevelStream {
+  firstSegment: number; // Loaded segments, as indices into LevelData.segments
+  lastSegment: number;
+  dormant: StreamedEntities;
+  order: Record<string, number>; // Each entity's place in its list, to merge back in file order
+}
+
+// Where walking out of a level leads - another level by id, or by default the next chapter
+// in order (or the credits after the last one)
+export interface ExitZone extends Rectangle {
+  nextLevelId?: string;
+  isSecret?: boolean;
+}
+
+export interface LevelExit extends ExitZone {
+  id: string;
+}
+
+// How a chapter opens - its title card, the ambience swelling in under it and a music sting
+export interface ChapterMeta {
+  title: string;
+  subtitle?: string;
+  ambience?: ChapterAmbience;
+  musicCue?: MusicCue;
+}
+
+export type ChapterAmbience = 'wind' | 'rain' | 'machinery' | 'hollow';
+export type MusicCue = 'dread' | 'wonder' | 'resolve';
+
+// On-disk level format: LevelData plus the format version it was written in
+export interface LevelFile extends LevelData {
+  version: number;
+}
+
+// A plain entity field as the level format defines it
+export interface LevelField {
+  name: string;
+  type: 'number' | 'string' | 'boolean' | 'choice';
+  choices?: readonly string[];
+  isOptional: boolean;
 }
 
 export interface AmbientEffect {
@@ -136,8 +402,24 @@ export interface GameState {
   player: Player;
   camera: Camera;
   lastCheckpoint: Vector2D | null;
+  checkpointSnapshot: LevelData | null; // Level as it was when the last checkpoint (or the level) started
   deathCount: number;
   levelData: LevelData | null;
+  stream: LevelStream | null; // Set while levelData holds only the loaded segments' entities
+  rngState: number;
+  input: InputFrame; // Edges and timestamps of the last step's input
+}
+
+// Events raised by a simulation step for the host (sound, level transitions)
+export type WorldEvent =
+  | { type: 'death'; hazardId: string } // Hazard, door or pinching platform that killed the player
+  | { type: 'checkpoint'; checkpointId: string }
+  | { type: 'switchTick'; switchId: string; timeRemaining: number }
+  | { type: 'levelComplete'; exit: ExitZone };
+
+export interface WorldStepResult {
+  state: GameState;
+  events: WorldEvent[];
 }
 
 export interface Camera {
@@ -145,6 +427,7 @@ export interface Camera {
   y: number;
   zoom: number;
   shake: number;
+  shakeOffset?: Vector2D; // How far the shake jolts the view this step
 }
 
 export interface InputState {
@@ -154,6 +437,128 @@ export interface InputState {
   action: boolean;
 }
 
+// Edge-aware view of one action for a fixed step. Timestamps are input frame numbers.
+export interface ActionState {
+  held: boolean;
+  pressed: boolean; // Went down this frame
+  released: boolean; // Went up this frame
+  pressedAt: number; // Frame of the most recent press (-Infinity if never)
+  releasedAt: number;
+}
+
+// Input for one fixed step, derived from consecutive InputStates by the simulation
+export interface InputFrame {
+  frame: number;
+  actions: Record<keyof InputState, ActionState>;
+}
+
+// Everything the player can rebind: the held InputState actions plus one-shot menu commands
+export type BindableAction = keyof InputState | 'pause' | 'restart';
+export type InputCommand = Exclude<BindableAction, keyof InputState>;
+
+// Keyboard codes (KeyboardEvent.code) and standard-mapping gamepad button indices per action
+export interface InputBindings {
+  keys: Record<BindableAction, string[]>;
+  buttons: Record<BindableAction, number[]>;
+}
+
+export type BindingDevice = keyof InputBindings;
+
+// On-screen controls for phones and tablets
+export interface TouchSettings {
+  visibility: 'auto' | 'always' | 'never';
+  layout: 'joystick' | 'pads';
+  swapSides: boolean; // Movement on the right, buttons on the left
+  opacity: number; // 0-1
+}
+
+// Recorded play session - one packed input bitmask per fixed simulation step
+export interface ReplayData {
+  levelId: string;
+  seed: number;
+  checkpointId?: string; // Recording started from a saved checkpoint
+  checkpointSnapshot?: LevelData; // ...with the level as the save left it
+  frames: number[];
+}
+
+// On-disk replay format (frames run-length encoded as [bits, count] pairs)
+export interface ReplayFile {
+  version: number;
+  levelId: string;
+  seed: number;
+  checkpointId?: string;
+  checkpointSnapshot?: LevelData;
+  frameCount: number;
+  inputs: [number, number][];
+}
+
+// One save slot - progress through the chapters of a single playthrough
+export interface SaveSlot {
+  unlockedLevelIds: string[];
+  currentLevelId: string | null; // Where Continue picks up
+  checkpoints: Record<string, string>; // Last checkpoint id reached per level id
+  checkpointSnapshots?: Record<string, LevelData>; // The level as it was at that checkpoint, per level id
+  totalDeaths: number;
+  playTime: number; // ms spent in the simulation
+  updatedAt: number; // Date.now() of the last write
+}
+
+// Everything stored in localStorage
+export interface SaveFile {
+  version: number;
+  activeSlot: number;
+  slots: (SaveSlot | null)[];
+}
+
+// Static level analysis - what the player can get to, and what's wrong with the layout
+export interface LevelIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  entityId?: string; // What the issue is about, for jumping to it in the editor
+}
+
+export interface LevelReport {
+  levelId: string;
+  levelName: string;
+  jumpHeight: number; // Highest a standing jump lifts the player's feet
+  jumpDistance: number; // Furthest a running jump carries at the same height
+  reachableIds: string[]; // Platforms, pushables and ropes the player can get onto
+  issues: LevelIssue[];
+}
+
+// Level editor - what can be placed, and the edit history undo/redo walks
+export type EditorEntityKind =
+  | 'platforms'
+  | 'hazards'
+  | 'pushableObjects'
+  | 'switches'
+  | 'ropes'
+  | 'checkpoints'
+  | 'exits'
+  | 'exitZone'
+  | 'playerStart';
+
+// exitZone and playerStart are singletons; their id is the kind
+export interface EditorSelection {
+  kind: EditorEntityKind;
+  id: string;
+}
+
+export interface EditorHistory {
+  past: LevelData[];
+  present: LevelData;
+  future: LevelData[];
+}
+
+// Everything the editor keeps while the level is being play-tested
+export interface EditorSession {
+  history: EditorHistory;
+  selection: EditorSelection | null;
+  camera: Vector2D; // View center
+  grid: number; // Snap size, 0 = off
+  playFrom: Vector2D | null; // Where "play from here" drops the player, else the player start
+}
+
 export interface GameConfig {
   gravity: number;
   playerSpeed: number;
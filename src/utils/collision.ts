@@ -1,6 +1,7 @@
 // Collision detection utilities
 
 import { Rectangle, Vector2D, Platform, Hazard, PushableObject, Player } from '../types/game';
+import { getHazardHitbox } from '../game/hazards';
 
 export function rectIntersect(a: Rectangle, b: Rectangle): boolean {
   return (
@@ -36,11 +37,20 @@ export interface CollisionResult {
   entity: Platform | Hazard | PushableObject | null;
 }
 
+// Broken crumbling platforms are purely visual until they reform
+export function isPlatformSolid(platform: Platform): boolean {
+  return platform.crumble?.phase !== 'falling';
+}
+
 export function checkPlatformCollision(
   player: Player,
   platform: Platform,
   prevPosition: Vector2D
 ): CollisionResult {
+  if (!isPlatformSolid(platform)) {
+    return { collides: false, direction: null, overlap: 0, entity: null };
+  }
+
   const playerRect = getPlayerRect(player);
   const platformRect: Rectangle = {
     x: platform.x,
@@ -91,24 +101,8 @@ export function checkPlatformCollision(
 export function checkHazardCollision(player: Player, hazard: Hazard): boolean {
   if (!hazard.isActive) return false;
 
-  const playerRect = getPlayerRect(player);
-  const hazardRect: Rectangle = {
-    x: hazard.x,
-    y: hazard.y,
-    width: hazard.width,
-    height: hazard.height,
-  };
-
-  // Make hazard hitbox slightly smaller for fairness
-  const shrinkFactor = 0.2;
-  const shrunkHazardRect: Rectangle = {
-    x: hazardRect.x + hazardRect.width * shrinkFactor,
-    y: hazardRect.y + hazardRect.height * shrinkFactor,
-    width: hazardRect.width * (1 - shrinkFactor * 2),
-    height: hazardRect.height * (1 - shrinkFactor * 2),
-  };
-
-  return rectIntersect(playerRect, shrunkHazardRect);
+  // Hitbox follows the hazard's simulated motion and is slightly smaller for fairness
+  return rectIntersect(getPlayerRect(player), getHazardHitbox(hazard));
 }
 
 export function checkPushableCollision(
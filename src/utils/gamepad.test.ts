@@ -0,0 +1,47 @@
+// Gamepad mapping tests - deadzones, D-pad, face buttons, rebinding and merging with the keyboard
+
+import { describe, it, expect } from 'vitest';
+import { GamepadSnapshot, mergeInputStates, readGamepadCommands, readGamepadInput, EMPTY_INPUT } from './gamepad';
+import { GAMEPAD_BINDINGS } from '../game/constants';
+
+function createPad(axes: number[] = [0, 0], pressed: number[] = [], analog: Record<number, number> = {}): GamepadSnapshot {
+  return {
+    axes,
+    buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i), value: analog[i] ?? (pressed.includes(i) ? 1 : 0) })),
+  };
+}
+
+describe('gamepad input', () => {
+  it('ignores stick drift inside the deadzone', () => {
+    expect(readGamepadInput(createPad([0.2, 0.1]))).toEqual(EMPTY_INPUT);
+  });
+
+  it('moves with the left stick past the deadzone', () => {
+    expect(readGamepadInput(createPad([-0.8, 0]))).toMatchObject({ left: true, right: false });
+    expect(readGamepadInput(createPad([0.6, 0]))).toMatchObject({ left: false, right: true });
+  });
+
+  it('maps the D-pad and face buttons', () => {
+    expect(readGamepadInput(createPad([0, 0], [15, 0, 2]))).toEqual({ left: false, right: true, jump: true, action: true });
+  });
+
+  it('counts a half-pulled analog button as pressed', () => {
+    expect(readGamepadInput(createPad([0, 0], [], { 1: 0.7 })).action).toBe(true);
+  });
+
+  it('follows rebound buttons', () => {
+    const bindings = { ...GAMEPAD_BINDINGS, jump: [3], action: [0] };
+    expect(readGamepadInput(createPad([0, 0], [0]), undefined, bindings)).toMatchObject({ jump: false, action: true });
+  });
+
+  it('reads pause and restart as menu commands', () => {
+    expect(readGamepadCommands(createPad([0, 0], [9]))).toEqual(['pause']);
+    expect(readGamepadCommands(createPad([0, 0], [0, 8]))).toEqual(['restart']);
+  });
+
+  it('merges sources so either one can hold an action', () => {
+    const keyboard = { ...EMPTY_INPUT, left: true };
+    const pad = { ...EMPTY_INPUT, jump: true };
+    expect(mergeInputStates(keyboard, pad)).toEqual({ left: true, right: false, jump: true, action: false });
+  });
+});
@@ -0,0 +1,70 @@
+// Gamepad helpers - turn raw Gamepad API state into game input
+
+import { InputBindings, InputCommand, InputState } from '../types/game';
+import { GAMEPAD_BINDINGS, GAMEPAD_BUTTON_THRESHOLD, GAMEPAD_DEADZONE } from '../game/constants';
+
+// The parts of a Gamepad we read (real pads and test doubles both fit)
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+export const EMPTY_INPUT: InputState = { left: false, right: false, jump: false, action: false };
+
+export function isGamepadButtonPressed(gamepad: GamepadSnapshot, index: number): boolean {
+  const button = gamepad.buttons[index];
+  return !!button && (button.pressed || button.value > GAMEPAD_BUTTON_THRESHOLD);
+}
+
+export function isAnyGamepadButtonPressed(gamepad: GamepadSnapshot, indices: number[]): boolean {
+  return indices.some((index) => isGamepadButtonPressed(gamepad, index));
+}
+
+// Left stick always moves; buttons follow the bindings (D-pad moves, face buttons jump and act by default)
+export function readGamepadInput(
+  gamepad: GamepadSnapshot,
+  deadzone: number = GAMEPAD_DEADZONE,
+  bindings: InputBindings['buttons'] = GAMEPAD_BINDINGS
+): InputState {
+  const stickX = gamepad.axes[0] ?? 0;
+
+  return {
+    left: stickX < -deadzone || isAnyGamepadButtonPressed(gamepad, bindings.left),
+    right: stickX > deadzone || isAnyGamepadButtonPressed(gamepad, bindings.right),
+    jump: isAnyGamepadButtonPressed(gamepad, bindings.jump),
+    action: isAnyGamepadButtonPressed(gamepad, bindings.action),
+  };
+}
+
+// Menu commands currently held on a pad (acted on when they go down, not while held)
+export function readGamepadCommands(
+  gamepad: GamepadSnapshot,
+  bindings: InputBindings['buttons'] = GAMEPAD_BINDINGS
+): InputCommand[] {
+  return (['pause', 'restart'] as const).filter((command) => isAnyGamepadButtonPressed(gamepad, bindings[command]));
+}
+
+// First button held on the pad, for capturing a new binding
+export function findPressedGamepadButton(gamepad: GamepadSnapshot): number | null {
+  const index = gamepad.buttons.findIndex((_, i) => isGamepadButtonPressed(gamepad, i));
+  return index === -1 ? null : index;
+}
+
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected);
+}
+
+// Held on any source counts as held
+export function mergeInputStates(...inputs: InputState[]): InputState {
+  return {
+    left: inputs.some((input) => input.left),
+    right: inputs.some((input) => input.right),
+    jump: inputs.some((input) => input.jump),
+    action: inputs.some((input) => input.action),
+  };
+}
+
+export function isSameInput(a: InputState, b: InputState): boolean {
+  return a.left === b.left && a.right === b.right && a.jump === b.jump && a.action === b.action;
+}
@@ -0,0 +1,74 @@
+// Touch input tests - joystick deadzone, multi-touch merging and settings storage
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TOUCH_SETTINGS,
+  clampJoystick,
+  loadTouchSettings,
+  readJoystickInput,
+  readTouchInput,
+  shouldShowTouchControls,
+  writeTouchSettings,
+} from './touch';
+import { EMPTY_INPUT } from './gamepad';
+import { TOUCH_JOYSTICK_RADIUS } from '../game/constants';
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const items = { ...initial };
+  return {
+    getItem: (key: string) => items[key] ?? null,
+    setItem: (key: string, value: string) => {
+      items[key] = value;
+    },
+  };
+}
+
+describe('touch joystick', () => {
+  it('ignores small movements around the center', () => {
+    expect(readJoystickInput(10, 5)).toEqual(EMPTY_INPUT);
+  });
+
+  it('moves sideways and jumps when pushed far up', () => {
+    expect(readJoystickInput(-40, 0)).toMatchObject({ left: true, right: false, jump: false });
+    expect(readJoystickInput(30, -200)).toMatchObject({ right: false, jump: true });
+  });
+
+  it('keeps the knob within the joystick radius', () => {
+    const knob = clampJoystick(300, 400);
+    expect(Math.hypot(knob.x, knob.y)).toBeCloseTo(TOUCH_JOYSTICK_RADIUS);
+  });
+});
+
+describe('multi-touch', () => {
+  it('combines every finger on screen', () => {
+    const input = readTouchInput([
+      { control: 'joystick', dx: 50, dy: 0 },
+      { control: 'jump', dx: 0, dy: 0 },
+      { control: 'action', dx: 0, dy: 0 },
+    ]);
+    expect(input).toEqual({ left: false, right: true, jump: true, action: true });
+  });
+
+  it('releases everything once no fingers remain', () => {
+    expect(readTouchInput([])).toEqual(EMPTY_INPUT);
+  });
+});
+
+describe('touch settings', () => {
+  it('shows the overlay automatically only on touch devices', () => {
+    expect(shouldShowTouchControls(DEFAULT_TOUCH_SETTINGS, true)).toBe(true);
+    expect(shouldShowTouchControls(DEFAULT_TOUCH_SETTINGS, false)).toBe(false);
+    expect(shouldShowTouchControls({ ...DEFAULT_TOUCH_SETTINGS, visibility: 'always' }, false)).toBe(true);
+    expect(shouldShowTouchControls({ ...DEFAULT_TOUCH_SETTINGS, visibility: 'never' }, true)).toBe(false);
+  });
+
+  it('round-trips through storage and repairs bad values', () => {
+    const storage = createMemoryStorage();
+    const settings = { visibility: 'always' as const, layout: 'pads' as const, swapSides: true, opacity: 0.8 };
+    writeTouchSettings(settings, storage);
+    expect(loadTouchSettings(storage)).toEqual(settings);
+
+    const broken = createMemoryStorage({ 'shadow-touch': '{"visibility":"sometimes","opacity":7}' });
+    expect(loadTouchSettings(broken)).toEqual({ ...DEFAULT_TOUCH_SETTINGS, opacity: 1 });
+  });
+});
@@ -0,0 +1,95 @@
+// Touch helpers - device detection, settings storage and turning touches into game input
+
+import { InputState, TouchSettings } from '../types/game';
+import { TOUCH_JOYSTICK_DEADZONE, TOUCH_JOYSTICK_JUMP, TOUCH_JOYSTICK_RADIUS } from '../game/constants';
+import { EMPTY_INPUT, mergeInputStates } from './gamepad';
+
+const TOUCH_SETTINGS_STORAGE_KEY = 'shadow-touch';
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  visibility: 'auto',
+  layout: 'joystick',
+  swapSides: false,
+  opacity: 0.5,
+};
+
+// On-screen control a finger can be on
+export type TouchControl = 'joystick' | 'left' | 'right' | 'jump' | 'action';
+
+type TouchStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export function isTouchDevice(): boolean {
+  if (typeof window === 'undefined') return false;
+  return (
+    'ontouchstart' in window ||
+    (typeof navigator !== 'undefined' && navigator.maxTouchPoints > 0) ||
+    !!window.matchMedia?.('(pointer: coarse)').matches
+  );
+}
+
+export function shouldShowTouchControls(settings: TouchSettings, hasTouch: boolean): boolean {
+  return settings.visibility === 'always' || (settings.visibility === 'auto' && hasTouch);
+}
+
+export function loadTouchSettings(storage: TouchStorage | undefined = getStorage()): TouchSettings {
+  try {
+    const text = storage?.getItem(TOUCH_SETTINGS_STORAGE_KEY);
+    if (!text) return DEFAULT_TOUCH_SETTINGS;
+    const raw = JSON.parse(text) as Partial<TouchSettings>;
+    return {
+      visibility: ['auto', 'always', 'never'].includes(raw.visibility as string)
+        ? (raw.visibility as TouchSettings['visibility'])
+        : DEFAULT_TOUCH_SETTINGS.visibility,
+      layout: raw.layout === 'pads' ? 'pads' : 'joystick',
+      swapSides: raw.swapSides === true,
+      opacity:
+        typeof raw.opacity === 'number' ? Math.max(0.1, Math.min(1, raw.opacity)) : DEFAULT_TOUCH_SETTINGS.opacity,
+    };
+  } catch {
+    return DEFAULT_TOUCH_SETTINGS;
+  }
+}
+
+export function writeTouchSettings(settings: TouchSettings, storage: TouchStorage | undefined = getStorage()): void {
+  try {
+    storage?.setItem(TOUCH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled - settings last for this session only
+  }
+}
+
+// Knob offset clamped to the joystick's travel
+export function clampJoystick(dx: number, dy: number, radius: number = TOUCH_JOYSTICK_RADIUS): { x: number; y: number } {
+  const distance = Math.hypot(dx, dy);
+  if (distance <= radius) return { x: dx, y: dy };
+  return { x: (dx / distance) * radius, y: (dy / distance) * radius };
+}
+
+// Sideways travel moves; pushing well up also jumps
+export function readJoystickInput(dx: number, dy: number, radius: number = TOUCH_JOYSTICK_RADIUS): InputState {
+  const knob = clampJoystick(dx, dy, radius);
+  return {
+    ...EMPTY_INPUT,
+    left: knob.x < -radius * TOUCH_JOYSTICK_DEADZONE,
+    right: knob.x > radius * TOUCH_JOYSTICK_DEADZONE,
+    jump: knob.y < -radius * TOUCH_JOYSTICK_JUMP,
+  };
+}
+
+// Combine every finger on screen - each one holds whatever control it is on
+export function readTouchInput(touches: { control: TouchControl; dx: number; dy: number }[]): InputState {
+  return mergeInputStates(
+    EMPTY_INPUT,
+    ...touches.map((touch) =>
+      touch.control === 'joystick' ? readJoystickInput(touch.dx, touch.dy) : { ...EMPTY_INPUT, [touch.control]: true }
+    )
+  );
+}
+
+function getStorage(): TouchStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}